@@ -0,0 +1,57 @@
+// Runtime configuration read from environment variables
+import { UpstreamClientOptions, UpstreamEndpoint } from './types/upstreamTypes';
+
+const DEFAULT_SOCCERBET_BASE_URL = 'https://www.soccerbet.rs';
+
+/**
+ * Get the soccerbet.rs origin all upstream requests go to.
+ * Point SOCCERBET_BASE_URL at the mock server (npm run mock) to work without network.
+ */
+export function getSoccerbetBaseUrl(): string {
+  return (process.env.SOCCERBET_BASE_URL || DEFAULT_SOCCERBET_BASE_URL).replace(/\/+$/, '');
+}
+
+const DEFAULT_UPSTREAM_OPTIONS: UpstreamClientOptions = {
+  retries: 3,
+  backoffBaseMs: 500,
+  backoffMaxMs: 10000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30000,
+  timeouts: {
+    sports: 10000,
+    bettingOptions: 20000,
+    preGame: 30000,
+    liveEvents: 30000,
+    liveSubscribe: 0 // continuous stream
+  }
+};
+
+/**
+ * Read a non-negative number from the environment, falling back to a default
+ */
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Get retry, timeout and circuit breaker settings for upstream requests.
+ * UPSTREAM_TIMEOUT_<ENDPOINT>_MS overrides one endpoint, e.g. UPSTREAM_TIMEOUT_BETTINGOPTIONS_MS.
+ */
+export function getUpstreamClientOptions(): UpstreamClientOptions {
+  const defaults = DEFAULT_UPSTREAM_OPTIONS;
+  const timeouts = { ...defaults.timeouts };
+
+  (Object.keys(timeouts) as UpstreamEndpoint[]).forEach(endpoint => {
+    timeouts[endpoint] = readNumber(`UPSTREAM_TIMEOUT_${endpoint.toUpperCase()}_MS`, timeouts[endpoint]);
+  });
+
+  return {
+    retries: readNumber('UPSTREAM_RETRIES', defaults.retries),
+    backoffBaseMs: readNumber('UPSTREAM_BACKOFF_BASE_MS', defaults.backoffBaseMs),
+    backoffMaxMs: readNumber('UPSTREAM_BACKOFF_MAX_MS', defaults.backoffMaxMs),
+    breakerThreshold: Math.max(1, readNumber('UPSTREAM_BREAKER_THRESHOLD', defaults.breakerThreshold)),
+    breakerCooldownMs: readNumber('UPSTREAM_BREAKER_COOLDOWN_MS', defaults.breakerCooldownMs),
+    timeouts
+  };
+}
@@ -0,0 +1,114 @@
+import { PassThrough, Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { BookmakerAdapter, LiveFeedConnection } from '../services/bookmakerAdapter';
+import { toBookmakerSports, toBetCatalogue, toPreGameOffer, toLiveFeedBatch, SOCCERBET_COMPLEMENTARY_PAIRS } from '../services/soccerbetAdapter';
+import { LiveFeedStreamName } from '../services/liveFeedRecorder';
+import { BookmakerCatalogue, BookmakerSport, PreGameOffer, LiveFeedBatch, LiveFeedHandlers } from '../types/bookmakerTypes';
+import { FixtureFeed } from './fixtureFeed';
+
+// One line of the fake live feed
+type FakeLiveMessage = { batch: LiveFeedBatch } | { snapshotEnd: number } | { position: number };
+
+/**
+ * A bookmaker served in-process from the mock fixtures, without any HTTP. Runs the whole
+ * pipeline offline (BOOKMAKER=fake) and gives tests a deterministic offer and live script.
+ *
+ * The fixtures are soccerbet.rs data, but the live feed goes over a wire format of its own,
+ * one JSON message per line, so the collectors are exercised against a second bookmaker.
+ */
+export class FakeBookmakerAdapter implements BookmakerAdapter {
+  readonly id = 'fake';
+  readonly name = 'Fixture bookmaker';
+  readonly complementaryPairs = SOCCERBET_COMPLEMENTARY_PAIRS;
+  private readonly feed: FixtureFeed;
+
+  constructor(feed: FixtureFeed = new FixtureFeed(Number(process.env.MOCK_SPEED) || 1)) {
+    this.feed = feed;
+  }
+
+  async fetchCatalogue(): Promise<BookmakerCatalogue> {
+    return {
+      sports: toBookmakerSports(this.feed.getSports()),
+      bets: toBetCatalogue(this.feed.getBettingOptions())
+    };
+  }
+
+  async fetchSports(): Promise<BookmakerSport[]> {
+    return toBookmakerSports(this.feed.getSports());
+  }
+
+  async fetchPreGameOffer(sportCode: string): Promise<PreGameOffer> {
+    return toPreGameOffer(this.feed.getPreGame(sportCode));
+  }
+
+  async openLiveFeed(connection: LiveFeedStreamName, position: number | null, signal: AbortSignal): Promise<LiveFeedConnection> {
+    const stream = new PassThrough();
+    const url = connection === 'events' ? 'fixture://live/events' : `fixture://live/subscribe?position=${position}`;
+    const send = (message: FakeLiveMessage) => stream.write(JSON.stringify(message) + '\n');
+    let stop: (() => void) | null = null;
+
+    signal.addEventListener('abort', () => {
+      if (stop) stop();
+      const error = new Error('Fixture feed aborted');
+      error.name = 'AbortError';
+      stream.destroy(error);
+    });
+
+    // Start after listeners had a chance to attach
+    setImmediate(() => {
+      if (signal.aborted) return;
+
+      if (connection === 'events') {
+        const snapshot = this.feed.getLiveSnapshot();
+        send({ batch: toLiveFeedBatch(snapshot.batch) });
+        send({ snapshotEnd: snapshot.position });
+        stream.end();
+      } else {
+        stop = this.feed.playLiveScript({
+          onBatch: batch => {
+            send({ batch: toLiveFeedBatch(batch) });
+            send({ position: Date.now() });
+          },
+          onMalformed: line => stream.write(line + '\n')
+        }, () => stream.end());
+      }
+    });
+
+    return { url, stream };
+  }
+
+  decodeLiveFeed(connection: LiveFeedStreamName, stream: Readable, handlers: LiveFeedHandlers): void {
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+
+    const processLine = (line: string) => {
+      if (!line.trim()) return;
+
+      let message: FakeLiveMessage;
+      try {
+        message = JSON.parse(line);
+      } catch (error) {
+        console.warn(`Skipping malformed ${connection} message: ${line.substring(0, 100)}`);
+        handlers.onMalformed(line.substring(0, 100));
+        return;
+      }
+
+      if ('batch' in message) {
+        handlers.onBatch(message.batch);
+      } else if ('snapshotEnd' in message) {
+        handlers.onSnapshotEnd(message.snapshotEnd);
+      } else if ('position' in message) {
+        handlers.onPosition(message.position);
+      }
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      buffer += decoder.write(chunk);
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(processLine);
+    });
+
+    stream.on('end', () => processLine(buffer + decoder.end()));
+  }
+}
@@ -0,0 +1,169 @@
+import { SportData, BettingOptionsResponse } from '../services/soccerbetApi';
+import { SoccerbetLiveStreamResponse, SoccerbetLiveHeader, SoccerbetLiveResult, SoccerbetPreGameResponse } from '../types/soccerbetTypes';
+import sportsFixture from './fixtures/sports.json';
+import bettingOptionsFixture from './fixtures/bettingOptions.json';
+import preGameFixture from './fixtures/pregame.json';
+import liveFixture from './fixtures/live.json';
+import liveScriptFixture from './fixtures/liveScript.json';
+
+export interface LiveScriptStep {
+  delayMs: number;
+  type: 'odds' | 'header' | 'result' | 'malformed' | 'disconnect';
+  betId?: number; // odds
+  tip?: string; // odds
+  change?: number; // odds, added to the current value
+  header?: Partial<SoccerbetLiveHeader> & { id: number }; // header
+  result?: Partial<SoccerbetLiveResult> & { mId: number }; // result
+  line?: string; // malformed, written as is
+}
+
+// The live records of one soccerbet.rs feed message
+export type FixtureLiveBatch = Required<SoccerbetLiveStreamResponse>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * The soccerbet.rs offer built from the fixtures, shared by the mock upstream server and the
+ * fake bookmaker adapter. The REST offer is served as soccerbet.rs responses; the live feed
+ * is handed out as record batches for each of them to put on their own wire format.
+ *
+ * Fixture times (`kickOffTime`, `kot`) are hours relative to `startedAt`. The live script
+ * plays in a loop: odds changes, header and result patches, malformed lines and disconnects.
+ * `speed` scales the script delays (2 = twice as fast).
+ */
+export class FixtureFeed {
+  private readonly startedAt: number;
+  private readonly speed: number;
+  private readonly script = liveScriptFixture as LiveScriptStep[];
+  private readonly live: SoccerbetLiveStreamResponse; // changed by the script, shared by all connections
+  private preGameRequests = 0;
+  private scriptCursor = 0; // carries over reconnects
+
+  constructor(speed: number = 1, startedAt: number = Date.now()) {
+    this.speed = speed;
+    this.startedAt = startedAt;
+
+    this.live = JSON.parse(JSON.stringify(liveFixture)) as SoccerbetLiveStreamResponse;
+    this.live.liveHeaders.forEach(header => {
+      header.kot = startedAt + header.kot * HOUR_MS;
+      header.lct = startedAt;
+    });
+    this.live.liveBets.forEach(bet => bet.lct = startedAt);
+    this.live.liveResults.forEach(result => result.lct = startedAt);
+  }
+
+  getSports(): SportData[] {
+    return JSON.parse(JSON.stringify(sportsFixture)) as SportData[];
+  }
+
+  getBettingOptions(): BettingOptionsResponse {
+    return JSON.parse(JSON.stringify(bettingOptionsFixture)) as BettingOptionsResponse;
+  }
+
+  /**
+   * Get the pre-game offer of a sport; every call moves the odds a little so refreshes see
+   * changes, and matches past their kickoff are flagged live
+   */
+  getPreGame(sportCode: string): SoccerbetPreGameResponse {
+    this.preGameRequests++;
+    const response = JSON.parse(JSON.stringify(preGameFixture)) as SoccerbetPreGameResponse;
+
+    response.systemTime = new Date().toISOString();
+    response.esMatches = response.esMatches
+      .filter(match => match.sport === sportCode)
+      .map(match => {
+        match.kickOffTime = this.startedAt + match.kickOffTime * HOUR_MS;
+        match.live = match.live || match.kickOffTime <= Date.now();
+        match.tmstmp = Date.now();
+        Object.values(match.betMap).forEach(betData => {
+          Object.values(betData).forEach(bet => {
+            const drift = 1 + 0.03 * Math.sin(this.preGameRequests + bet.bpc);
+            bet.ov = Math.max(1.01, Math.round(bet.ov * drift * 100) / 100);
+          });
+        });
+        return match;
+      });
+
+    return response;
+  }
+
+  /**
+   * Get the initial live snapshot and the position to subscribe from
+   */
+  getLiveSnapshot(): { batch: FixtureLiveBatch; position: number } {
+    const live = JSON.parse(JSON.stringify(this.live)) as SoccerbetLiveStreamResponse;
+
+    return {
+      batch: {
+        liveSports: liveFixture.liveSports,
+        liveHeaders: live.liveHeaders,
+        liveBets: live.liveBets,
+        liveResults: live.liveResults
+      },
+      position: Date.now()
+    };
+  }
+
+  /**
+   * Play the live script until a scripted disconnect calls `end`: every odds, header or
+   * result step is one batch, malformed steps hand over their raw line.
+   * Returns a function that stops playing.
+   */
+  playLiveScript(handlers: { onBatch: (batch: FixtureLiveBatch) => void; onMalformed: (line: string) => void }, end: () => void): () => void {
+    let timer: NodeJS.Timeout | null = null;
+    const batchOf = (records: Partial<FixtureLiveBatch>): FixtureLiveBatch => ({ liveSports: [], liveHeaders: [], liveBets: [], liveResults: [], ...records });
+
+    const runNextStep = () => {
+      const step = this.script[this.scriptCursor];
+      this.scriptCursor = (this.scriptCursor + 1) % this.script.length;
+
+      timer = setTimeout(() => {
+        const now = Date.now();
+
+        switch (step.type) {
+          case 'odds': {
+            const bet = this.live.liveBets.find(b => b.id === step.betId);
+            if (bet && step.tip && bet.om[step.tip]) {
+              const odd = bet.om[step.tip];
+              odd.ov = Math.max(1.01, Math.round((odd.ov + (step.change || 0)) * 100) / 100);
+              bet.lct = now;
+              handlers.onBatch(batchOf({ liveBets: [JSON.parse(JSON.stringify(bet))] }));
+            }
+            break;
+          }
+          case 'header': {
+            const header = this.live.liveHeaders.find(h => h.id === step.header?.id);
+            if (header) {
+              Object.assign(header, step.header, { lct: now });
+              handlers.onBatch(batchOf({ liveHeaders: [{ ...header }] }));
+            }
+            break;
+          }
+          case 'result': {
+            const result = this.live.liveResults.find(r => r.mId === step.result?.mId);
+            if (result) {
+              Object.assign(result, step.result, { lct: now });
+              handlers.onBatch(batchOf({ liveResults: [{ ...result }] }));
+            }
+            break;
+          }
+          case 'malformed':
+            handlers.onMalformed(step.line || '');
+            break;
+          case 'disconnect':
+            console.log('[mock] Scripted disconnect of live subscription');
+            end();
+            return;
+        }
+
+        runNextStep();
+      }, step.delayMs / this.speed);
+    };
+
+    runNextStep();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Mock soccerbet.rs upstream serving the REST and live SSE endpoints from fixtures.
+ *
+ *   npm run mock
+ *   SOCCERBET_BASE_URL=http://localhost:4000 npm run dev
+ *
+ * Fixture times (`kickOffTime`, `kot`) are hours relative to server start. The live
+ * subscription plays `liveScript.json` in a loop: odds changes, header and result
+ * patches, malformed lines and disconnects. MOCK_SPEED scales the script delays
+ * (2 = twice as fast).
+ */
+import express, { Request, Response } from 'express';
+import { SportData, BettingOptionsResponse } from '../services/soccerbetApi';
+import { SoccerbetPreGameResponse } from '../types/soccerbetTypes';
+import { FixtureFeed, FixtureLiveBatch } from './fixtureFeed';
+
+/**
+ * Put a batch of live records on the soccerbet.rs wire: one JSON event per record type
+ */
+function toSseFrames(batch: FixtureLiveBatch): string[] {
+  const events: Record<string, unknown[]> = {
+    liveSports: batch.liveSports,
+    liveHeaders: batch.liveHeaders,
+    liveResults: batch.liveResults,
+    liveBets: batch.liveBets
+  };
+
+  return Object.entries(events)
+    .filter(([_, records]) => records.length > 0)
+    .map(([name, records]) => `data:${JSON.stringify({ [name]: records })}\n\n`);
+}
+
+/**
+ * Create the mock upstream app with its own copy of the fixture state
+ */
+export function createMockUpstreamApp(speed: number = 1) {
+  const app = express();
+  const feed = new FixtureFeed(speed);
+
+  app.use((req: Request, res: Response, next) => {
+    console.log(`[mock] ${req.method} ${req.originalUrl}`);
+    next();
+  });
+
+  app.get('/restapi/translate/sr/sports', (req: Request, res: Response<SportData[]>) => {
+    res.json(feed.getSports());
+  });
+
+  app.get('/restapi/offer/sr/ttg_lang', (req: Request, res: Response<BettingOptionsResponse>) => {
+    res.json(feed.getBettingOptions());
+  });
+
+  // Every request moves the odds a little so refreshes see changes; started matches turn live
+  app.get('/restapi/offer/sr/sport/:code/mob', (req: Request, res: Response<SoccerbetPreGameResponse>) => {
+    res.json(feed.getPreGame(req.params.code));
+  });
+
+  // Initial live snapshot: one JSON event per record type, then the END sentinel
+  app.get('/live/events/sr', (req: Request, res: Response) => {
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+
+    const { batch, position } = feed.getLiveSnapshot();
+    toSseFrames(batch).forEach(frame => res.write(frame));
+    res.write(`data:END ${position}\n\n`);
+    res.end();
+  });
+
+  // Live updates following the script; the cursor carries over reconnects
+  app.get('/live/subscribe/sr', (req: Request, res: Response) => {
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.flushHeaders();
+
+    const stop = feed.playLiveScript({
+      onBatch: batch => toSseFrames(batch).forEach(frame => res.write(frame)),
+      onMalformed: line => res.write(`${line}\n\n`)
+    }, () => res.end());
+
+    req.on('close', stop);
+  });
+
+  return app;
+}
+
+// Start the server when run directly
+if (require.main === module) {
+  const port = Number(process.env.MOCK_PORT) || 4000;
+  const speed = Number(process.env.MOCK_SPEED) || 1;
+
+  createMockUpstreamApp(speed).listen(port, () => {
+    console.log(`Mock soccerbet.rs upstream running on http://localhost:${port} (script speed ${speed}x)`);
+  });
+}
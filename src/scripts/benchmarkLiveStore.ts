@@ -0,0 +1,167 @@
+/**
+ * Compare the indexed LiveStore with the previous array scans on a recorded live feed.
+ *
+ * Record a feed by running the server with LIVE_FEED_RECORD_FILE=<file>, then:
+ *   npm run benchmark:live-store -- <file> [scale] [polls]
+ * `scale` copies every match and bet that many times with new ids to simulate a larger
+ * offer (default 1); `polls` is how many /api/live-data style passes over all matches are
+ * timed (default 20).
+ */
+import { LiveFeedReplayer } from '../services/liveFeedRecorder';
+import { LiveStore } from '../services/liveStore';
+import { SseParser, parseEndSentinel } from '../services/sseParser';
+import { toLiveFeedBatch } from '../services/soccerbetAdapter';
+import { toLiveRecords } from '../services/feedRecords';
+import { LiveHeader, LiveBet, LiveResult, LiveRecordBatch } from '../types/liveTypes';
+
+type FeedPayload = Omit<LiveRecordBatch, 'sports'>;
+
+// Id offset between copies when scaling, larger than any real soccerbet.rs id
+const COPY_ID_OFFSET = 100000000;
+
+/**
+ * The merge and lookup code LiveStore replaced
+ */
+class ArrayLiveState {
+  headers: LiveHeader[] = [];
+  bets: LiveBet[] = [];
+  results: LiveResult[] = [];
+
+  merge(payload: FeedPayload): void {
+    for (const header of payload.headers) {
+      const index = this.headers.findIndex(h => h.id === header.id);
+      if (index >= 0) this.headers[index] = { ...this.headers[index], ...header };
+      else this.headers.push(header);
+    }
+    for (const bet of payload.bets) {
+      const index = this.bets.findIndex(b => b.id === bet.id);
+      if (index >= 0) this.bets[index] = { ...this.bets[index], ...bet };
+      else this.bets.push(bet);
+    }
+    for (const result of payload.results) {
+      const index = this.results.findIndex(r => r.mId === result.mId);
+      if (index >= 0) this.results[index] = { ...this.results[index], ...result };
+      else this.results.push(result);
+    }
+  }
+
+  poll(): number {
+    let odds = 0;
+    for (const header of this.headers) {
+      const matchBets = this.bets.filter(bet => bet.mId === header.id);
+      const matchHeader = this.headers.find(h => h.id === header.id);
+      this.results.find(r => r.mId === header.id);
+      if (matchHeader) matchBets.forEach(bet => odds += Object.keys(bet.om || {}).length);
+    }
+    return odds;
+  }
+}
+
+/**
+ * Collect the JSON payloads of every recorded connection of a stream
+ */
+function readPayloads(replayer: LiveFeedReplayer, stream: 'events' | 'subscribe'): FeedPayload[] {
+  const payloads: FeedPayload[] = [];
+
+  replayer.getRecordedChunks(stream).forEach(chunks => {
+    const parser = new SseParser({
+      onEvent: event => {
+        if (parseEndSentinel(event.data) !== null) return;
+        try {
+          payloads.push(toLiveRecords(toLiveFeedBatch(JSON.parse(event.data))));
+        } catch (error) {
+          // Malformed events are skipped by the service as well
+        }
+      }
+    });
+    chunks.forEach(chunk => parser.push(chunk));
+    parser.end();
+  });
+
+  return payloads;
+}
+
+/**
+ * Copy every record `scale` times with shifted match and bet ids
+ */
+function scalePayload(payload: FeedPayload, scale: number): FeedPayload {
+  const scaled: FeedPayload = { headers: [], bets: [], results: [] };
+
+  for (let copy = 0; copy < scale; copy++) {
+    const offset = copy * COPY_ID_OFFSET;
+    (payload.headers).forEach(header => scaled.headers.push({ ...header, id: header.id + offset }));
+    (payload.bets).forEach(bet => scaled.bets.push({ ...bet, id: bet.id + offset, mId: bet.mId + offset }));
+    (payload.results).forEach(result => scaled.results.push({ ...result, mId: result.mId + offset }));
+  }
+
+  return scaled;
+}
+
+function time(run: () => void): number {
+  const start = process.hrtime.bigint();
+  run();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+function main(): void {
+  const [recordingFile, scaleArg, pollsArg] = process.argv.slice(2);
+
+  if (!recordingFile) {
+    console.error('Usage: npm run benchmark:live-store -- <recording file> [scale] [polls]');
+    process.exit(1);
+  }
+
+  const scale = Math.max(1, Number(scaleArg) || 1);
+  const polls = Math.max(1, Number(pollsArg) || 20);
+  const replayer = new LiveFeedReplayer(recordingFile, 0);
+
+  const snapshot = readPayloads(replayer, 'events').map(payload => scalePayload(payload, scale));
+  const updates = readPayloads(replayer, 'subscribe').map(payload => scalePayload(payload, scale));
+
+  const arrays = new ArrayLiveState();
+  const store = new LiveStore();
+
+  const results = [
+    {
+      step: 'load snapshot',
+      arraysMs: time(() => snapshot.forEach(payload => arrays.merge(payload))),
+      liveStoreMs: time(() => snapshot.forEach((payload, index) => {
+        store.upsertHeaders(payload.headers, index + 1);
+        store.upsertBets(payload.bets, index + 1);
+        store.upsertResults(payload.results, index + 1);
+      }))
+    },
+    {
+      step: `merge ${updates.length} updates`,
+      arraysMs: time(() => updates.forEach(payload => arrays.merge(payload))),
+      liveStoreMs: time(() => updates.forEach((payload, index) => {
+        store.upsertHeaders(payload.headers, snapshot.length + index + 1);
+        store.upsertBets(payload.bets, snapshot.length + index + 1);
+        store.upsertResults(payload.results, snapshot.length + index + 1);
+      }))
+    },
+    {
+      step: `${polls} polls over all matches`,
+      arraysMs: time(() => { for (let i = 0; i < polls; i++) arrays.poll(); }),
+      liveStoreMs: time(() => {
+        for (let i = 0; i < polls; i++) {
+          store.getHeaders().forEach(header => {
+            store.getBetsForMatch(header.id);
+            store.getResult(header.id);
+          });
+        }
+      })
+    }
+  ];
+
+  const counts = store.getCounts();
+  console.log(`Live feed ${recordingFile} at scale ${scale}: ${counts.headers} headers, ${counts.bets} bets, ${counts.results} results`);
+  console.table(results.map(result => ({
+    step: result.step,
+    arraysMs: Math.round(result.arraysMs * 100) / 100,
+    liveStoreMs: Math.round(result.liveStoreMs * 100) / 100,
+    speedup: result.liveStoreMs > 0 ? `${Math.round(result.arraysMs / result.liveStoreMs)}x` : '-'
+  })));
+}
+
+main();
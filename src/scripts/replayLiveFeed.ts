@@ -0,0 +1,46 @@
+/**
+ * Replay a recorded live feed through LiveStreamService without the web server.
+ *
+ * Record a feed by running the server with LIVE_FEED_RECORD_FILE=<file>, then:
+ *   npm run replay -- <file> [speed]
+ * where speed 1 is real time (default), 10 is ten times faster and 0 has no delays.
+ */
+import { LiveStreamService } from '../services/liveStreamService';
+import { LiveSubscriptionData } from '../types/liveTypes';
+
+async function main(): Promise<void> {
+  const [replayFile, speedArg] = process.argv.slice(2);
+
+  if (!replayFile) {
+    console.error('Usage: npm run replay -- <recording file> [speed]');
+    process.exit(1);
+  }
+
+  const replaySpeed = speedArg !== undefined ? Number(speedArg) : 1;
+  const liveStreamService = new LiveStreamService({ replayFile, replaySpeed });
+
+  let updates = 0;
+  liveStreamService.on('liveUpdate', (_update: LiveSubscriptionData) => {
+    updates++;
+  });
+
+  liveStreamService.on('replayFinished', () => {
+    const liveData = liveStreamService.getLiveData();
+    console.log('Replay summary:', {
+      updates,
+      headers: liveData?.headers.length || 0,
+      bets: liveData?.bets.length || 0,
+      results: liveData?.results.length || 0,
+      lastChangeVersion: liveStreamService.getChangeLog().getVersion()
+    });
+    process.exit(0);
+  });
+
+  await liveStreamService.initializeLiveEvents();
+  await liveStreamService.startLiveSubscription();
+}
+
+main().catch(error => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
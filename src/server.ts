@@ -10,10 +10,26 @@ import {
   StartRequest, 
   StartResponse, 
   StopResponse,
-  AuthMiddleware 
+  AuthMiddleware,
+  Mode,
+  Sport
 } from './types';
+import { LiveSubscriptionData, EvictedLiveMatch } from './types/liveTypes';
+import { CollectionJobInfo } from './types/jobTypes';
 import { DataService } from './services/dataService';
+import { JobRegistry, JobRegistryError } from './services/jobRegistry';
 import { LiveDataUtils } from './services/liveDataUtils';
+import { isTimeInterval } from './services/preGameScheduler';
+import { OddsHistoryStore, isOddsSource } from './services/oddsHistoryStore';
+import { MARGIN_METHODS, isMarginMethod } from './services/marketPricing';
+import { isReferencePrice } from './services/opportunityScanner';
+import { isClvPick } from './services/closingLineService';
+import { isPreGameChangeType } from './services/preGameDiffEngine';
+import { PreGameChangeType } from './types/pregameTypes';
+import { MarginMethod } from './types/marketTypes';
+import { UpstreamClient } from './services/upstreamClient';
+import { SoccerbetAdapter } from './services/soccerbetAdapter';
+import { FakeBookmakerAdapter } from './mock/fakeBookmakerAdapter';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -21,8 +37,14 @@ const PORT = process.env.PORT || 3000;
 // Hardcoded password for authentication
 const HARDCODED_PASSWORD = 'admin123';
 
-// Initialize data service
-const dataService = new DataService();
+// Collection jobs, each with its own data service. BOOKMAKER=fake serves the mock fixtures
+// in-process instead of calling soccerbet.rs.
+const upstream = new UpstreamClient();
+const jobRegistry = new JobRegistry(
+  new OddsHistoryStore(),
+  upstream,
+  process.env.BOOKMAKER === 'fake' ? new FakeBookmakerAdapter() : new SoccerbetAdapter(upstream)
+);
 
 // Middleware
 app.use(cors());
@@ -50,6 +72,94 @@ const requireAuth: AuthMiddleware = (req: AuthenticatedRequest, res: Response, n
   }
 };
 
+// Live statistics for the headers of the selected sport
+const getLiveStats = (dataService: DataService, filteredHeaders: any[]) => ({
+  totalMatches: filteredHeaders.length,
+  activeMatches: LiveDataUtils.getActiveMatches(filteredHeaders).length,
+  bettingAllowedMatches: LiveDataUtils.getBettingAllowedMatches(filteredHeaders).length,
+  topMatches: LiveDataUtils.getTopMatches(filteredHeaders).length,
+  totalBets: dataService.getLiveData()?.bets.length || 0,
+  sportTypeCode: dataService.getCurrentSportTypeCode(),
+  evictions: dataService.getLiveEvictionStats()
+});
+
+const NOT_STARTED_MESSAGES: Record<Mode | 'any', string> = {
+  'live': 'Live mode not initialized. Please start live mode first.',
+  'pre-game': 'Pre-game mode not initialized. Please start pre-game mode first.',
+  'any': 'No data initialized. Please start data collection first.'
+};
+
+// Answer a failed job request with the status the registry chose
+const sendJobError = (res: Response, error: unknown, action: string) => {
+  const status = error instanceof JobRegistryError ? error.status : 500;
+  console.error(`Error trying to ${action}:`, error);
+  res.status(status).json({
+    success: false,
+    message: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    data: null
+  });
+};
+
+/**
+ * Find the job a data request is about: `?job=<id>`, else `?sport=<sport>` in the endpoint's
+ * mode, else the job started from this session, else a job of the endpoint's mode
+ */
+const findRequestedJob = (req: AuthenticatedRequest, mode?: Mode): { job: CollectionJobInfo | null; error?: string; status?: number } => {
+  const jobId = req.query.job as string | undefined;
+  const sport = req.query.sport as Sport | undefined;
+
+  if (jobId !== undefined) {
+    const job = jobRegistry.getJob(jobId);
+    return job ? { job } : { job: null, error: `Job ${jobId} not found`, status: 404 };
+  }
+
+  if (sport !== undefined && mode) {
+    return { job: jobRegistry.findJob(mode, sport) };
+  }
+
+  const sessionJob = req.session.jobId ? jobRegistry.getJob(req.session.jobId) : null;
+  if (sessionJob && (!mode || sessionJob.mode === mode)) {
+    return { job: sessionJob };
+  }
+
+  return { job: mode ? jobRegistry.findJob(mode) : jobRegistry.listJobs().find(job => job.status === 'running') || null };
+};
+
+/**
+ * Select the job of a data request. Answers the request and returns null when there is no such job.
+ */
+const selectJob = (req: AuthenticatedRequest, res: Response, mode?: Mode): { job: CollectionJobInfo; dataService: DataService } | null => {
+  const { job, error, status } = findRequestedJob(req, mode);
+
+  if (!job || (mode && job.mode !== mode)) {
+    res.status(status || 200).json({ success: false, message: error || NOT_STARTED_MESSAGES[mode || 'any'], data: null });
+    return null;
+  }
+
+  return { job, dataService: jobRegistry.getDataService(job.id)! };
+};
+
+// Parse the optional `since` change token of the data endpoints
+const parseSinceToken = (req: Request): number | null | undefined => {
+  if (req.query.since === undefined) {
+    return undefined;
+  }
+  
+  const since = Number(req.query.since);
+  return Number.isFinite(since) && since >= 0 ? since : null;
+};
+
+// Parse the optional `margin` method used to price markets
+const parseMarginMethod = (req: Request): MarginMethod | null | undefined => {
+  if (req.query.margin === undefined) {
+    return undefined;
+  }
+  
+  return isMarginMethod(req.query.margin) ? req.query.margin : null;
+};
+
+const INVALID_MARGIN_MESSAGE = `Invalid margin method. Expected one of ${MARGIN_METHODS.join(', ')}.`;
+
 // Routes
 app.get('/', (req: Request, res: Response) => {
   if ((req as AuthenticatedRequest).session.authenticated === true) {
@@ -95,6 +205,12 @@ app.post('/api/logout', (req: AuthenticatedRequest, res: Response<ApiResponse>)
 // API routes for betting data (protected)
 app.get('/api/data', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
+    const selection = selectJob(req, res);
+    if (!selection) {
+      return;
+    }
+    const { dataService } = selection;
+    
     const initializedData = dataService.getInitializedData();
     
     if (!initializedData) {
@@ -107,7 +223,7 @@ app.get('/api/data', requireAuth, (req: AuthenticatedRequest, res: Response<ApiR
     }
 
     const filteredSports = dataService.getFilteredSports();
-    const filteredBettingOptions = dataService.getFilteredBettingOptions();
+    const filteredBettingOptions = dataService.getFilteredBetCatalogue();
     
     res.json({ 
       success: true,
@@ -121,8 +237,8 @@ app.get('/api/data', requireAuth, (req: AuthenticatedRequest, res: Response<ApiR
         bettingOptions: filteredBettingOptions,
         totalSportsCount: initializedData.sports.length,
         filteredSportsCount: filteredSports.length,
-        totalBettingOptionsCount: Object.keys(initializedData.bettingOptions.betMap).length,
-        filteredBettingOptionsCount: filteredBettingOptions ? Object.keys(filteredBettingOptions.betMap).length : 0
+        totalBettingOptionsCount: Object.keys(initializedData.bets.betTypes).length,
+        filteredBettingOptionsCount: filteredBettingOptions ? Object.keys(filteredBettingOptions.betTypes).length : 0
       }
     });
   } catch (error) {
@@ -138,6 +254,12 @@ app.get('/api/data', requireAuth, (req: AuthenticatedRequest, res: Response<ApiR
 // Live data endpoint for real-time updates
 app.get('/api/live-data', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
+    const selection = selectJob(req, res, 'live');
+    if (!selection) {
+      return;
+    }
+    const { dataService } = selection;
+    
     const initializedData = dataService.getInitializedData();
     
     if (!initializedData || initializedData.mode !== 'live') {
@@ -151,6 +273,7 @@ app.get('/api/live-data', requireAuth, (req: AuthenticatedRequest, res: Response
 
     const liveData = dataService.getLiveData();
     const isStreaming = dataService.isLiveStreaming();
+    const connection = dataService.getLiveConnectionStats();
     
     if (!liveData) {
       res.json({
@@ -161,35 +284,61 @@ app.get('/api/live-data', requireAuth, (req: AuthenticatedRequest, res: Response
       return;
     }
 
-    // Filter data by selected sport using sport mapping service
-    const filteredHeaders = dataService.getFilteredLiveHeadersBySport();
-    const activeMatches = LiveDataUtils.getActiveMatches(filteredHeaders);
-    const bettingAllowedMatches = LiveDataUtils.getBettingAllowedMatches(filteredHeaders);
-    const topMatches = LiveDataUtils.getTopMatches(filteredHeaders);
-    const sportTypeCode = dataService.getCurrentSportTypeCode();
+    const since = parseSinceToken(req);
+    const marginMethod = parseMarginMethod(req);
+    
+    if (since === null || marginMethod === null) {
+      res.status(400).json({
+        success: false,
+        message: since === null ? 'Invalid since token' : INVALID_MARGIN_MESSAGE,
+        data: null
+      });
+      return;
+    }
     
+    // Only changes after the given token
+    if (since !== undefined) {
+      res.json({
+        success: true,
+        message: 'Live changes retrieved successfully',
+        data: {
+          ...dataService.getLiveChangesSince(since, marginMethod),
+          isStreaming,
+          lastUpdateAt: connection.lastUpdateAt,
+          secondsSinceUpdate: connection.secondsSinceUpdate,
+          stale: connection.stale,
+          connection,
+          sport: initializedData.sport
+        }
+      });
+      return;
+    }
+
     // Get betting data for all matches with group information
+    const filteredHeaders = dataService.getFilteredLiveHeadersBySport();
     const matchesWithBets = filteredHeaders.map(header => ({
       ...header,
-      bets: dataService.getEnhancedBettingDataForMatchWithGroups(header.id)
+      fixtureId: dataService.getFixtureId('live', header.id),
+      score: dataService.getLiveScoreForMatch(header.id),
+      bets: dataService.getEnhancedBettingDataForMatchWithGroups(header.id),
+      markets: dataService.getLiveMarketsForMatch(header.id, marginMethod)
     }));
     
     res.json({
       success: true,
       message: 'Live data retrieved successfully',
       data: {
-        matchesWithBets, // Include betting data for all matches with group info
+        matchesWithBets, // Include betting data for all matches with group info, also as markets
+        token: dataService.getLiveStreamService().getChangeLog().getVersion(),
         isStreaming,
+        lastUpdateAt: connection.lastUpdateAt,
+        secondsSinceUpdate: connection.secondsSinceUpdate,
+        stale: connection.stale,
+        connection,
         sport: initializedData.sport,
         initializedAt: initializedData.initializedAt.toISOString(),
-        stats: {
-          totalMatches: filteredHeaders.length,
-          activeMatches: activeMatches.length,
-          bettingAllowedMatches: bettingAllowedMatches.length,
-          topMatches: topMatches.length,
-          totalBets: liveData.bets.length,
-          sportTypeCode: sportTypeCode
-        }
+        marginMethod: marginMethod || dataService.getMarginMethod(),
+        stats: getLiveStats(dataService, filteredHeaders)
       }
     });
   } catch (error) {
@@ -202,13 +351,137 @@ app.get('/api/live-data', requireAuth, (req: AuthenticatedRequest, res: Response
   }
 });
 
+// Live push channel: a snapshot followed by incremental deltas as Server-Sent Events
+app.get('/api/live-stream', requireAuth, (req: AuthenticatedRequest, res: Response) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const { job, error } = findRequestedJob(req, 'live');
+  const dataService = job && job.mode === 'live' ? jobRegistry.getDataService(job.id) : null;
+  const initializedData = dataService?.getInitializedData();
+  const marginMethod = parseMarginMethod(req);
+  
+  if (!job || !dataService || !initializedData || initializedData.mode !== 'live' || !dataService.getLiveData()) {
+    sendEvent('unavailable', { message: error || NOT_STARTED_MESSAGES.live });
+    res.end();
+    return;
+  }
+  
+  if (marginMethod === null) {
+    sendEvent('unavailable', { message: INVALID_MARGIN_MESSAGE });
+    res.end();
+    return;
+  }
+
+  // Full snapshot, same shape as /api/live-data
+  const sendSnapshot = () => {
+    const filteredHeaders = dataService.getFilteredLiveHeadersBySport();
+    sendEvent('snapshot', {
+      matchesWithBets: filteredHeaders.map(header => ({
+        ...header,
+        fixtureId: dataService.getFixtureId('live', header.id),
+        score: dataService.getLiveScoreForMatch(header.id),
+        bets: dataService.getEnhancedBettingDataForMatchWithGroups(header.id),
+        markets: dataService.getLiveMarketsForMatch(header.id, marginMethod)
+      })),
+      isStreaming: dataService.isLiveStreaming(),
+      connection: dataService.getLiveConnectionStats(),
+      job: job.id,
+      sport: initializedData.sport,
+      initializedAt: initializedData.initializedAt.toISOString(),
+      marginMethod: marginMethod || dataService.getMarginMethod(),
+      stats: getLiveStats(dataService, filteredHeaders)
+    });
+  };
+  sendSnapshot();
+
+  const liveStreamService = dataService.getLiveStreamService();
+  const onLiveUpdate = (update: LiveSubscriptionData) => {
+    const delta = dataService.getLiveDeltaForSelectedSport(update, marginMethod);
+    
+    if (!delta || (delta.headers.length === 0 && delta.bets.length === 0 && delta.markets.length === 0)) {
+      return;
+    }
+    
+    sendEvent('delta', {
+      ...delta,
+      isStreaming: dataService.isLiveStreaming(),
+      connection: dataService.getLiveConnectionStats(),
+      stats: getLiveStats(dataService, dataService.getFilteredLiveHeadersBySport())
+    });
+  };
+  liveStreamService.on('liveUpdate', onLiveUpdate);
+
+  // Finished and inactive matches are dropped from the client as well
+  const onLiveEviction = (evicted: EvictedLiveMatch[]) => {
+    sendEvent('delta', {
+      headers: [],
+      bets: [],
+      markets: [],
+      removedMatchIds: evicted.map(match => match.matchId),
+      removedBetIds: evicted.flatMap(match => match.bets.map(bet => bet.id)),
+      isStreaming: dataService.isLiveStreaming(),
+      connection: dataService.getLiveConnectionStats(),
+      stats: getLiveStats(dataService, dataService.getFilteredLiveHeadersBySport())
+    });
+  };
+  liveStreamService.on('liveEviction', onLiveEviction);
+
+  // Deltas cannot describe a gap, so a resync replaces the client's data
+  liveStreamService.on('resync', sendSnapshot);
+
+  // Connection state, so the page can tell a quiet or stalled feed from a healthy one
+  const sendStatus = () => {
+    sendEvent('status', {
+      isStreaming: dataService.isLiveStreaming(),
+      connection: dataService.getLiveConnectionStats()
+    });
+  };
+  liveStreamService.on('stale', sendStatus);
+  liveStreamService.on('reconnected', sendStatus);
+
+  // Periodic status events also keep proxies from closing an idle connection
+  const heartbeat = setInterval(sendStatus, 5000);
+
+  // The job's data is gone once it is stopped, so the client has to start it again
+  const onJobStopped = (stoppedJobId: string) => {
+    if (stoppedJobId !== job.id) {
+      return;
+    }
+    sendEvent('unavailable', { message: `Job ${job.id} was stopped` });
+    res.end();
+  };
+  jobRegistry.on('jobStopped', onJobStopped);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    jobRegistry.off('jobStopped', onJobStopped);
+    liveStreamService.off('liveUpdate', onLiveUpdate);
+    liveStreamService.off('liveEviction', onLiveEviction);
+    liveStreamService.off('resync', sendSnapshot);
+    liveStreamService.off('stale', sendStatus);
+    liveStreamService.off('reconnected', sendStatus);
+  });
+});
+
 // Pre-game data endpoint
 app.get('/api/pregame-data', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
-    console.log('Pre-game data endpoint called');
+    const selection = selectJob(req, res, 'pre-game');
+    if (!selection) {
+      return;
+    }
+    const { dataService } = selection;
+    
     const initializedData = dataService.getInitializedData();
-    console.log('Initialized data:', initializedData ? 'exists' : 'null');
-    console.log('Mode:', initializedData?.mode);
     
     if (!initializedData || initializedData.mode !== 'pre-game') {
       console.log('Pre-game mode not initialized');
@@ -221,8 +494,6 @@ app.get('/api/pregame-data', requireAuth, (req: AuthenticatedRequest, res: Respo
     }
 
     const preGameData = dataService.getPreGameData();
-    console.log('Pre-game data:', preGameData ? 'exists' : 'null');
-    console.log('Pre-game matches count:', preGameData?.esMatches?.length || 0);
     
     if (!preGameData) {
       console.log('No pre-game data available');
@@ -234,23 +505,47 @@ app.get('/api/pregame-data', requireAuth, (req: AuthenticatedRequest, res: Respo
       return;
     }
 
-    // Get enhanced pre-game matches with betting data
-    const enhancedMatches = dataService.getEnhancedPreGameMatches();
-    console.log('Enhanced matches count:', enhancedMatches.length);
-    console.log('First enhanced match:', enhancedMatches[0] ? 'exists' : 'null');
-    if (enhancedMatches[0]) {
-      console.log('First match bets count:', enhancedMatches[0].bets?.length || 0);
+    const since = parseSinceToken(req);
+    const marginMethod = parseMarginMethod(req);
+    
+    if (since === null || marginMethod === null) {
+      res.status(400).json({
+        success: false,
+        message: since === null ? 'Invalid since token' : INVALID_MARGIN_MESSAGE,
+        data: null
+      });
+      return;
     }
     
+    // Only changes after the given token
+    if (since !== undefined) {
+      res.json({
+        success: true,
+        message: 'Pre-game changes retrieved successfully',
+        data: {
+          ...dataService.getPreGameChangesSince(since, marginMethod),
+          sport: initializedData.sport,
+          refresh: dataService.getPreGameRefreshStatus()
+        }
+      });
+      return;
+    }
+
+    // Get enhanced pre-game matches with betting data
+    const enhancedMatches = dataService.getEnhancedPreGameMatches(undefined, marginMethod);
+    
     res.json({
       success: true,
       message: 'Pre-game data retrieved successfully',
       data: {
         matchesWithBets: enhancedMatches,
+        token: dataService.getPreGameVersion(),
         isStreaming: false, // Pre-game is not streaming
         sport: initializedData.sport,
         initializedAt: initializedData.initializedAt.toISOString(),
         interval: initializedData.interval,
+        refresh: dataService.getPreGameRefreshStatus(),
+        marginMethod: marginMethod || dataService.getMarginMethod(),
         stats: {
           totalMatches: enhancedMatches.length,
           activeMatches: enhancedMatches.length, // All pre-game matches are considered active
@@ -271,9 +566,63 @@ app.get('/api/pregame-data', requireAuth, (req: AuthenticatedRequest, res: Respo
   }
 });
 
+// Pre-game snapshot diffs: matches added and removed, status, kickoff, market and odds changes
+app.get('/api/pregame-changes', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const selection = selectJob(req, res, 'pre-game');
+    if (!selection) {
+      return;
+    }
+    const { job, dataService } = selection;
+    const since = parseSinceToken(req);
+    const type = req.query.type;
+    const matchId = req.query.matchId !== undefined ? Number(req.query.matchId) : undefined;
+    
+    if (since === null || (type !== undefined && !isPreGameChangeType(type)) || (matchId !== undefined && !Number.isInteger(matchId))) {
+      res.status(400).json({
+        success: false,
+        message: since === null
+          ? 'Invalid since token'
+          : matchId !== undefined && !Number.isInteger(matchId) ? 'Invalid match ID' : 'Invalid change type',
+        data: null
+      });
+      return;
+    }
+    
+    const engine = dataService.getPreGameDiffEngine();
+    const diffs = engine.getDiffs({ since, type: type as PreGameChangeType | undefined, matchId });
+    
+    res.json({
+      success: true,
+      message: 'Pre-game changes retrieved successfully',
+      data: {
+        job: job.id,
+        sport: job.sport,
+        diffs,
+        token: engine.getLatestId(),
+        complete: since === undefined || engine.isComplete(since), // false when older diffs were dropped
+        stats: engine.getStats()
+      }
+    });
+  } catch (error) {
+    console.error('Error retrieving pre-game changes:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve pre-game changes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
 // Get live matches endpoint
 app.get('/api/live-matches', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
+    const selection = selectJob(req, res, 'live');
+    if (!selection) {
+      return;
+    }
+    const { dataService } = selection;
+    
     const initializedData = dataService.getInitializedData();
     
     if (!initializedData || initializedData.mode !== 'live') {
@@ -309,14 +658,15 @@ app.get('/api/live-matches', requireAuth, (req: AuthenticatedRequest, res: Respo
       awayTeam: header.a,
       league: header.lg,
       leagueShort: header.lsh,
-      sport: LiveDataUtils.getSportName(header.s),
+      sport: dataService.getSportMappingService().getSportName(header.s),
       kickoffTime: LiveDataUtils.formatKickoffTime(header.kot),
       status: LiveDataUtils.getMatchStatusText(header),
       isLive: LiveDataUtils.isMatchLive(header),
       bettingAllowed: header.ba,
       isTopMatch: header.tm,
       matchInfo: header.inf,
-      externalId: header.eid
+      externalId: header.eid,
+      score: dataService.getLiveScoreForMatch(header.id)
     }));
     
     res.json({
@@ -356,6 +706,12 @@ app.get('/api/live-bets/:matchId', requireAuth, (req: AuthenticatedRequest, res:
       return;
     }
 
+    const selection = selectJob(req, res, 'live');
+    if (!selection) {
+      return;
+    }
+    const { dataService } = selection;
+    
     const initializedData = dataService.getInitializedData();
     
     if (!initializedData || initializedData.mode !== 'live') {
@@ -401,30 +757,613 @@ app.get('/api/live-bets/:matchId', requireAuth, (req: AuthenticatedRequest, res:
   }
 });
 
-app.post('/api/start', requireAuth, async (req: Request<{}, StartResponse, StartRequest>, res: Response<StartResponse>) => {
-  const { mode, sport, interval } = req.body;
+// Odds history for a match (live or pre-game)
+app.get('/api/matches/:matchId/history', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const matchId = parseInt(req.params.matchId);
+    const source = req.query.source as string | undefined;
+    
+    if (isNaN(matchId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid match ID',
+        data: null
+      });
+      return;
+    }
+    
+    if (source !== undefined && !isOddsSource(source)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid source. Expected live or pre-game.',
+        data: null
+      });
+      return;
+    }
+
+    const series = await jobRegistry.getOddsHistory(matchId, { source }, findRequestedJob(req).job?.id);
+    
+    res.json({
+      success: true,
+      message: 'Odds history retrieved successfully',
+      data: {
+        matchId,
+        series,
+        totalSeries: series.length
+      }
+    });
+  } catch (error) {
+    console.error('Error retrieving odds history:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve odds history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Odds history for one bet of a match, optionally narrowed to a special value
+app.get('/api/matches/:matchId/bets/:betCode/history', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const matchId = parseInt(req.params.matchId);
+    const betCode = parseInt(req.params.betCode);
+    const source = req.query.source as string | undefined;
+    const specialValue = req.query.sv as string | undefined;
+    
+    if (isNaN(matchId) || isNaN(betCode)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid match ID or bet code',
+        data: null
+      });
+      return;
+    }
+    
+    if (source !== undefined && !isOddsSource(source)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid source. Expected live or pre-game.',
+        data: null
+      });
+      return;
+    }
+
+    const series = await jobRegistry.getOddsHistory(matchId, { source, betCode, specialValue }, findRequestedJob(req).job?.id);
+    
+    res.json({
+      success: true,
+      message: 'Bet odds history retrieved successfully',
+      data: {
+        matchId,
+        betCode,
+        specialValue: specialValue ?? null,
+        series,
+        totalSeries: series.length
+      }
+    });
+  } catch (error) {
+    console.error('Error retrieving bet odds history:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve bet odds history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Bookmaker margins of the current markets per league, highest first
+app.get('/api/margins', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const selection = selectJob(req, res);
+    if (!selection) {
+      return;
+    }
+    const { job, dataService } = selection;
+    const marginMethod = parseMarginMethod(req);
+    
+    if (marginMethod === null) {
+      res.status(400).json({
+        success: false,
+        message: INVALID_MARGIN_MESSAGE,
+        data: null
+      });
+      return;
+    }
+    
+    const leagues = dataService.getMarginSummary(marginMethod);
+    
+    res.json({
+      success: true,
+      message: 'Margins retrieved successfully',
+      data: {
+        job: job.id,
+        mode: job.mode,
+        sport: job.sport,
+        marginMethod: marginMethod || dataService.getMarginMethod(),
+        leagues
+      }
+    });
+  } catch (error) {
+    console.error('Error retrieving margins:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve margins: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Arbitrages and value bets found in the job's latest snapshots, best edge first
+app.get('/api/opportunities', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const selection = selectJob(req, res);
+    if (!selection) {
+      return;
+    }
+    const { job, dataService } = selection;
+    const type = req.query.type as string | undefined;
+    const minEdge = req.query.minEdge !== undefined ? Number(req.query.minEdge) : undefined;
+    const matchId = req.query.matchId !== undefined ? Number(req.query.matchId) : undefined;
+    
+    if (type !== undefined && type !== 'arbitrage' && type !== 'value') {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid type. Expected arbitrage or value.',
+        data: null
+      });
+      return;
+    }
+    
+    if ((minEdge !== undefined && !Number.isFinite(minEdge)) || (matchId !== undefined && !Number.isInteger(matchId))) {
+      res.status(400).json({
+        success: false,
+        message: minEdge !== undefined && !Number.isFinite(minEdge) ? 'Invalid minEdge' : 'Invalid match ID',
+        data: null
+      });
+      return;
+    }
+    
+    const scanner = dataService.getOpportunityScanner();
+    const opportunities = scanner.getOpportunities({ type, minEdge, matchId });
+    
+    res.json({
+      success: true,
+      message: 'Opportunities retrieved successfully',
+      data: {
+        job: job.id,
+        mode: job.mode,
+        sport: job.sport,
+        opportunities,
+        total: opportunities.length,
+        stats: scanner.getStats()
+      }
+    });
+  } catch (error) {
+    console.error('Error retrieving opportunities:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve opportunities: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Replace the imported fair prices value bets are compared with
+app.put('/api/opportunities/reference', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const selection = selectJob(req, res);
+    if (!selection) {
+      return;
+    }
+    const prices = req.body?.prices;
+    
+    if (!Array.isArray(prices)) {
+      res.status(400).json({
+        success: false,
+        message: 'Expected a prices array',
+        data: null
+      });
+      return;
+    }
+    
+    const invalidIndex = prices.findIndex(price => !isReferencePrice(price));
+    if (invalidIndex >= 0) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid reference price at index ${invalidIndex}. Expected matchId, betCode, tipCode, an optional sv and fairOdds above 1 or a probability between 0 and 1.`,
+        data: null
+      });
+      return;
+    }
+    
+    const stored = selection.dataService.getOpportunityScanner().setReferencePrices(prices);
+    selection.dataService.rescanOpportunities();
+    console.log(`Imported ${stored} reference prices for job ${selection.job.id}`);
+    
+    res.json({
+      success: true,
+      message: `Imported ${stored} reference prices`,
+      data: { job: selection.job.id, referencePrices: stored }
+    });
+  } catch (error) {
+    console.error('Error importing reference prices:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to import reference prices: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+app.delete('/api/opportunities/reference', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const selection = selectJob(req, res);
+    if (!selection) {
+      return;
+    }
+    
+    selection.dataService.getOpportunityScanner().clearReferencePrices();
+    selection.dataService.rescanOpportunities();
+    
+    res.json({
+      success: true,
+      message: 'Reference prices cleared',
+      data: { job: selection.job.id, referencePrices: 0 }
+    });
+  } catch (error) {
+    console.error('Error clearing reference prices:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to clear reference prices: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Fixtures of the match registry, linking pre-game matches to their live headers
+app.get('/api/fixtures', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const linked = req.query.linked as string | undefined;
+    
+    if (linked !== undefined && linked !== 'true' && linked !== 'false') {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid linked. Expected true or false.',
+        data: null
+      });
+      return;
+    }
+    
+    const sport = req.query.sport !== undefined ? await jobRegistry.resolveSport(req.query.sport as string) : undefined;
+    const registry = jobRegistry.getMatchRegistry();
+    const fixtures = registry.getFixtures({
+      sport: sport?.sportTypeCode,
+      linked: linked !== undefined ? linked === 'true' : undefined
+    });
+    
+    res.json({
+      success: true,
+      message: 'Fixtures retrieved successfully',
+      data: {
+        fixtures,
+        total: fixtures.length,
+        stats: registry.getStats()
+      }
+    });
+  } catch (error) {
+    sendJobError(res, error, 'retrieve fixtures');
+  }
+});
+
+// Combined pre-game and live view of one fixture
+app.get('/api/fixtures/:fixtureId', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const marginMethod = parseMarginMethod(req);
+    
+    if (marginMethod === null) {
+      res.status(400).json({ success: false, message: INVALID_MARGIN_MESSAGE, data: null });
+      return;
+    }
+    
+    const view = jobRegistry.getFixtureView(req.params.fixtureId, marginMethod);
+    
+    if (!view) {
+      res.status(404).json({ success: false, message: `Fixture ${req.params.fixtureId} not found`, data: null });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Fixture retrieved successfully',
+      data: view
+    });
+  } catch (error) {
+    console.error('Error retrieving fixture:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve fixture: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Closing lines: the last pre-game odds of every match before it went live
+app.get('/api/closing-lines', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const sport = req.query.sport !== undefined ? await jobRegistry.resolveSport(req.query.sport as string) : undefined;
+    const closingLines = jobRegistry.getClosingLines();
+    const lines = await closingLines.getClosingLines({
+      sport: sport?.sportTypeCode,
+      fixtureId: req.query.fixtureId as string | undefined
+    });
+    
+    res.json({
+      success: true,
+      message: 'Closing lines retrieved successfully',
+      data: {
+        closingLines: lines,
+        total: lines.length,
+        stats: closingLines.getStats()
+      }
+    });
+  } catch (error) {
+    sendJobError(res, error, 'retrieve closing lines');
+  }
+});
+
+// CLV of the odds offered at a fixed time (?at=) or some minutes before each kickoff (?minutesBefore=, default 60)
+app.get('/api/closing-lines/report', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const at = req.query.at !== undefined
+      ? (Number.isFinite(Number(req.query.at)) ? Number(req.query.at) : Date.parse(req.query.at as string))
+      : undefined;
+    const minutesBefore = req.query.minutesBefore !== undefined ? Number(req.query.minutesBefore) : 60;
+    
+    if ((at !== undefined && !Number.isFinite(at)) || !Number.isFinite(minutesBefore) || minutesBefore < 0) {
+      res.status(400).json({
+        success: false,
+        message: at !== undefined && !Number.isFinite(at)
+          ? 'Invalid at. Expected a timestamp in ms or an ISO date.'
+          : 'Invalid minutesBefore',
+        data: null
+      });
+      return;
+    }
+    
+    const sport = req.query.sport !== undefined ? await jobRegistry.resolveSport(req.query.sport as string) : undefined;
+    const report = await jobRegistry.getClosingLines().reportAt(
+      at !== undefined ? { at } : { minutesBefore },
+      { sport: sport?.sportTypeCode, fixtureId: req.query.fixtureId as string | undefined }
+    );
+    
+    res.json({ success: true, message: 'CLV report created successfully', data: report });
+  } catch (error) {
+    sendJobError(res, error, 'create CLV report');
+  }
+});
+
+// CLV of our own picks
+app.post('/api/closing-lines/report', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const picks = req.body?.picks;
+    
+    if (!Array.isArray(picks) || !picks.every(isClvPick)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid picks. Expected { picks: [{ matchId, betCode, sv?, tipCode, odds, placedAt? }] } with odds above 1.',
+        data: null
+      });
+      return;
+    }
+    
+    const report = await jobRegistry.getClosingLines().reportPicks(picks);
+    res.json({ success: true, message: 'CLV report created successfully', data: report });
+  } catch (error) {
+    sendJobError(res, error, 'create CLV report');
+  }
+});
+
+app.get('/api/closing-lines/:matchId', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const matchId = parseInt(req.params.matchId);
+    
+    if (isNaN(matchId)) {
+      res.status(400).json({ success: false, message: 'Invalid match ID', data: null });
+      return;
+    }
+    
+    const line = await jobRegistry.getClosingLines().getClosingLine(matchId);
+    
+    if (!line) {
+      res.status(404).json({ success: false, message: `No closing line for match ${matchId}`, data: null });
+      return;
+    }
+    
+    res.json({ success: true, message: 'Closing line retrieved successfully', data: line });
+  } catch (error) {
+    sendJobError(res, error, 'retrieve closing line');
+  }
+});
+
+app.get('/api/upstream-status', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const status = jobRegistry.getUpstreamStatus();
+    
+    res.json({
+      success: true,
+      message: status.healthy ? 'All upstream endpoints are available' : 'Some upstream endpoints are failing',
+      data: status
+    });
+  } catch (error) {
+    console.error('Error retrieving upstream status:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve upstream status: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Sports of the bookmaker's catalogue; any key, code or name of an active sport can be collected
+app.get('/api/sports', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const sports = await jobRegistry.getSports(req.query.refresh === 'true');
+    const jobs = jobRegistry.listJobs();
+    
+    res.json({
+      success: true,
+      message: 'Sports retrieved successfully',
+      data: {
+        bookmaker: jobRegistry.getBookmaker(),
+        sports: sports.map(sport => ({
+          ...sport,
+          jobs: jobs.filter(job => job.sport === sport.key).map(job => job.id)
+        })),
+        totalSports: sports.length,
+        activeSports: sports.filter(sport => sport.active).length,
+        liveSports: sports.filter(sport => sport.activeInLive).length
+      }
+    });
+  } catch (error) {
+    console.error('Error retrieving sports:', error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to retrieve sports: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      data: null
+    });
+  }
+});
+
+// Collection jobs
+app.get('/api/jobs', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const jobs = jobRegistry.listJobs();
+  
+  res.json({
+    success: true,
+    message: `${jobs.length} jobs`,
+    data: { jobs, sessionJobId: req.session.jobId || null }
+  });
+});
+
+app.get('/api/jobs/:jobId', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const job = jobRegistry.getJob(req.params.jobId);
+  
+  if (!job) {
+    res.status(404).json({ success: false, message: `Job ${req.params.jobId} not found`, data: null });
+    return;
+  }
+  
+  res.json({ success: true, message: 'Job retrieved successfully', data: job });
+});
+
+app.post('/api/jobs', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { name, mode, sport, interval } = req.body || {};
+  
+  try {
+    const job = await jobRegistry.createJob({ name, mode, sport, interval });
+    
+    res.status(201).json({
+      success: true,
+      message: `Started job ${job.id} (${job.mode} ${job.sport})`,
+      data: job
+    });
+  } catch (error) {
+    sendJobError(res, error, 'create job');
+  }
+});
+
+app.patch('/api/jobs/:jobId', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { name, interval } = req.body || {};
+  
+  try {
+    const job = await jobRegistry.updateJob(req.params.jobId, { name, interval });
+    res.json({ success: true, message: `Updated job ${job.id}`, data: job });
+  } catch (error) {
+    sendJobError(res, error, 'update job');
+  }
+});
+
+app.post('/api/jobs/:jobId/start', requireAuth, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const job = await jobRegistry.startJob(req.params.jobId);
+    res.json({ success: true, message: `Started job ${job.id}`, data: job });
+  } catch (error) {
+    sendJobError(res, error, 'start job');
+  }
+});
+
+app.post('/api/jobs/:jobId/stop', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const job = jobRegistry.stopJob(req.params.jobId);
+    res.json({ success: true, message: `Stopped job ${job.id}`, data: job });
+  } catch (error) {
+    sendJobError(res, error, 'stop job');
+  }
+});
+
+app.delete('/api/jobs/:jobId', requireAuth, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    jobRegistry.deleteJob(req.params.jobId);
+    if (req.session.jobId === req.params.jobId) {
+      delete req.session.jobId;
+    }
+    res.json({ success: true, message: `Deleted job ${req.params.jobId}`, data: null });
+  } catch (error) {
+    sendJobError(res, error, 'delete job');
+  }
+});
+
+// Start (or restart) the job for a mode and sport and make it this session's job
+app.post('/api/start', requireAuth, async (req: AuthenticatedRequest, res: Response<StartResponse>) => {
+  const { mode, sport, interval } = req.body as StartRequest;
+  
+  if (mode === 'pre-game' && interval !== undefined && !isTimeInterval(interval)) {
+    res.status(400).json({
+      success: false,
+      message: `Invalid interval: ${interval}. Expected one of 1min, 10min, 30min, 1hour.`,
+      data: { mode, sport, interval }
+    });
+    return;
+  }
   
   try {
     console.log(`Starting data collection for ${mode} mode, sport: ${sport}${interval ? `, interval: ${interval}` : ''}`);
     
-    // Initialize data fetching
-    const initializedData = await dataService.initialize(mode, sport, interval);
+    const sportKey = (await jobRegistry.resolveSport(sport, mode)).key;
+    const jobId = jobRegistry.getJobId({ mode, sport: sportKey });
+    const existing = jobRegistry.getJob(jobId);
+    let job: CollectionJobInfo;
+    
+    if (!existing) {
+      job = await jobRegistry.createJob({ mode, sport: sportKey, interval });
+    } else if (mode === 'pre-game' && interval !== undefined && interval !== existing.interval) {
+      job = await jobRegistry.updateJob(jobId, { interval });
+      if (job.status !== 'running') {
+        job = await jobRegistry.startJob(jobId);
+      }
+    } else {
+      job = await jobRegistry.startJob(jobId);
+    }
+    
+    req.session.jobId = job.id;
+    const initializedData = jobRegistry.getDataService(job.id)!.getInitializedData()!;
     
     res.json({ 
       success: true, 
-      message: `Successfully started ${mode} mode for ${sport}. Data initialized with ${initializedData.sports.length} sports and ${Object.keys(initializedData.bettingOptions.betMap).length} betting options.`,
+      message: `Successfully started ${mode} mode for ${sportKey}. Data initialized with ${initializedData.sports.length} sports and ${Object.keys(initializedData.bets.betTypes).length} betting options.`,
       data: { 
+        jobId: job.id,
         mode, 
-        sport, 
-        interval,
+        sport: sportKey, 
+        interval: initializedData.interval,
         sportsCount: initializedData.sports.length,
-        bettingOptionsCount: Object.keys(initializedData.bettingOptions.betMap).length,
+        bettingOptionsCount: Object.keys(initializedData.bets.betTypes).length,
         initializedAt: initializedData.initializedAt.toISOString()
       }
     });
   } catch (error) {
     console.error('Error starting data collection:', error);
-    res.status(500).json({
+    res.status(error instanceof JobRegistryError ? error.status : 500).json({
       success: false,
       message: `Failed to start data collection: ${error instanceof Error ? error.message : 'Unknown error'}`,
       data: { mode, sport, interval }
@@ -432,16 +1371,25 @@ app.post('/api/start', requireAuth, async (req: Request<{}, StartResponse, Start
   }
 });
 
+// Stop this session's job, or the one given as ?job=<id>
 app.post('/api/stop', requireAuth, (req: AuthenticatedRequest, res: Response<StopResponse>) => {
   try {
-    console.log('Stopping data collection...');
+    const jobId = (req.query.job as string | undefined) || req.session.jobId;
     
-    // Reset data service
-    dataService.reset();
+    if (!jobId || !jobRegistry.getJob(jobId)) {
+      res.status(404).json({
+        success: false,
+        message: 'No job to stop. Pass ?job=<id> or start one first.'
+      });
+      return;
+    }
+    
+    console.log(`Stopping data collection for job ${jobId}...`);
+    jobRegistry.stopJob(jobId);
     
     res.json({ 
       success: true, 
-      message: 'Successfully stopped data collection and reset initialized data'
+      message: `Successfully stopped job ${jobId} and reset its data`
     });
   } catch (error) {
     console.error('Error stopping data collection:', error);
@@ -456,3 +1404,14 @@ app.post('/api/stop', requireAuth, (req: AuthenticatedRequest, res: Response<Sto
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
 });
+
+// Flush buffered odds history before exiting
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}, shutting down...`);
+  await jobRegistry.stopAll();
+  await jobRegistry.getOddsHistoryStore().flush();
+  process.exit(0);
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,52 @@
+import { Readable } from 'stream';
+import { LiveFeedStreamName } from './liveFeedRecorder';
+import { BookmakerCatalogue, BookmakerSport, PreGameOffer, LiveFeedHandlers } from '../types/bookmakerTypes';
+import { ComplementaryPair } from '../types/marketTypes';
+
+// One open connection of the live feed
+export interface LiveFeedConnection {
+  url: string; // where the connection was opened, for logs and recordings
+  stream: Readable; // raw bytes in the bookmaker's own format, read through decodeLiveFeed
+}
+
+/**
+ * Everything the collectors need from a bookmaker. The live and pre-game pipelines only talk
+ * to an adapter and only see the types of bookmakerTypes: matches, markets and scores in a
+ * neutral shape that the collectors turn into their own records (see feedRecords). Another
+ * bookmaker is added by translating its API into these calls.
+ */
+export interface BookmakerAdapter {
+  readonly id: string; // e.g. soccerbet
+  readonly name: string; // e.g. soccerbet.rs
+  readonly complementaryPairs: ComplementaryPair[]; // selections of different markets the opportunity scanner combines into arbitrages
+
+  /**
+   * Fetch the sports and market definitions
+   */
+  fetchCatalogue(): Promise<BookmakerCatalogue>;
+
+  /**
+   * Fetch only the sports, e.g. to resolve the sport of a new job
+   */
+  fetchSports(): Promise<BookmakerSport[]>;
+
+  /**
+   * Fetch the pre-game offer of one sport
+   */
+  fetchPreGameOffer(sportCode: string): Promise<PreGameOffer>;
+
+  /**
+   * Open a live feed connection: the `events` snapshot, or the `subscribe` updates after a
+   * position previously reported by decodeLiveFeed
+   */
+  openLiveFeed(connection: LiveFeedStreamName, position: number | null, signal: AbortSignal): Promise<LiveFeedConnection>;
+
+  /**
+   * Decode the raw bytes of a live feed connection, live or replayed from a recording, into
+   * batches of live records and positions. Handlers are called until the stream ends.
+   */
+  decodeLiveFeed(connection: LiveFeedStreamName, stream: Readable, handlers: LiveFeedHandlers): void;
+}
+
+// The part of an adapter the live stream service needs
+export type LiveFeedSource = Pick<BookmakerAdapter, 'openLiveFeed' | 'decodeLiveFeed'>;
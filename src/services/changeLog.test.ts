@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChangeLog } from './changeLog';
+import { LiveStore } from './liveStore';
+import { LiveBet, LiveHeader, LiveResult } from '../types/liveTypes';
+
+const header = (id: number, lct: number) => ({ id, lct } as LiveHeader);
+const bet = (id: number, mId: number, lct: number) => ({ id, mId, lct, om: {} } as LiveBet);
+
+test('serves records merged after a token whatever their upstream change time', () => {
+  const changeLog = new ChangeLog();
+  const store = new LiveStore();
+  store.load([header(1, 5000)], [bet(10, 1, 5000)], [], changeLog.nextVersion());
+  const token = changeLog.getVersion();
+
+  // A late bet with an older lct and a result without any
+  store.upsertBets([bet(11, 1, 4000)], changeLog.nextVersion());
+  store.upsertResults([{ mId: 1, cs: '1:0' } as LiveResult], changeLog.nextVersion());
+
+  assert.ok(changeLog.canServeSince(token));
+  assert.ok(store.getBetVersion(11) > token);
+  assert.ok(store.getResultVersion(1) > token);
+  assert.ok(store.getBetVersion(10) <= token);
+  assert.ok(store.getHeaderVersion(1) <= token);
+});
+
+test('stamps removals after every version handed out', () => {
+  const changeLog = new ChangeLog();
+  const token = changeLog.nextVersion();
+  changeLog.recordRemoval('bet', 10);
+
+  assert.deepEqual(changeLog.getRemovedIdsSince('bet', token), [10]);
+  assert.deepEqual(changeLog.getRemovedIdsSince('bet', changeLog.getVersion()), []);
+});
+
+test('refuses tokens of an earlier series', () => {
+  const changeLog = new ChangeLog();
+  const token = changeLog.nextVersion();
+
+  changeLog.clear();
+  assert.equal(changeLog.canServeSince(token), false);
+  assert.equal(changeLog.canServeSince(0), false);
+  assert.ok(changeLog.canServeSince(changeLog.getVersion()));
+  assert.ok(changeLog.nextVersion() > token);
+
+  // A token from another run is newer than this log
+  assert.equal(changeLog.canServeSince(changeLog.getVersion() + 1000), false);
+});
@@ -0,0 +1,94 @@
+export interface RemovalEntry {
+  kind: string;
+  id: number;
+  version: number;
+}
+
+const DEFAULT_MAX_REMOVALS = 10000;
+
+/**
+ * Hands out change versions for a data set and tracks the records removed from it.
+ *
+ * Versions are local and only increase: callers stamp every record they merge with
+ * `nextVersion()`, so a record is served after any token handed out before it arrived,
+ * whatever the upstream change times say. They start at the current time in ms, so
+ * tokens from an earlier run are older than the log and get a full resync.
+ */
+export class ChangeLog {
+  private version: number = 0;
+  private removals: RemovalEntry[] = [];
+  private oldestForgottenVersion: number = 0;
+  private readonly maxRemovals: number;
+
+  constructor(maxRemovals: number = DEFAULT_MAX_REMOVALS) {
+    this.maxRemovals = maxRemovals;
+    this.clear();
+  }
+
+  /**
+   * Get a new version, newer than every version handed out so far, to stamp merged records with
+   */
+  nextVersion(): number {
+    this.version++;
+    return this.version;
+  }
+
+  /**
+   * Log a removed record and return the version it was stamped with
+   */
+  recordRemoval(kind: string, id: number): number {
+    this.version++;
+    this.removals.push({ kind, id, version: this.version });
+
+    // Keep the log bounded; tokens older than the dropped entries need a full resync
+    if (this.removals.length > this.maxRemovals) {
+      const dropped = this.removals.splice(0, this.removals.length - this.maxRemovals);
+      this.oldestForgottenVersion = dropped[dropped.length - 1].version;
+    }
+
+    return this.version;
+  }
+
+  /**
+   * Get the ids of records of a kind removed after the given version
+   */
+  getRemovedIdsSince(kind: string, since: number): number[] {
+    return this.removals
+      .filter(removal => removal.kind === kind && removal.version > since)
+      .map(removal => removal.id);
+  }
+
+  /**
+   * Check if every removal after the given version is still in the log.
+   * Tokens newer than the current version were not handed out by this log and cannot be served either.
+   */
+  canServeSince(since: number): boolean {
+    return since >= this.oldestForgottenVersion && since <= this.version;
+  }
+
+  /**
+   * Get the newest version, to be handed out as the next `since` token
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Drop the removal log after a gap in the data, so every token handed out so far needs a full resync
+   */
+  invalidate(): void {
+    this.version++;
+    this.removals = [];
+    this.oldestForgottenVersion = this.version;
+  }
+
+  /**
+   * Forget all removals and start a new series of versions, so every token handed out so far
+   * needs a full resync
+   */
+  clear(): void {
+    this.version = Math.max(this.version + 1, Date.now());
+    this.removals = [];
+    this.oldestForgottenVersion = this.version;
+  }
+}
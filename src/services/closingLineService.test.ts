@@ -0,0 +1,127 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ClosingLineService } from './closingLineService';
+import { MatchRegistry } from './matchRegistry';
+import { MarketBuilder } from './marketBuilder';
+import { OddsHistoryStore } from './oddsHistoryStore';
+import { EnhancedPreGameMatch, PreGameMatch } from '../types/pregameTypes';
+import { LiveHeader } from '../types/liveTypes';
+
+const MINUTE = 60 * 1000;
+const KICKOFF = Date.parse('2024-01-01T18:00:00Z');
+const options = { retentionMs: 30 * 24 * 60 * MINUTE, refreshLeadMs: 2 * MINUTE, maxCloseAgeMs: 15 * MINUTE };
+
+const historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'closing-line-test-'));
+const oddsHistory = new OddsHistoryStore(historyDir);
+
+after(async () => {
+  await oddsHistory.flush();
+  fs.rmSync(historyDir, { recursive: true, force: true });
+});
+
+/**
+ * Build an enhanced football match with a match result market
+ */
+function enhancedMatch(id: number, home: number, { live = false, kickOffTime = KICKOFF, brMatchId = null as number | null } = {}): EnhancedPreGameMatch {
+  const match: PreGameMatch = {
+    id,
+    matchCode: id,
+    home: `Home ${id}`,
+    away: `Away ${id}`,
+    kickOffTime,
+    status: 0,
+    blocked: false,
+    favourite: false,
+    sport: 'S',
+    leagueId: 1,
+    leagueName: 'League',
+    leagueShort: 'L',
+    live,
+    brMatchId,
+    betMap: {
+      '1': { '': { bpc: 101, tt: 1, s: 'ACTIVE', ov: home, bc: 1, sv: '' } },
+      '2': { '': { bpc: 102, tt: 2, s: 'ACTIVE', ov: 3.2, bc: 1, sv: '' } },
+      '3': { '': { bpc: 103, tt: 3, s: 'ACTIVE', ov: 3.4, bc: 1, sv: '' } }
+    }
+  };
+  const { betMap, ...rest } = match;
+
+  return { ...rest, bets: [], markets: new MarketBuilder().fromPreGameMatch(match, 'S', 'proportional'), fixtureId: null };
+}
+
+function setup() {
+  const matchRegistry = new MatchRegistry({ kickoffToleranceMs: 30 * MINUTE, retentionMs: 48 * 60 * MINUTE });
+  return { matchRegistry, closingLines: new ClosingLineService(oddsHistory, matchRegistry, options) };
+}
+
+const homeOdds = (line: { selections: { tipCode: number; odds: number }[] } | null) => line?.selections.find(selection => selection.tipCode === 1)?.odds;
+
+test('closes a match with the previous snapshot when its live flag flips', async () => {
+  const { closingLines } = setup();
+  closingLines.observePreGameMatches('S', [enhancedMatch(1, 2.1)], 'proportional', KICKOFF - 10 * MINUTE);
+  closingLines.observePreGameMatches('S', [enhancedMatch(1, 2.5, { live: true })], 'proportional', KICKOFF - MINUTE);
+
+  const line = await closingLines.getClosingLine(1);
+  assert.equal(line?.trigger, 'live-flag');
+  assert.equal(homeOdds(line), 2.1);
+  assert.equal(line?.oddsAt, KICKOFF - 10 * MINUTE);
+  assert.equal(line?.stale, false);
+  assert.equal(line?.selections.length, 3);
+});
+
+test('closes a match when its live header is linked', async () => {
+  const { matchRegistry, closingLines } = setup();
+  const match = enhancedMatch(2, 1.9, { brMatchId: 41 });
+  matchRegistry.observePreGameMatches([{ ...match, betMap: {} }], KICKOFF - 5 * MINUTE);
+  closingLines.observePreGameMatches('S', [match], 'proportional', KICKOFF - 5 * MINUTE);
+
+  const header = { id: 502, mc: 2, h: 'Home 2', a: 'Away 2', lg: 'League', lsh: 'L', lid: 1, s: 'S', kot: KICKOFF, ls: '1', ba: true, tm: false, inf: '', eid: '', bri: 41, lct: 0 } as LiveHeader;
+  matchRegistry.observeLiveHeaders([header], KICKOFF);
+  closingLines.observeLiveHeaders([header], KICKOFF);
+
+  const line = await closingLines.getClosingLine(2);
+  assert.equal(line?.trigger, 'live-header');
+  assert.equal(line?.fixtureId, 'br-41');
+  assert.equal(homeOdds(line), 1.9);
+});
+
+test('closes a match seen after its kickoff', async () => {
+  const { closingLines } = setup();
+  closingLines.observePreGameMatches('S', [enhancedMatch(3, 2.0)], 'proportional', KICKOFF - 10 * MINUTE);
+  closingLines.observePreGameMatches('S', [enhancedMatch(3, 2.05)], 'proportional', KICKOFF + MINUTE);
+
+  const line = await closingLines.getClosingLine(3);
+  assert.equal(line?.trigger, 'kickoff');
+  assert.equal(homeOdds(line), 2.05);
+});
+
+test('closes matches removed around kickoff and forgets withdrawn ones', async () => {
+  const { closingLines } = setup();
+  const later = KICKOFF + 2 * 60 * MINUTE;
+  closingLines.observePreGameMatches('S', [enhancedMatch(4, 2.2), enhancedMatch(5, 1.7, { kickOffTime: later })], 'proportional', KICKOFF - 20 * MINUTE);
+  assert.equal(closingLines.getCloseRefreshTime('S', KICKOFF - 20 * MINUTE), KICKOFF - options.refreshLeadMs);
+
+  closingLines.observePreGameMatches('S', [], 'proportional', KICKOFF - 10 * MINUTE);
+
+  assert.equal((await closingLines.getClosingLine(4))?.trigger, 'kickoff');
+  assert.equal(await closingLines.getClosingLine(5), null);
+  assert.equal(closingLines.getStats().tracked, 0);
+});
+
+test('flags a close seen too long before kickoff as stale and leaves it out of averages', async () => {
+  const { closingLines } = setup();
+  closingLines.observePreGameMatches('S', [enhancedMatch(6, 2.4)], 'proportional', KICKOFF - 60 * MINUTE);
+  closingLines.observePreGameMatches('S', [enhancedMatch(6, 2.4, { live: true })], 'proportional', KICKOFF);
+
+  const line = await closingLines.getClosingLine(6);
+  assert.equal(line?.stale, true);
+  assert.equal(closingLines.getStats().stale, 1);
+
+  const report = await closingLines.reportPicks([{ matchId: 6, betCode: 1, tipCode: 1, odds: 2.6 }]);
+  assert.equal(report.entries[0].closingStale, true);
+  assert.equal(report.entries[0].clv, 0.0833);
+  assert.deepEqual([report.summary.matched, report.summary.stale, report.summary.averageClv], [0, 1, null]);
+});
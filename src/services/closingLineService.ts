@@ -0,0 +1,398 @@
+import { OddsHistoryStore } from './oddsHistoryStore';
+import { MatchRegistry } from './matchRegistry';
+import { EnhancedPreGameMatch } from '../types/pregameTypes';
+import { LiveHeader } from '../types/liveTypes';
+import { MarginMethod } from '../types/marketTypes';
+import { OddsChangeRecord } from '../types/historyTypes';
+import {
+  ClosingLine,
+  ClosingLineStats,
+  ClosingSelection,
+  ClosingTrigger,
+  ClvEntry,
+  ClvPick,
+  ClvReport,
+  ClvSummary
+} from '../types/closingLineTypes';
+
+export interface ClosingLineOptions {
+  retentionMs: number; // closing lines of matches that kicked off longer ago are dropped from memory
+  refreshLeadMs: number; // refresh the pre-game offer this long before the next kickoff
+  maxCloseAgeMs: number; // closing odds seen longer before kickoff are flagged as stale
+}
+
+// A match leaving the offer this close to kickoff has closed rather than been withdrawn
+const REMOVAL_CLOSE_WINDOW_MS = 15 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_REFRESH_LEAD_SECONDS = 120;
+const DEFAULT_MAX_CLOSE_AGE_MINUTES = 15;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Read the closing line settings from CLOSING_LINE_RETENTION_DAYS, CLOSING_LINE_REFRESH_LEAD_SECONDS
+ * and CLOSING_LINE_MAX_AGE_MINUTES
+ */
+export function getClosingLineOptionsFromEnv(): ClosingLineOptions {
+  const readPositive = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    retentionMs: readPositive('CLOSING_LINE_RETENTION_DAYS', DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000,
+    refreshLeadMs: readPositive('CLOSING_LINE_REFRESH_LEAD_SECONDS', DEFAULT_REFRESH_LEAD_SECONDS) * 1000,
+    maxCloseAgeMs: readPositive('CLOSING_LINE_MAX_AGE_MINUTES', DEFAULT_MAX_CLOSE_AGE_MINUTES) * 60 * 1000
+  };
+}
+
+/**
+ * Check the shape of a pick sent by a client
+ */
+export function isClvPick(value: any): value is ClvPick {
+  return !!value &&
+    Number.isInteger(value.matchId) &&
+    Number.isInteger(value.betCode) &&
+    Number.isInteger(value.tipCode) &&
+    (value.sv === undefined || typeof value.sv === 'string') &&
+    typeof value.odds === 'number' && Number.isFinite(value.odds) && value.odds > 1 &&
+    (value.placedAt === undefined || Number.isFinite(value.placedAt));
+}
+
+// The latest pre-game odds of a match that has not closed yet
+interface TrackedMatch {
+  sport: string;
+  home: string;
+  away: string;
+  league: string;
+  kickOffTime: number;
+  marginMethod: MarginMethod;
+  selections: ClosingSelection[];
+  seenAt: number;
+}
+
+/**
+ * Captures the closing line of every pre-game match: the last pre-game odds seen before the
+ * match went live. A match closes when its `live` flag flips, when its live header appears in
+ * the match registry, or at kickoff. Closing lines are persisted with the odds history and
+ * compared with earlier odds or with our own picks in CLV reports.
+ *
+ * Scheduled refreshes can be an hour apart, so pre-game jobs ask for an extra refresh shortly
+ * before each kickoff (getCloseRefreshTime). A close still seen too long before kickoff is
+ * flagged as stale and left out of report averages.
+ */
+export class ClosingLineService {
+  private readonly options: ClosingLineOptions;
+  private readonly oddsHistory: OddsHistoryStore;
+  private readonly matchRegistry: MatchRegistry;
+  private tracked: Map<number, TrackedMatch> = new Map();
+  private closingLines: Map<number, ClosingLine> = new Map();
+  private readonly loaded: Promise<void>;
+  private lastCapturedAt: number | null = null;
+
+  constructor(
+    oddsHistory: OddsHistoryStore,
+    matchRegistry: MatchRegistry,
+    options: ClosingLineOptions = getClosingLineOptionsFromEnv()
+  ) {
+    this.oddsHistory = oddsHistory;
+    this.matchRegistry = matchRegistry;
+    this.options = options;
+    this.loaded = this.load();
+  }
+
+  /**
+   * Keep the latest odds of a pre-game snapshot and close the matches that went live or kicked off
+   */
+  observePreGameMatches(sportCode: string, matches: EnhancedPreGameMatch[], marginMethod: MarginMethod, now: number = Date.now()): void {
+    const matchIds = new Set<number>();
+
+    matches.forEach(match => {
+      matchIds.add(match.id);
+      if (this.closingLines.has(match.id)) {
+        return;
+      }
+
+      // The odds of a live match are no longer pre-game odds, so the previous snapshot closes it
+      if (match.live) {
+        this.capture(match.id, 'live-flag', now);
+        return;
+      }
+
+      this.tracked.set(match.id, {
+        sport: match.sport,
+        home: match.home,
+        away: match.away,
+        league: match.leagueName,
+        kickOffTime: match.kickOffTime,
+        marginMethod,
+        selections: match.markets.flatMap(market => market.selections
+          .filter(selection => selection.active && selection.odds > 1)
+          .map(selection => ({
+            marketId: market.id,
+            market: market.name,
+            betCode: market.betCode,
+            sv: market.sv,
+            tipCode: selection.tipCode,
+            label: selection.label,
+            caption: selection.caption,
+            odds: selection.odds,
+            fairOdds: selection.fairOdds
+          }))),
+        seenAt: now
+      });
+
+      if (match.kickOffTime <= now) {
+        this.capture(match.id, 'kickoff', now);
+      }
+    });
+
+    // A match leaving the offer around kickoff has closed; one leaving earlier was withdrawn
+    Array.from(this.tracked.entries())
+      .filter(([matchId, tracked]) => tracked.sport === sportCode && !matchIds.has(matchId))
+      .forEach(([matchId, tracked]) => {
+        if (tracked.kickOffTime - now <= REMOVAL_CLOSE_WINDOW_MS) {
+          this.capture(matchId, 'kickoff', now);
+        } else {
+          this.tracked.delete(matchId);
+        }
+      });
+  }
+
+  /**
+   * Get when to refresh the pre-game offer of a sport so the next match to kick off is seen
+   * shortly before its kickoff, or null when no tracked match needs it
+   */
+  getCloseRefreshTime(sportCode: string, now: number = Date.now()): number | null {
+    let refreshAt: number | null = null;
+
+    this.tracked.forEach(tracked => {
+      const time = tracked.kickOffTime - this.options.refreshLeadMs;
+      if (tracked.sport === sportCode && time > now && (refreshAt === null || time < refreshAt)) {
+        refreshAt = time;
+      }
+    });
+
+    return refreshAt;
+  }
+
+  /**
+   * Close the pre-game matches whose live headers appeared
+   */
+  observeLiveHeaders(headers: LiveHeader[], now: number = Date.now()): void {
+    headers.forEach(header => {
+      const fixture = this.matchRegistry.findByMatchId('live', header.id);
+      if (fixture && fixture.preGameId !== null) {
+        this.capture(fixture.preGameId, 'live-header', now);
+      }
+    });
+  }
+
+  async getClosingLine(matchId: number): Promise<ClosingLine | null> {
+    await this.loaded;
+    return this.closingLines.get(matchId) || null;
+  }
+
+  /**
+   * Get the closing lines, latest kickoff first
+   */
+  async getClosingLines(filter: { sport?: string; fixtureId?: string } = {}): Promise<ClosingLine[]> {
+    await this.loaded;
+
+    return Array.from(this.closingLines.values())
+      .filter(line =>
+        (filter.sport === undefined || line.sport === filter.sport) &&
+        (filter.fixtureId === undefined || line.fixtureId === filter.fixtureId)
+      )
+      .sort((a, b) => b.kickOffTime - a.kickOffTime);
+  }
+
+  /**
+   * Compare our picks with the closing odds of their selections
+   */
+  async reportPicks(picks: ClvPick[]): Promise<ClvReport> {
+    await this.loaded;
+
+    const entries = picks.map(pick => this.createEntry(
+      pick.matchId,
+      this.closingLines.get(pick.matchId),
+      { betCode: pick.betCode, sv: pick.sv || '', tipCode: pick.tipCode },
+      pick.odds,
+      pick.placedAt ?? null
+    ));
+
+    return { basis: 'picks', at: null, minutesBefore: null, entries, summary: this.summarize(entries) };
+  }
+
+  /**
+   * Compare the pre-game odds offered at a fixed time, or some minutes before each kickoff,
+   * with the closing odds of every closed match
+   */
+  async reportAt(
+    time: { at: number } | { minutesBefore: number },
+    filter: { sport?: string; fixtureId?: string } = {}
+  ): Promise<ClvReport> {
+    const lines = await this.getClosingLines(filter);
+    const entries: ClvEntry[] = [];
+
+    for (const line of lines) {
+      const reportTime = 'at' in time ? time.at : line.kickOffTime - time.minutesBefore * 60 * 1000;
+      const offered = this.getOddsAt(await this.oddsHistory.readMatchHistory('pre-game', line.matchId), reportTime);
+
+      line.selections.forEach(selection => {
+        const record = offered.get(`${selection.betCode}|${selection.sv}|${selection.tipCode}`);
+        if (record) {
+          entries.push(this.createEntry(line.matchId, line, selection, record.odds, record.timestamp));
+        }
+      });
+    }
+
+    return {
+      basis: 'time',
+      at: 'at' in time ? time.at : null,
+      minutesBefore: 'minutesBefore' in time ? time.minutesBefore : null,
+      entries,
+      summary: this.summarize(entries)
+    };
+  }
+
+  getStats(): ClosingLineStats {
+    const byTrigger: Record<ClosingTrigger, number> = { 'live-flag': 0, 'live-header': 0, kickoff: 0 };
+    this.closingLines.forEach(line => byTrigger[line.trigger]++);
+
+    return {
+      captured: this.closingLines.size,
+      tracked: this.tracked.size,
+      stale: Array.from(this.closingLines.values()).filter(line => line.stale).length,
+      byTrigger,
+      lastCapturedAt: this.lastCapturedAt !== null ? new Date(this.lastCapturedAt).toISOString() : null
+    };
+  }
+
+  /**
+   * Store the latest tracked odds of a match as its closing line. Nothing is stored for a
+   * match that was never seen before it went live.
+   */
+  private capture(matchId: number, trigger: ClosingTrigger, now: number): void {
+    const tracked = this.tracked.get(matchId);
+    if (!tracked || this.closingLines.has(matchId)) {
+      return;
+    }
+
+    const line: ClosingLine = {
+      matchId,
+      fixtureId: this.matchRegistry.findByMatchId('pre-game', matchId)?.id || null,
+      sport: tracked.sport,
+      home: tracked.home,
+      away: tracked.away,
+      league: tracked.league,
+      kickOffTime: tracked.kickOffTime,
+      trigger,
+      oddsAt: tracked.seenAt,
+      capturedAt: now,
+      stale: tracked.kickOffTime - tracked.seenAt > this.options.maxCloseAgeMs,
+      marginMethod: tracked.marginMethod,
+      selections: tracked.selections
+    };
+
+    this.tracked.delete(matchId);
+    this.closingLines.set(matchId, line);
+    this.oddsHistory.recordClosingLine(line);
+    this.lastCapturedAt = now;
+    console.log(`Captured ${line.stale ? 'stale ' : ''}closing line of ${line.home} - ${line.away} (${matchId}) on ${trigger}: ${line.selections.length} selections`);
+
+    this.prune(now);
+  }
+
+  /**
+   * Load the persisted closing lines within the retention period
+   */
+  private async load(): Promise<void> {
+    try {
+      const lines = await this.oddsHistory.readClosingLines();
+      const cutoff = Date.now() - this.options.retentionMs;
+
+      // Lines captured while loading are newer than their persisted copies
+      const loaded = lines.filter(line => line.kickOffTime >= cutoff && !this.closingLines.has(line.matchId));
+      loaded.forEach(line => this.closingLines.set(line.matchId, {
+        ...line,
+        // Lines persisted before staleness was recorded
+        stale: line.stale ?? line.kickOffTime - line.oddsAt > this.options.maxCloseAgeMs
+      }));
+
+      if (loaded.length > 0) {
+        console.log(`Loaded ${loaded.length} closing lines`);
+      }
+    } catch (error) {
+      console.error('Failed to load closing lines:', error);
+    }
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.options.retentionMs;
+    this.closingLines.forEach((line, matchId) => {
+      if (line.kickOffTime < cutoff) {
+        this.closingLines.delete(matchId);
+      }
+    });
+  }
+
+  /**
+   * Get the last recorded odds of every selection at a point in time
+   */
+  private getOddsAt(records: OddsChangeRecord[], time: number): Map<string, OddsChangeRecord> {
+    const offered = new Map<string, OddsChangeRecord>();
+
+    // Records are sorted oldest first, so later ones overwrite earlier ones
+    records
+      .filter(record => record.timestamp <= time)
+      .forEach(record => offered.set(`${record.betCode}|${record.specialValue}|${record.tipType}`, record));
+
+    return offered;
+  }
+
+  private createEntry(
+    matchId: number,
+    line: ClosingLine | undefined,
+    key: { betCode: number; sv: string; tipCode: number },
+    odds: number,
+    oddsAt: number | null
+  ): ClvEntry {
+    const closing = line?.selections.find(selection =>
+      selection.betCode === key.betCode && selection.sv === key.sv && selection.tipCode === key.tipCode
+    );
+
+    return {
+      matchId,
+      fixtureId: line?.fixtureId || this.matchRegistry.findByMatchId('pre-game', matchId)?.id || null,
+      match: line ? `${line.home} - ${line.away}` : null,
+      market: closing?.market || null,
+      betCode: key.betCode,
+      sv: key.sv,
+      tipCode: key.tipCode,
+      label: closing?.label || null,
+      odds,
+      oddsAt,
+      closingOdds: closing?.odds || null,
+      closingFairOdds: closing?.fairOdds || null,
+      closingStale: closing ? line!.stale : null,
+      clv: closing ? round(odds / closing.odds - 1) : null,
+      fairClv: closing?.fairOdds ? round(odds / closing.fairOdds - 1) : null
+    };
+  }
+
+  private summarize(entries: ClvEntry[]): ClvSummary {
+    const matched = entries.filter(entry => entry.clv !== null && !entry.closingStale);
+    const fair = matched.filter(entry => entry.fairClv !== null);
+    const average = (values: number[]) => values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+    return {
+      entries: entries.length,
+      matched: matched.length,
+      stale: entries.filter(entry => entry.closingStale).length,
+      averageClv: average(matched.map(entry => entry.clv!)),
+      averageFairClv: average(fair.map(entry => entry.fairClv!)),
+      beatCloseShare: matched.length > 0 ? round(matched.filter(entry => entry.clv! > 0).length / matched.length) : null
+    };
+  }
+}
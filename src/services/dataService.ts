@@ -1,146 +1,261 @@
-import { SoccerbetApiService, SportData, BettingOptionsResponse, BetPickMapItem, BetPickGroup } from './soccerbetApi';
-import { LiveStreamService } from './liveStreamService';
-import { LiveData } from '../types/liveTypes';
+import { LiveStreamService, getLiveStreamOptionsFromEnv } from './liveStreamService';
+import { LiveData, LiveBet, LiveHeader, LiveSubscriptionData, LiveScore, LiveChanges, LiveConnectionStats, EvictedLiveMatch, LiveEvictionStats } from '../types/liveTypes';
 import { SportMappingService } from './sportMappingService';
-import { PreGameResponse, PreGameMatch, EnhancedPreGameMatch, EnhancedPreGameBet } from '../types/pregameTypes';
-import { PreGameApiService } from './pregameApiService';
+import { SportRegistry } from './sportRegistry';
+import { BookmakerAdapter } from './bookmakerAdapter';
+import { MarketBuilder } from './marketBuilder';
+import { toPreGameSnapshot } from './feedRecords';
+import { SoccerbetAdapter } from './soccerbetAdapter';
+import { getMarginMethodFromEnv, summarizeMargins } from './marketPricing';
+import { OpportunityScanner, ScannedMatch, getOpportunityScannerOptionsFromEnv } from './opportunityScanner';
+import { MatchRegistry } from './matchRegistry';
+import { ClosingLineService } from './closingLineService';
+import { PreGameDiffEngine } from './preGameDiffEngine';
+import { LabelRenderer, parseSpecifiers } from './labelRenderer';
+import { LiveDataUtils } from './liveDataUtils';
+import { PreGameMatch, EnhancedPreGameMatch, EnhancedPreGameBet, PreGameRefreshStatus, PreGameChanges, PreGameSnapshot, PreGameSnapshotChange } from '../types/pregameTypes';
+import { PreGameScheduler } from './preGameScheduler';
+import { OddsHistoryStore } from './oddsHistoryStore';
+import { OddsHistoryService } from './oddsHistoryService';
+import { ChangeLog } from './changeLog';
+import { UpstreamClient } from './upstreamClient';
+import { OddsHistoryQuery, OddsSeries } from '../types/historyTypes';
+import { Mode, Sport, TimeInterval } from '../types';
+import { UpstreamStatus } from '../types/upstreamTypes';
+import { EnhancedBetGroup, EnhancedBetPick, EnhancedBettingOptions, MarginMethod, MarginSummary, Market, MarketSpecifiers } from '../types/marketTypes';
+import { LiveMatchView } from '../types/matchTypes';
+import { BookmakerSport, BetCatalogue } from '../types/bookmakerTypes';
 
 export interface InitializedData {
-  sports: SportData[];
-  bettingOptions: BettingOptionsResponse;
+  sports: BookmakerSport[];
+  bets: BetCatalogue;
   enhancedBettingOptions: EnhancedBettingOptions;
   initializedAt: Date;
   mode: 'live' | 'pre-game';
-  sport: 'football' | 'tennis' | 'basketball';
-  interval?: string;
-  liveData?: LiveData;
-  preGameData?: PreGameResponse;
+  sport: Sport;
+  interval?: TimeInterval;
+  preGameData?: PreGameSnapshot;
   sportMapping?: SportMappingService;
 }
 
-export interface EnhancedBetGroup {
-  id: number;
-  description: string;
-  name: string;
-  favorite: boolean;
-  handicapParam: string | null;
-  specialBetValueTypes: string | null;
-  orderNumber: number;
-  tipTypes: number[];
-  formatCode: number;
-  lineCode: number;
-  hideHeader: boolean;
-  specialValuePosition: string;
-  sport: string;
-  picksPerRow: number | null;
-  picks: EnhancedBetPick[];
-}
-
-export interface EnhancedBetPick {
-  key: string;
-  label: string;
-  caption: string;
-  tipTypeCode: number;
-  betPickCode: number;
-  betCode: number;
-  position: string | null;
-  tipTypeTag: string | null;
-  mainType: string | null;
-  displaySpecifiers: string | null;
-  tipTypeName: string;
-  groupId: number | null;
-  groupDescription: string | null;
-  groupName: string | null;
-  groupOrderNumber: number | null;
-}
-
-export interface EnhancedBettingOptions {
-  groups: EnhancedBetGroup[];
-  picks: EnhancedBetPick[];
-}
-
 export class DataService {
-  private soccerbetApi: SoccerbetApiService;
+  private upstream: UpstreamClient;
+  private bookmaker: BookmakerAdapter;
+  private matchRegistry: MatchRegistry;
+  private closingLines: ClosingLineService;
   private liveStreamService: LiveStreamService;
   private sportMappingService: SportMappingService;
-  private preGameApi: PreGameApiService;
+  private sportRegistry: SportRegistry = new SportRegistry();
+  private preGameScheduler: PreGameScheduler;
+  private oddsHistory: OddsHistoryStore;
+  private oddsHistoryService: OddsHistoryService;
   private initializedData: InitializedData | null = null;
+  private preGameSport: Sport | null = null;
+  private liveSport: Sport | null = null; // set while this service reads the live feed
+  private preGameChangeLog: ChangeLog = new ChangeLog();
+  private preGameMatchVersions: Map<number, { fingerprint: string; version: number }> = new Map();
   private isInitialized: boolean = false;
+  private pickIndex: Map<string, EnhancedBetPick> = new Map();
+  private labelRenderer: LabelRenderer;
+  private marketBuilder: MarketBuilder;
+  private marginMethod: MarginMethod = getMarginMethodFromEnv();
+  private opportunityScanner: OpportunityScanner;
+  private preGameDiffEngine: PreGameDiffEngine = new PreGameDiffEngine();
 
-  constructor() {
-    this.soccerbetApi = new SoccerbetApiService();
-    this.liveStreamService = new LiveStreamService();
-    this.sportMappingService = new SportMappingService();
-    this.preGameApi = new PreGameApiService(this.sportMappingService); // ✅ NEW: Pass SportMappingService
+  constructor(
+    oddsHistory: OddsHistoryStore = new OddsHistoryStore(),
+    upstream: UpstreamClient = new UpstreamClient(),
+    bookmaker: BookmakerAdapter = new SoccerbetAdapter(upstream),
+    matchRegistry: MatchRegistry = new MatchRegistry(),
+    closingLines: ClosingLineService = new ClosingLineService(oddsHistory, matchRegistry),
+    liveStreamService: LiveStreamService = new LiveStreamService(getLiveStreamOptionsFromEnv(), bookmaker)
+  ) {
+    this.oddsHistory = oddsHistory;
+    this.upstream = upstream;
+    this.bookmaker = bookmaker;
+    this.matchRegistry = matchRegistry;
+    this.closingLines = closingLines;
+    this.liveStreamService = liveStreamService;
+    this.sportMappingService = new SportMappingService(this.sportRegistry);
+    this.labelRenderer = this.sportMappingService.getLabelRenderer();
+    this.marketBuilder = new MarketBuilder(this.labelRenderer);
+    this.opportunityScanner = new OpportunityScanner(getOpportunityScannerOptionsFromEnv(), this.bookmaker.complementaryPairs);
+    this.oddsHistoryService = new OddsHistoryService(this.oddsHistory, this.sportMappingService);
+    this.preGameScheduler = new PreGameScheduler(() => this.fetchPreGameSnapshot());
+
+    // Keep the stored snapshot in sync with every scheduled refresh
+    this.preGameScheduler.on('refresh', (preGameData: PreGameSnapshot) => {
+      this.trackPreGameChanges(preGameData);
+      this.preGameDiffEngine.apply(preGameData.matches);
+      if (this.initializedData?.mode === 'pre-game') {
+        this.initializedData.preGameData = preGameData;
+      }
+      this.oddsHistory.recordPreGameMatches(preGameData.matches);
+      this.matchRegistry.observePreGameMatches(preGameData.matches);
+      this.processPreGameSnapshot();
+    });
+
+    // Matches that left the offer no longer need their last odds in memory
+    this.preGameDiffEngine.on('matchRemoved', (change: PreGameSnapshotChange) => {
+      this.oddsHistory.forgetMatch('pre-game', change.matchId);
+    });
   }
 
+  // Persist every live odds change of the selected sport
+  private readonly onLiveUpdate = (update: LiveSubscriptionData): void => {
+    this.recordLiveOdds(update.bets, update.headers, update.timestamp);
+    if (this.liveSport && update.headers.length > 0) {
+      this.observeLiveHeaders(this.sportMappingService.filterLiveHeadersBySport(update.headers, this.liveSport));
+    }
+    this.scanLiveOpportunities(new Set<number>([
+      ...update.headers.map(header => header.id),
+      ...update.bets.map(bet => bet.mId)
+    ]));
+  };
+
+  // A resync replaces the live snapshot after a gap in the subscription
+  private readonly onLiveResync = (liveData: LiveData): void => {
+    if (this.initializedData?.mode !== 'live') {
+      return;
+    }
+    this.applyLiveSnapshot(liveData, this.initializedData.sport);
+    this.scanLiveOpportunities();
+  };
+
+  // Evicted matches of the selected sport no longer need their last odds in memory; archive them if configured
+  private readonly onLiveEviction = (evicted: EvictedLiveMatch[]): void => {
+    const sportCode = this.liveSport ? this.sportMappingService.getSportTypeCode(this.liveSport) : null;
+
+    evicted.filter(match => match.header?.s === sportCode).forEach(match => {
+      if (this.liveStreamService.shouldArchiveEvicted()) {
+        this.oddsHistory.archiveLiveMatch(match);
+      }
+      this.oddsHistory.forgetMatch('live', match.matchId);
+      this.opportunityScanner.removeMatch(match.matchId);
+    });
+  };
+
   /**
    * Initialize data fetching for the specified mode and sport
    */
-  async initialize(mode: 'live' | 'pre-game', sport: 'football' | 'tennis' | 'basketball', interval?: string): Promise<InitializedData> {
+  async initialize(mode: 'live' | 'pre-game', sport: Sport, interval?: TimeInterval): Promise<InitializedData> {
     console.log(`Initializing data for ${mode} mode, sport: ${sport}${interval ? `, interval: ${interval}` : ''}`);
     
     try {
+      // Stop any refresh scheduled by a previous pre-game run and leave the live feed of a previous live run
+      this.preGameScheduler.stop();
+      this.releaseLiveFeed();
+      
       // Fetch basic data from external APIs
-      const { sports, bettingOptions } = await this.soccerbetApi.initializeData();
+      const { sports, bets } = await this.bookmaker.fetchCatalogue();
       
       // Initialize sport mappings first to get sport code
       this.sportMappingService.initializeSportMappings(sports);
       
+      // Accept any sport of the catalogue by key, code or name, and continue with its key
+      const sportMapping = this.sportMappingService.resolveSport(sport);
+      if (!sportMapping) {
+        throw new Error(`Unknown sport: ${sport}`);
+      }
+      if (mode === 'live' ? !sportMapping.activeInLive : !sportMapping.active) {
+        throw new Error(`Sport ${sportMapping.key} is not active${mode === 'live' ? ' in live' : ''}`);
+      }
+      sport = sportMapping.key;
+      
       // Create enhanced betting options with group information
-      const enhancedBettingOptions = this.createEnhancedBettingOptions(bettingOptions, sport);
+      const enhancedBettingOptions = this.createEnhancedBettingOptions(bets, sport);
+      this.pickIndex = new Map(enhancedBettingOptions.picks.map(pick => [pick.key, pick]));
+      this.marketBuilder.load(enhancedBettingOptions);
       
       // Set the enhanced betting options
-      this.sportMappingService.setBettingOptions(bettingOptions);
+      this.sportMappingService.setBetCatalogue(bets);
       
-      let liveData: LiveData | undefined;
-      let preGameData: PreGameResponse | undefined;
+      let preGameData: PreGameSnapshot | undefined;
       
       // For live mode, also initialize live streaming
       if (mode === 'live') {
         console.log('Initializing live streaming data...');
-        liveData = await this.liveStreamService.initializeLiveEvents(sport);
-        
-        // Filter live data by sport
-        if (liveData) {
-          const filteredHeaders = this.sportMappingService.filterLiveHeadersBySport(liveData.headers, sport);
-          liveData.headers = filteredHeaders;
-          console.log(`Filtered live headers to ${filteredHeaders.length} matches for ${sport}`);
-        }
-        
-        // Start live subscription
-        await this.liveStreamService.startLiveSubscription();
+        this.applyLiveSnapshot(await this.acquireLiveFeed(sport), sport);
       } else if (mode === 'pre-game') {
         console.log('Initializing pre-game data...');
-        const sportCode = this.preGameApi.getSportCode(sport);
-        preGameData = await this.preGameApi.fetchPreGameData(sportCode);
-        console.log(`Fetched ${preGameData?.esMatches?.length || 0} pre-game matches for ${sport}`);
+        interval = interval || '1min';
+        this.preGameSport = sport;
+        this.clearPreGameChanges();
+        preGameData = await this.preGameScheduler.start(interval);
+        console.log(`Fetched ${preGameData.matches.length} pre-game matches for ${sport}`);
       }
       
       // Store initialized data
       this.initializedData = {
         sports,
-        bettingOptions,
+        bets,
         enhancedBettingOptions,
         initializedAt: new Date(),
         mode,
         sport,
         interval,
-        liveData,
         preGameData,
         sportMapping: this.sportMappingService
       };
       
       this.isInitialized = true;
       
+      // Look for opportunities in the first snapshot
+      if (mode === 'pre-game') {
+        this.processPreGameSnapshot();
+      } else {
+        this.rescanOpportunities();
+      }
+      
       console.log(`Data initialization completed for ${mode} mode`);
       return this.initializedData;
     } catch (error) {
       console.error('Failed to initialize data:', error);
+      this.releaseLiveFeed();
       throw error;
     }
   }
 
+  /**
+   * Join the live feed, which may be shared with other services, and follow the records of a sport
+   */
+  private acquireLiveFeed(sport: Sport): Promise<LiveData> {
+    this.liveSport = sport;
+    this.liveStreamService.on('liveUpdate', this.onLiveUpdate);
+    this.liveStreamService.on('resync', this.onLiveResync);
+    this.liveStreamService.on('liveEviction', this.onLiveEviction);
+
+    return this.liveStreamService.acquire();
+  }
+
+  /**
+   * Stop following the live feed, if this service follows it
+   */
+  private releaseLiveFeed(): void {
+    if (!this.liveSport) {
+      return;
+    }
+
+    this.liveSport = null;
+    this.liveStreamService.off('liveUpdate', this.onLiveUpdate);
+    this.liveStreamService.off('resync', this.onLiveResync);
+    this.liveStreamService.off('liveEviction', this.onLiveEviction);
+    this.liveStreamService.release();
+  }
+
+  /**
+   * Register the matches of the selected sport from a fresh live snapshot and record its odds.
+   * The live store keeps every sport; readers filter through getFilteredLiveHeadersBySport.
+   */
+  private applyLiveSnapshot(liveData: LiveData, sport: Sport): void {
+    const filteredHeaders = this.sportMappingService.filterLiveHeadersBySport(liveData.headers, sport);
+    console.log(`Filtered live headers to ${filteredHeaders.length} matches for ${sport}`);
+    this.observeLiveHeaders(filteredHeaders);
+    
+    // Record the opening live odds
+    this.recordLiveOdds(liveData.bets);
+  }
+
   /**
    * Get the currently initialized data
    */
@@ -158,7 +273,7 @@ export class DataService {
   /**
    * Create enhanced betting options with group information
    */
-  private createEnhancedBettingOptions(bettingOptions: BettingOptionsResponse, sport: 'football' | 'tennis' | 'basketball'): EnhancedBettingOptions {
+  private createEnhancedBettingOptions(bets: BetCatalogue, sport: Sport): EnhancedBettingOptions {
     const sportTypeCode = this.sportMappingService.getSportTypeCode(sport);
     
     if (!sportTypeCode) {
@@ -168,66 +283,71 @@ export class DataService {
     
     console.log(`Creating enhanced betting options for sport: ${sport} (code: ${sportTypeCode})`);
     
+    const sportOptions = this.sportRegistry.filterBetCatalogue(bets, sport);
     const enhancedGroups: EnhancedBetGroup[] = [];
     const allPicks: EnhancedBetPick[] = [];
     
-    // Start from betPickGroupMap (groups)
-    Object.entries(bettingOptions.betPickGroupMap).forEach(([groupId, groupInfo]) => {
-      // Only process groups for the selected sport
-      if (groupInfo.sport === sportTypeCode) {
-        const enhancedGroup: EnhancedBetGroup = {
-          id: groupInfo.id,
-          description: groupInfo.description,
-          name: groupInfo.name,
-          favorite: groupInfo.favorite,
-          handicapParam: groupInfo.handicapParam,
-          specialBetValueTypes: groupInfo.specialBetValueTypes,
-          orderNumber: groupInfo.orderNumber,
-          tipTypes: groupInfo.tipTypes,
-          formatCode: groupInfo.formatCode,
-          lineCode: groupInfo.lineCode,
-          hideHeader: groupInfo.hideHeader,
-          specialValuePosition: groupInfo.specialValuePosition,
-          sport: groupInfo.sport,
-          picksPerRow: groupInfo.picksPerRow,
-          picks: []
-        };
-        
-        enhancedGroups.push(enhancedGroup);
-      }
+    // Start from the groups
+    Object.values(sportOptions.groups).forEach(groupInfo => {
+      const enhancedGroup: EnhancedBetGroup = {
+        id: groupInfo.id,
+        description: groupInfo.description,
+        name: groupInfo.name,
+        favorite: groupInfo.favorite,
+        handicapParam: groupInfo.handicapParam,
+        specialBetValueTypes: groupInfo.specialBetValueTypes,
+        orderNumber: groupInfo.orderNumber,
+        tipTypes: groupInfo.tipTypes,
+        formatCode: groupInfo.formatCode,
+        lineCode: groupInfo.lineCode,
+        hideHeader: groupInfo.hideHeader,
+        specialValuePosition: groupInfo.specialValuePosition,
+        sport: groupInfo.sport,
+        picksPerRow: groupInfo.picksPerRow,
+        picks: []
+      };
+      
+      enhancedGroups.push(enhancedGroup);
     });
     
-    // Extract all picks with group information and connect to groups
-    Object.entries(bettingOptions.betPickMap).forEach(([pickKey, pickInfo]) => {
-      // Only process picks for the selected sport
-      if (pickKey.endsWith(`_${sportTypeCode}`)) {
-        // Find the group that this pick belongs to
-        const group = enhancedGroups.find(g => g.tipTypes && g.tipTypes.includes(pickInfo.tipTypeCode));
-        
-        const enhancedPick: EnhancedBetPick = {
-          key: pickKey,
-          label: pickInfo.label,
-          caption: pickInfo.caption,
-          tipTypeCode: pickInfo.tipTypeCode,
-          betPickCode: pickInfo.betPickCode,
-          betCode: pickInfo.betCode,
-          position: pickInfo.position,
-          tipTypeTag: pickInfo.tipTypeTag,
-          mainType: pickInfo.mainType,
-          displaySpecifiers: pickInfo.displaySpecifiers,
-          tipTypeName: pickInfo.tipTypeName,
-          groupId: group?.id || null,
-          groupDescription: group?.description || null,
-          groupName: group?.name || null,
-          groupOrderNumber: group?.orderNumber || null
-        };
-        
-        allPicks.push(enhancedPick);
-        
-        // Add pick to the group's picks array
-        if (group) {
-          group.picks.push(enhancedPick);
+    // Index groups by tip type; the first group listing a tip type owns it
+    const groupByTipType = new Map<number, EnhancedBetGroup>();
+    enhancedGroups.forEach(group => {
+      (group.tipTypes || []).forEach(tipType => {
+        if (!groupByTipType.has(tipType)) {
+          groupByTipType.set(tipType, group);
         }
+      });
+    });
+    
+    // Extract all picks with group information and connect to groups
+    Object.entries(sportOptions.picks).forEach(([pickKey, pickInfo]) => {
+      // Find the group that this pick belongs to
+      const group = groupByTipType.get(pickInfo.tipTypeCode);
+      
+      const enhancedPick: EnhancedBetPick = {
+        key: pickKey,
+        label: pickInfo.label,
+        caption: pickInfo.caption,
+        tipTypeCode: pickInfo.tipTypeCode,
+        betPickCode: pickInfo.betPickCode,
+        betCode: pickInfo.betCode,
+        position: pickInfo.position,
+        tipTypeTag: pickInfo.tipTypeTag,
+        mainType: pickInfo.mainType,
+        displaySpecifiers: pickInfo.displaySpecifiers,
+        tipTypeName: pickInfo.tipTypeName,
+        groupId: group?.id || null,
+        groupDescription: group?.description || null,
+        groupName: group?.name || null,
+        groupOrderNumber: group?.orderNumber || null
+      };
+      
+      allPicks.push(enhancedPick);
+      
+      // Add pick to the group's picks array
+      if (group) {
+        group.picks.push(enhancedPick);
       }
     });
     
@@ -238,124 +358,232 @@ export class DataService {
       picks: allPicks
     };
   }
-  private filterBettingOptionsBySport(bettingOptions: BettingOptionsResponse, sport: 'football' | 'tennis' | 'basketball'): BettingOptionsResponse {
-    const sportTypeCode = this.sportMappingService.getSportTypeCode(sport);
+  /**
+   * Get enhanced betting data for a match with group information
+   */
+  getEnhancedBettingDataForMatchWithGroups(matchId: number): any[] {
+    const initializedData = this.getInitializedData();
+    const liveStore = this.liveStreamService.getLiveStore();
     
-    if (!sportTypeCode) {
-      console.warn(`No sport type code found for ${sport}, returning original betting options`);
-      return bettingOptions;
+    if (!initializedData || !this.getLiveData()) {
+      return [];
     }
     
-    console.log(`Filtering betting options for sport: ${sport} (code: ${sportTypeCode})`);
-    
-    // Filter betPickMap to only include entries for the selected sport
-    const filteredBetPickMap: Record<string, BetPickMapItem> = {};
-    const originalBetPickCount = Object.keys(bettingOptions.betPickMap).length;
+    // Find bets for this match
+    const matchBets = liveStore.getBetsForMatch(matchId);
     
-    for (const [key, value] of Object.entries(bettingOptions.betPickMap)) {
-      // Check if the key ends with the sport code (e.g., "201049_T" for tennis)
-      if (key.endsWith(`_${sportTypeCode}`)) {
-        filteredBetPickMap[key] = value;
-      }
+    if (matchBets.length === 0) {
+      return [];
     }
     
-    // Filter betPickGroupMap to only include entries for the selected sport
-    const filteredBetPickGroupMap: Record<string, BetPickGroup> = {};
-    const originalBetPickGroupCount = Object.keys(bettingOptions.betPickGroupMap).length;
+    // Get sport code for this match
+    const sportCode = liveStore.getHeader(matchId)?.s;
     
-    for (const [key, value] of Object.entries(bettingOptions.betPickGroupMap)) {
-      // Check if the group belongs to the selected sport
-      if (value.sport === sportTypeCode) {
-        filteredBetPickGroupMap[key] = value;
-      }
+    if (!sportCode) {
+      return [];
     }
     
-    const filteredBetPickCount = Object.keys(filteredBetPickMap).length;
-    const filteredBetPickGroupCount = Object.keys(filteredBetPickGroupMap).length;
-    console.log(`Filtered betPickMap from ${originalBetPickCount} to ${filteredBetPickCount} entries for ${sport}`);
-    console.log(`Filtered betPickGroupMap from ${originalBetPickGroupCount} to ${filteredBetPickGroupCount} entries for ${sport}`);
-    
-    // Return filtered betting options
-    return {
-      ...bettingOptions,
-      betPickMap: filteredBetPickMap,
-      betPickGroupMap: filteredBetPickGroupMap
-    };
+    // Create enhanced betting data with group information
+    return matchBets.map(bet => this.enhanceLiveBetWithGroups(bet, sportCode));
   }
 
   /**
-   * Get enhanced betting data for a match with group information
+   * Get enhanced betting data with group information for a set of changed live bets
    */
-  getEnhancedBettingDataForMatchWithGroups(matchId: number): any[] {
+  getEnhancedLiveBetsWithGroups(bets: LiveBet[]): any[] {
     const initializedData = this.getInitializedData();
-    const liveData = this.getLiveData();
+    const liveStore = this.liveStreamService.getLiveStore();
     
-    if (!initializedData || !liveData) {
+    if (!initializedData || !this.getLiveData() || bets.length === 0) {
       return [];
     }
     
-    // Get the enhanced betting options
-    const enhancedOptions = initializedData.enhancedBettingOptions;
-    
-    // Find bets for this match
-    const matchBets = liveData.bets.filter(bet => bet.mId === matchId);
+    return bets
+      .filter(bet => bet.om && liveStore.getHeader(bet.mId))
+      .map(bet => this.enhanceLiveBetWithGroups(bet, liveStore.getHeader(bet.mId)!.s));
+  }
+
+  /**
+   * Get the markets of a live match, priced with the given margin method
+   */
+  getLiveMarketsForMatch(matchId: number, marginMethod: MarginMethod = this.marginMethod): Market[] {
+    const liveStore = this.liveStreamService.getLiveStore();
+    const sportCode = liveStore.getHeader(matchId)?.s;
     
-    if (matchBets.length === 0) {
+    if (!this.getInitializedData() || !this.getLiveData() || !sportCode) {
       return [];
     }
     
-    // Get sport code for this match
-    const matchHeader = liveData.headers.find(h => h.id === matchId);
-    const sportCode = matchHeader?.s;
+    return liveStore.getBetsForMatch(matchId).map(bet => this.marketBuilder.fromLiveBet(bet, sportCode, marginMethod));
+  }
+
+  /**
+   * Get the markets of a set of changed live bets
+   */
+  getLiveMarkets(bets: LiveBet[], marginMethod: MarginMethod = this.marginMethod): Market[] {
+    const liveStore = this.liveStreamService.getLiveStore();
     
-    if (!sportCode) {
+    if (!this.getInitializedData() || !this.getLiveData() || bets.length === 0) {
       return [];
     }
     
-    // Create enhanced betting data with group information
-    const enhancedBets = matchBets.map(bet => {
-      const enhancedOdds = Object.entries(bet.om).map(([key, odd]) => {
-        const betPickKey = `${key}_${sportCode}`;
-        
-        // Find the pick in enhanced options
-        const enhancedPick = enhancedOptions.picks.find(pick => pick.key === betPickKey);
-        
-        return {
-          key,
-          odds: odd.ov,
-          betPickCode: odd.bpc,
-          description: enhancedPick?.label || 'Unknown Description',
-          caption: enhancedPick?.caption || 'N/A'
-        };
-      });
+    return bets
+      .filter(bet => bet.om && liveStore.getHeader(bet.mId))
+      .map(bet => this.marketBuilder.fromLiveBet(bet, liveStore.getHeader(bet.mId)!.s, marginMethod));
+  }
+
+  /**
+   * Build the changed headers, bets and markets of a live update, limited to the selected sport
+   */
+  getLiveDeltaForSelectedSport(update: LiveSubscriptionData, marginMethod: MarginMethod = this.marginMethod): { headers: any[]; bets: any[]; markets: Market[] } | null {
+    const initializedData = this.getInitializedData();
+    const liveData = this.getLiveData();
+    
+    if (!initializedData || !liveData || initializedData.mode !== 'live') {
+      return null;
+    }
+    
+    const sportHeaders = this.getFilteredLiveHeadersBySport();
+    const sportMatchIds = new Set<number>(sportHeaders.map(header => header.id));
+    
+    // Results change the score shown with the header, so they count as header changes
+    const changedMatchIds = new Set<number>([
+      ...update.headers.map(header => header.id),
+      ...update.results.map(result => result.mId)
+    ]);
+    const changedBetIds = new Set<number>(update.bets.map(bet => bet.id));
+    
+    const headers = sportHeaders
+      .filter(header => changedMatchIds.has(header.id))
+      .map(header => ({ ...header, score: this.getLiveScoreForMatch(header.id) }));
+    
+    const liveStore = this.liveStreamService.getLiveStore();
+    const changedBets = Array.from(changedBetIds)
+      .map(betId => liveStore.getBet(betId))
+      .filter((bet): bet is LiveBet => bet !== undefined && sportMatchIds.has(bet.mId));
+    const bets = this.getEnhancedLiveBetsWithGroups(changedBets);
+    
+    return { headers, bets, markets: this.getLiveMarkets(changedBets, marginMethod) };
+  }
+
+  /**
+   * Get live headers and bets of the selected sport changed or removed after the given token
+   */
+  getLiveChangesSince(since: number, marginMethod: MarginMethod = this.marginMethod): LiveChanges | null {
+    const initializedData = this.getInitializedData();
+    const liveData = this.getLiveData();
+    
+    if (!initializedData || !liveData || initializedData.mode !== 'live') {
+      return null;
+    }
+    
+    const changeLog = this.liveStreamService.getChangeLog();
+    const liveStore = this.liveStreamService.getLiveStore();
+    const fullResync = !changeLog.canServeSince(since);
+    const sportHeaders = this.getFilteredLiveHeadersBySport();
+    const sportMatchIds = new Set<number>(sportHeaders.map(header => header.id));
+    
+    // A newer result changes the score shown with the header
+    const headers = sportHeaders
+      .filter(header => fullResync || liveStore.getHeaderVersion(header.id) > since || liveStore.getResultVersion(header.id) > since)
+      .map(header => ({ ...header, score: this.getLiveScoreForMatch(header.id) }));
+    
+    const changedBets = liveData.bets.filter(bet => sportMatchIds.has(bet.mId) && (fullResync || liveStore.getBetVersion(bet.id) > since));
+    
+    return {
+      since,
+      token: changeLog.getVersion(),
+      fullResync,
+      headers,
+      bets: this.getEnhancedLiveBetsWithGroups(changedBets),
+      markets: this.getLiveMarkets(changedBets, marginMethod),
+      removedMatchIds: fullResync ? [] : changeLog.getRemovedIdsSince('header', since),
+      removedBetIds: fullResync ? [] : changeLog.getRemovedIdsSince('bet', since)
+    };
+  }
+
+  /**
+   * Add descriptions to every odd of a live bet and group information from its first odd
+   */
+  private enhanceLiveBetWithGroups(bet: LiveBet, sportCode: string): any {
+    const specifiers = parseSpecifiers(bet.sv);
+    const enhancedOdds = Object.entries(bet.om).map(([key, odd]) => {
+      const betPickKey = `${key}_${sportCode}`;
       
-      // Get group information from the first odd (assuming all odds in a bet belong to the same group)
-      const firstOddKey = Object.keys(bet.om)[0];
-      const firstBetPickKey = `${firstOddKey}_${sportCode}`;
-      const firstEnhancedPick = enhancedOptions.picks.find(pick => pick.key === firstBetPickKey);
+      // Find the pick in enhanced options
+      const enhancedPick = this.pickIndex.get(betPickKey);
+      const labels = this.renderPickLabels(enhancedPick, specifiers);
       
       return {
-        ...bet,
-        sportCode,
-        odds: enhancedOdds,
-        groupId: firstEnhancedPick?.groupId || null,
-        groupDescription: firstEnhancedPick?.groupDescription || null,
-        groupName: firstEnhancedPick?.groupName || null,
-        groupOrderNumber: firstEnhancedPick?.groupOrderNumber || null
+        key,
+        odds: odd.ov,
+        betPickCode: odd.bpc,
+        description: labels.description,
+        caption: labels.caption
       };
     });
     
-    return enhancedBets;
+    // Get group information from the first odd (assuming all odds in a bet belong to the same group)
+    const firstOddKey = Object.keys(bet.om)[0];
+    const firstBetPickKey = `${firstOddKey}_${sportCode}`;
+    const firstEnhancedPick = this.pickIndex.get(firstBetPickKey);
+    const group = this.renderGroupLabels(firstEnhancedPick, specifiers);
+    
+    return {
+      ...bet,
+      sportCode,
+      odds: enhancedOdds,
+      groupId: firstEnhancedPick?.groupId || null,
+      groupDescription: group.description,
+      groupName: group.name,
+      groupOrderNumber: firstEnhancedPick?.groupOrderNumber || null
+    };
+  }
+
+  /**
+   * Render the label and caption of a pick with the specifiers of its bet
+   */
+  private renderPickLabels(pick: EnhancedBetPick | undefined, specifiers: MarketSpecifiers): { description: string; caption: string } {
+    if (!pick) {
+      return { description: 'Unknown Description', caption: 'N/A' };
+    }
+    
+    const labels = this.labelRenderer.renderPick(pick.label, pick.caption, pick.groupId, specifiers);
+    return { description: labels.label || 'Unknown Description', caption: labels.caption || 'N/A' };
+  }
+
+  /**
+   * Render the group name and description of a pick with the specifiers of its bet
+   */
+  private renderGroupLabels(pick: EnhancedBetPick | undefined, specifiers: MarketSpecifiers): { name: string | null; description: string | null } {
+    if (!pick) {
+      return { name: null, description: null };
+    }
+    
+    const group = this.labelRenderer.renderGroup(pick.groupId, specifiers, { name: pick.groupName, description: pick.groupDescription });
+    return { name: group.name || null, description: group.description || null };
   }
 
   /**
    * Reset initialization state
    */
   reset(): void {
-    // Stop live streaming if active
-    if (this.liveStreamService.isCurrentlyStreaming()) {
-      this.liveStreamService.stopLiveSubscription();
+    // Leave the live feed, which stops once no other service reads it
+    this.releaseLiveFeed();
+    
+    // Stop scheduled pre-game refreshes. The last odds of the offer are read back from the
+    // history if the sport is collected again.
+    this.preGameScheduler.stop();
+    const preGameSportCode = this.preGameSport && this.sportMappingService.getSportTypeCode(this.preGameSport);
+    if (preGameSportCode) {
+      this.oddsHistory.forgetSport('pre-game', preGameSportCode);
     }
+    this.preGameSport = null;
+    this.clearPreGameChanges();
+    
+    // Write out any buffered odds history
+    this.oddsHistory.flush();
+    this.opportunityScanner.clear();
     
     this.initializedData = null;
     this.isInitialized = false;
@@ -365,68 +593,30 @@ export class DataService {
   /**
    * Get sports filtered by the selected sport type
    */
-  getFilteredSports(): SportData[] {
+  getFilteredSports(): BookmakerSport[] {
     if (!this.initializedData) {
       return [];
     }
 
-    const sportCodeMap = {
-      'football': ['S'], // Football and Special Football
-      'tennis': ['T'], // Tennis
-      'basketball': ['B'] // Basketball
-    };
-
-    const allowedCodes = sportCodeMap[this.initializedData.sport] || [];
-    
-    return this.initializedData.sports.filter(sport => 
-      allowedCodes.includes(sport.sportTypeCode) && sport.active
-    );
+    return this.sportRegistry.filterSports(this.initializedData.sports, this.initializedData.sport);
   }
 
   /**
    * Get betting options filtered by sport
    */
-  getFilteredBettingOptions(): BettingOptionsResponse | null {
+  getFilteredBetCatalogue(): BetCatalogue | null {
     if (!this.initializedData) {
       return null;
     }
 
-    const sportCodeMap = {
-      'football': 'FB',
-      'tennis': 'T',
-      'basketball': 'V'
-    };
-
-    const sportCode = sportCodeMap[this.initializedData.sport];
-    
-    if (!sportCode) {
-      return this.initializedData.bettingOptions;
-    }
-
-    // Filter betMap by sport
-    const filteredBetMap = Object.fromEntries(
-      Object.entries(this.initializedData.bettingOptions.betMap)
-        .filter(([_, betItem]) => betItem.sport === sportCode)
-    );
-
-    // Filter betPickGroupMap by sport
-    const filteredBetPickGroupMap = Object.fromEntries(
-      Object.entries(this.initializedData.bettingOptions.betPickGroupMap)
-        .filter(([_, group]) => group.sport === sportCode)
-    );
-
-    return {
-      ...this.initializedData.bettingOptions,
-      betMap: filteredBetMap,
-      betPickGroupMap: filteredBetPickGroupMap
-    };
+    return this.sportRegistry.filterBetCatalogue(this.initializedData.bets, this.initializedData.sport);
   }
 
   /**
    * Get current live data
    */
   getLiveData(): LiveData | null {
-    return this.liveStreamService.getLiveData();
+    return this.liveSport ? this.liveStreamService.getLiveData() : null;
   }
 
   /**
@@ -436,6 +626,41 @@ export class DataService {
     return this.liveStreamService.isCurrentlyStreaming();
   }
 
+  /**
+   * Get the current score of a live match
+   */
+  getLiveScoreForMatch(matchId: number): LiveScore | null {
+    const initializedData = this.getInitializedData();
+    const liveData = this.getLiveData();
+    
+    if (!initializedData || !liveData) {
+      return null;
+    }
+    
+    const result = this.liveStreamService.getLiveStore().getResult(matchId);
+    return result ? LiveDataUtils.normalizeLiveResult(result, initializedData.sport) : null;
+  }
+
+  /**
+   * Get one live match of the selected sport with its score and markets
+   */
+  getLiveMatch(matchId: number, marginMethod: MarginMethod = this.marginMethod): LiveMatchView | null {
+    const header = this.getFilteredLiveHeadersBySport().find(candidate => candidate.id === matchId);
+
+    return header ? {
+      ...header,
+      score: this.getLiveScoreForMatch(matchId),
+      markets: this.getLiveMarketsForMatch(matchId, marginMethod)
+    } : null;
+  }
+
+  /**
+   * Get the registry fixture id of a pre-game match or live header
+   */
+  getFixtureId(source: Mode, matchId: number): string | null {
+    return this.matchRegistry.findByMatchId(source, matchId)?.id || null;
+  }
+
   /**
    * Get live stream service for event handling
    */
@@ -446,56 +671,329 @@ export class DataService {
   /**
    * Get current pre-game data
    */
-  getPreGameData(): PreGameResponse | null {
+  getPreGameData(): PreGameSnapshot | null {
     return this.initializedData?.preGameData || null;
   }
 
+  /**
+   * Get pre-game refresh timing and failure information
+   */
+  getPreGameRefreshStatus(): PreGameRefreshStatus | null {
+    if (this.initializedData?.mode !== 'pre-game') {
+      return null;
+    }
+
+    return this.preGameScheduler.getStatus();
+  }
+
+  /**
+   * Get reconnect and resync counters of the live subscription
+   */
+  getLiveConnectionStats(): LiveConnectionStats {
+    return this.liveStreamService.getConnectionStats();
+  }
+
+  /**
+   * Get the retention settings and eviction counters of the live store
+   */
+  getLiveEvictionStats(): LiveEvictionStats {
+    return this.liveStreamService.getEvictionStats();
+  }
+
+  /**
+   * Get the retry and circuit breaker state of the soccerbet.rs endpoints
+   */
+  getUpstreamStatus(): UpstreamStatus {
+    return this.upstream.getStatus();
+  }
+
+  /**
+   * Get the persistent odds history store
+   */
+  getOddsHistoryStore(): OddsHistoryStore {
+    return this.oddsHistory;
+  }
+
+  /**
+   * Get the labelled odds history of a match
+   */
+  async getOddsHistory(matchId: number, query: OddsHistoryQuery = {}): Promise<OddsSeries[]> {
+    return this.oddsHistoryService.getMatchHistory(matchId, query);
+  }
+
+  /**
+   * Persist the live odds changes of the selected sport, resolving each bet's sport from the known headers
+   */
+  private recordLiveOdds(bets: LiveBet[], newHeaders: LiveHeader[] = [], timestamp?: number): void {
+    if (bets.length === 0 || !this.liveSport) {
+      return;
+    }
+
+    const liveStore = this.liveStreamService.getLiveStore();
+    const newSportByMatch = new Map<number, string>();
+    newHeaders.forEach(header => newSportByMatch.set(header.id, header.s));
+    const getSportCode = (matchId: number) => newSportByMatch.get(matchId) || liveStore.getHeader(matchId)?.s || null;
+
+    // Other sports of the shared feed are recorded by the services that follow them
+    const sportCode = this.sportMappingService.getSportTypeCode(this.liveSport);
+    const changed = this.oddsHistory.recordLiveBets(bets.filter(bet => getSportCode(bet.mId) === sportCode), getSportCode, timestamp);
+    if (changed > 0) {
+      console.log(`Recorded ${changed} live odds changes`);
+    }
+  }
+
+  /**
+   * Fetch the pre-game offer for the sport selected at initialization
+   */
+  private async fetchPreGameSnapshot(): Promise<PreGameSnapshot> {
+    if (!this.preGameSport) {
+      throw new Error('No sport selected for pre-game refresh');
+    }
+
+    const sportCode = this.getSportCode(this.preGameSport);
+    return toPreGameSnapshot(await this.bookmaker.fetchPreGameOffer(sportCode));
+  }
+
+  /**
+   * Get the code the bookmaker's offer is queried with, from the sport registry
+   */
+  private getSportCode(sport: Sport): string {
+    const sportTypeCode = this.sportMappingService.getSportTypeCode(sport);
+
+    if (!sportTypeCode) {
+      throw new Error(`No sport type code found for ${sport}. Initialize the sport registry first.`);
+    }
+
+    return sportTypeCode;
+  }
+
   /**
    * Get enhanced pre-game matches with betting data
    */
-  getEnhancedPreGameMatches(): EnhancedPreGameMatch[] {
+  getEnhancedPreGameMatches(filter?: (match: PreGameMatch) => boolean, marginMethod: MarginMethod = this.marginMethod): EnhancedPreGameMatch[] {
     const initializedData = this.getInitializedData();
     const preGameData = this.getPreGameData();
     
-    console.log('getEnhancedPreGameMatches called');
-    console.log('Initialized data exists:', !!initializedData);
-    console.log('Pre-game data exists:', !!preGameData);
-    console.log('Mode:', initializedData?.mode);
-    
     if (!initializedData || !preGameData || initializedData.mode !== 'pre-game') {
-      console.log('Returning empty array - missing data or wrong mode');
       return [];
     }
 
-    const sportCode = this.preGameApi.getSportCode(initializedData.sport);
-    console.log('Sport code:', sportCode);
-    console.log('Total matches in pre-game data:', preGameData.esMatches?.length || 0);
-    
+    const sportMatches = this.sportRegistry.filterPreGameMatches(preGameData.matches, initializedData.sport);
     const enhancedMatches: EnhancedPreGameMatch[] = [];
+    const sportCode = this.getSportCode(initializedData.sport);
 
-    preGameData.esMatches.forEach((match, index) => {
-      if (match.sport === sportCode) {
-        const enhancedBets = this.enhancePreGameBets(match, initializedData);
-        
-        enhancedMatches.push({
-          ...match,
-          bets: enhancedBets
-        });
-      } else {
-        console.log(`Match ${index + 1} sport ${match.sport} does not match ${sportCode}`);
+    sportMatches.forEach(match => {
+      if (filter && !filter(match)) {
+        return;
       }
+      
+      enhancedMatches.push({
+        ...match,
+        fixtureId: this.getFixtureId('pre-game', match.id),
+        bets: this.enhancePreGameBets(match, initializedData),
+        markets: this.marketBuilder.fromPreGameMatch(match, sportCode, marginMethod)
+      });
     });
 
-    console.log('Final enhanced matches count:', enhancedMatches.length);
     return enhancedMatches;
   }
 
+  /**
+   * Get pre-game matches changed or removed after the given token
+   */
+  getPreGameChangesSince(since: number, marginMethod: MarginMethod = this.marginMethod): PreGameChanges {
+    const fullResync = !this.preGameChangeLog.canServeSince(since);
+    
+    const matches = this.getEnhancedPreGameMatches(
+      match => fullResync || (this.preGameMatchVersions.get(match.id)?.version || 0) > since,
+      marginMethod
+    );
+    
+    return {
+      since,
+      token: this.preGameChangeLog.getVersion(),
+      fullResync,
+      matches,
+      removedMatchIds: fullResync ? [] : this.preGameChangeLog.getRemovedIdsSince('match', since)
+    };
+  }
+
+  /**
+   * Get the margins of the current markets per league
+   */
+  getMarginSummary(marginMethod: MarginMethod = this.marginMethod): MarginSummary[] {
+    const initializedData = this.getInitializedData();
+    
+    if (initializedData?.mode === 'live') {
+      return summarizeMargins(this.getFilteredLiveHeadersBySport().map(header => ({
+        league: header.lg,
+        markets: this.getLiveMarketsForMatch(header.id, marginMethod)
+      })));
+    }
+    
+    return summarizeMargins(this.getEnhancedPreGameMatches(undefined, marginMethod).map(match => ({
+      league: match.leagueName,
+      markets: match.markets
+    })));
+  }
+
+  /**
+   * Scan the given live matches of the selected sport for opportunities, or all of them
+   */
+  private scanLiveOpportunities(matchIds?: Set<number>): void {
+    if (this.initializedData?.mode !== 'live') {
+      return;
+    }
+    
+    const matches: ScannedMatch[] = this.getFilteredLiveHeadersBySport()
+      .filter(header => !matchIds || matchIds.has(header.id))
+      .map(header => ({
+        source: 'live',
+        matchId: header.id,
+        match: `${header.h} - ${header.a}`,
+        league: header.lg,
+        markets: this.getLiveMarketsForMatch(header.id),
+        state: this.getLiveMatchState(header.id)
+      }));
+    
+    if (matchIds) {
+      this.opportunityScanner.scanMatches(matches);
+    } else {
+      this.opportunityScanner.scanSnapshot(matches);
+    }
+  }
+
+  /**
+   * Get the score and period of a live match, which restart the opportunity consensus when they change
+   */
+  private getLiveMatchState(matchId: number): string | null {
+    const score = this.getLiveScoreForMatch(matchId);
+    return score ? `${score.home}:${score.away} ${score.currentPeriod || ''}` : null;
+  }
+
+  /**
+   * Scan the whole pre-game offer of the selected sport for opportunities
+   */
+  private scanPreGameOpportunities(matches: EnhancedPreGameMatch[] = this.getEnhancedPreGameMatches()): void {
+    if (this.initializedData?.mode !== 'pre-game') {
+      return;
+    }
+    
+    this.opportunityScanner.scanSnapshot(matches.map(match => ({
+      source: 'pre-game',
+      matchId: match.id,
+      match: `${match.home} - ${match.away}`,
+      league: match.leagueName,
+      markets: match.markets
+    })));
+  }
+
+  /**
+   * Hand a fresh pre-game snapshot to the opportunity scanner and the closing line capture
+   */
+  private processPreGameSnapshot(): void {
+    if (this.initializedData?.mode !== 'pre-game') {
+      return;
+    }
+
+    const matches = this.getEnhancedPreGameMatches();
+    const sportCode = this.getSportCode(this.initializedData.sport);
+    this.scanPreGameOpportunities(matches);
+    this.closingLines.observePreGameMatches(sportCode, matches, this.marginMethod);
+
+    // See the next match to kick off once more just before kickoff, for its closing line
+    const refreshAt = this.closingLines.getCloseRefreshTime(sportCode);
+    if (refreshAt !== null) {
+      this.preGameScheduler.refreshAt(refreshAt);
+    }
+  }
+
+  /**
+   * Register live headers in the match registry and close the pre-game markets of matches that went live
+   */
+  private observeLiveHeaders(headers: LiveHeader[]): void {
+    this.matchRegistry.observeLiveHeaders(headers);
+    this.closingLines.observeLiveHeaders(headers);
+  }
+
+  /**
+   * Scan the current snapshot again, e.g. after new reference prices were imported
+   */
+  rescanOpportunities(): void {
+    if (this.initializedData?.mode === 'live') {
+      this.scanLiveOpportunities();
+    } else {
+      this.scanPreGameOpportunities();
+    }
+  }
+
+  getOpportunityScanner(): OpportunityScanner {
+    return this.opportunityScanner;
+  }
+
+  /**
+   * Get the engine diffing consecutive pre-game snapshots, for subscribing to its events
+   */
+  getPreGameDiffEngine(): PreGameDiffEngine {
+    return this.preGameDiffEngine;
+  }
+
+  /**
+   * Get the margin method used when a request does not choose one
+   */
+  getMarginMethod(): MarginMethod {
+    return this.marginMethod;
+  }
+
+  /**
+   * Get the token describing the current pre-game snapshot
+   */
+  getPreGameVersion(): number {
+    return this.preGameChangeLog.getVersion();
+  }
+
+  /**
+   * Stamp new and changed pre-game matches with a change version and log removed ones.
+   * A match counts as changed when any of its fields or odds differ from the previous refresh.
+   */
+  private trackPreGameChanges(preGameData: PreGameSnapshot): void {
+    const matches = preGameData.matches;
+    const currentIds = new Set<number>(matches.map(match => match.id));
+    
+    this.preGameMatchVersions.forEach((_, matchId) => {
+      if (!currentIds.has(matchId)) {
+        this.preGameMatchVersions.delete(matchId);
+        this.preGameChangeLog.recordRemoval('match', matchId);
+      }
+    });
+    
+    matches.forEach(match => {
+      const fingerprint = JSON.stringify(match);
+      const previous = this.preGameMatchVersions.get(match.id);
+      
+      if (previous && previous.fingerprint === fingerprint) {
+        return;
+      }
+      
+      this.preGameMatchVersions.set(match.id, { fingerprint, version: this.preGameChangeLog.nextVersion() });
+    });
+  }
+
+  /**
+   * Forget pre-game change versions and removals
+   */
+  private clearPreGameChanges(): void {
+    this.preGameChangeLog.clear();
+    this.preGameMatchVersions.clear();
+    this.preGameDiffEngine.reset();
+  }
+
   /**
    * Enhance pre-game bets with descriptions and group information
    */
   private enhancePreGameBets(match: PreGameMatch, initializedData: InitializedData): EnhancedPreGameBet[] {
     const enhancedBets: EnhancedPreGameBet[] = [];
-    const sportCode = this.preGameApi.getSportCode(initializedData.sport);
+    const sportCode = this.getSportCode(initializedData.sport);
     
     // Group bets by their group information and total values
     const groupedBets = new Map<string, EnhancedPreGameBet>();
@@ -505,11 +1003,13 @@ export class DataService {
         const betPickKey = `${betKey}_${sportCode}`;
         
         // Find the pick in enhanced options
-        const enhancedPick = initializedData.enhancedBettingOptions.picks.find(pick => pick.key === betPickKey);
+        const enhancedPick = this.pickIndex.get(betPickKey);
         
         // Create a unique key for grouping based on group info and special values
         const specialValues = this.extractSpecialValues(bet.sv);
         const groupKey = `${enhancedPick?.groupId || 'ungrouped'}_${specialValues.total || 'no-total'}_${specialValues.handicap || 'no-handicap'}`;
+        const specifiers = parseSpecifiers(bet.sv);
+        const labels = this.renderPickLabels(enhancedPick, specifiers);
         
         if (groupedBets.has(groupKey)) {
           // Add this odd to existing group
@@ -518,11 +1018,12 @@ export class DataService {
             key: betKey,
             odds: bet.ov,
             betPickCode: bet.bpc,
-            description: enhancedPick?.label || 'Unknown Description',
-            caption: enhancedPick?.caption || 'N/A'
+            description: labels.description,
+            caption: labels.caption
           });
         } else {
           // Create new group
+          const group = this.renderGroupLabels(enhancedPick, specifiers);
           const newBet: EnhancedPreGameBet = {
             id: `${match.id}_${groupKey}`,
             betCode: bet.bc,
@@ -531,18 +1032,18 @@ export class DataService {
             status: bet.s,
             specialValue: bet.sv,
             sv: bet.sv, // Add sv field to match live data format
-            description: enhancedPick?.label || 'Unknown Description',
-            caption: enhancedPick?.caption || 'N/A',
+            description: labels.description,
+            caption: labels.caption,
             groupId: enhancedPick?.groupId || null,
-            groupDescription: enhancedPick?.groupDescription || null,
-            groupName: enhancedPick?.groupName || null,
+            groupDescription: group.description,
+            groupName: group.name,
             groupOrderNumber: enhancedPick?.groupOrderNumber || null,
             odds: [{
               key: betKey,
               odds: bet.ov,
               betPickCode: bet.bpc,
-              description: enhancedPick?.label || 'Unknown Description',
-              caption: enhancedPick?.caption || 'N/A'
+              description: labels.description,
+              caption: labels.caption
             }]
           };
           groupedBets.set(groupKey, newBet);
@@ -553,7 +1054,6 @@ export class DataService {
     // Convert map to array
     enhancedBets.push(...groupedBets.values());
 
-    console.log(`Enhanced bets count for match: ${enhancedBets.length}`);
     return enhancedBets;
   }
 
@@ -561,18 +1061,7 @@ export class DataService {
    * Extract special values (total, handicap) from sv field
    */
   private extractSpecialValues(svField: string): { total: string | null; handicap: string | null } {
-    if (!svField) {
-      return { total: null, handicap: null };
-    }
-    
-    // Parse sv field to find special values
-    const svParams: Record<string, string> = {};
-    svField.split(',').forEach(param => {
-      const [key, value] = param.split('=');
-      if (key && value !== undefined) {
-        svParams[key.trim()] = value.trim();
-      }
-    });
+    const svParams = parseSpecifiers(svField);
     
     return {
       total: svParams.total || null,
@@ -596,10 +1085,14 @@ export class DataService {
       return [];
     }
 
+    // Pass only this match's bets and header so the mapping service has nothing to scan
+    const liveStore = this.liveStreamService.getLiveStore();
+    const header = liveStore.getHeader(matchId);
+    
     return this.sportMappingService.getEnhancedBettingDataForMatch(
       matchId, 
-      liveData.bets, 
-      liveData.headers
+      liveStore.getBetsForMatch(matchId), 
+      header ? [header] : []
     );
   }
 
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toLiveRecords, toPreGameMatch } from './feedRecords';
+import { toLiveFeedBatch, toPreGameOffer } from './soccerbetAdapter';
+import { LiveStore } from './liveStore';
+import { SoccerbetLiveStreamResponse, SoccerbetPreGameResponse } from '../types/soccerbetTypes';
+import preGameFixture from '../mock/fixtures/pregame.json';
+import liveFixture from '../mock/fixtures/live.json';
+
+const preGame = preGameFixture as unknown as SoccerbetPreGameResponse;
+const live = liveFixture as unknown as SoccerbetLiveStreamResponse;
+
+test('keeps every pre-game odds value through the neutral markets', () => {
+  const offer = toPreGameOffer(preGame);
+  const wire = preGame.esMatches[0];
+  const neutral = offer.matches[0];
+
+  assert.deepEqual(neutral.markets.map(market => `${market.betCode}_${market.specialValue}`), ['1_', '2_total=2.5', '3_hcp=-1.5', '3_hcp=1.5', '4_']);
+  assert.equal(neutral.brMatchId, wire.brMatchId);
+
+  const match = toPreGameMatch(neutral);
+  assert.equal(match.matchCode, wire.matchCode);
+  assert.deepEqual(match.betMap, wire.betMap);
+});
+
+test('merges live updates without an odds map over the stored odds', () => {
+  const store = new LiveStore();
+  const snapshot = toLiveRecords(toLiveFeedBatch(live));
+  store.load(snapshot.headers, snapshot.bets, snapshot.results, 1);
+
+  const [bet] = live.liveBets;
+  const update = toLiveRecords(toLiveFeedBatch({ liveBets: [{ id: bet.id, mId: bet.mId, st: 'SUSPENDED' } as typeof bet] }));
+  assert.equal('om' in update.bets[0], false);
+
+  store.upsertBets(update.bets, 2);
+  assert.equal(store.getBet(bet.id)!.st, 'SUSPENDED');
+  assert.deepEqual(store.getBet(bet.id)!.om, bet.om);
+  assert.equal(store.getHeader(live.liveHeaders[0].id)!.h, live.liveHeaders[0].h);
+});
@@ -0,0 +1,149 @@
+import { LiveHeader, LiveBet, LiveResult, LiveSport, LiveRecordBatch } from '../types/liveTypes';
+import { PreGameMatch, PreGameSnapshot } from '../types/pregameTypes';
+import {
+  BookmakerLiveMatch,
+  BookmakerLiveScore,
+  BookmakerLiveSport,
+  BookmakerMarket,
+  BookmakerPreGameMatch,
+  LiveFeedBatch,
+  PreGameOffer
+} from '../types/bookmakerTypes';
+
+/**
+ * Drop the fields an update left out, so merging the record keeps the stored values
+ */
+function withoutUndefined<T extends object>(record: Partial<T>): T {
+  Object.keys(record).forEach(key => {
+    if (record[key as keyof T] === undefined) {
+      delete record[key as keyof T];
+    }
+  });
+  return record as T;
+}
+
+/**
+ * Build the stored record of a live match
+ */
+export function toLiveHeader(match: BookmakerLiveMatch): LiveHeader {
+  return withoutUndefined<LiveHeader>({
+    id: match.id,
+    mc: match.code,
+    h: match.home,
+    a: match.away,
+    lg: match.leagueName,
+    lsh: match.leagueShort,
+    lid: match.leagueId,
+    s: match.sport,
+    kot: match.kickOffTime,
+    ls: match.liveStatus,
+    ba: match.bettingAllowed,
+    tm: match.featured,
+    inf: match.info,
+    eid: match.externalId,
+    bri: match.brMatchId,
+    lct: match.changedAt ?? undefined
+  });
+}
+
+/**
+ * Build the stored record of a live market; an update without selections keeps the stored odds
+ */
+export function toLiveBet(market: BookmakerMarket): LiveBet {
+  return withoutUndefined<LiveBet>({
+    id: market.id ?? undefined,
+    bc: market.betCode,
+    mId: market.matchId,
+    sv: market.specialValue,
+    st: market.status,
+    d: market.disabled,
+    lct: market.changedAt ?? undefined,
+    om: market.selections
+      ? Object.fromEntries(market.selections.map(selection => [String(selection.tipCode), { ov: selection.odds, bpc: selection.pickCode }]))
+      : undefined
+  });
+}
+
+/**
+ * Build the stored record of a live score
+ */
+export function toLiveResult(score: BookmakerLiveScore): LiveResult {
+  return withoutUndefined<LiveResult>({
+    mId: score.matchId,
+    lct: score.changedAt,
+    cs: score.score,
+    ps: score.periodScores,
+    cp: score.period,
+    mt: score.matchTime,
+    gs: score.gameScore,
+    srv: score.server
+  });
+}
+
+/**
+ * Build the stored record of a live sport
+ */
+export function toLiveSport(sport: BookmakerLiveSport): LiveSport {
+  return { sport: sport.code, matchsCount: sport.matchCount };
+}
+
+/**
+ * Build the stored records of a decoded live feed batch
+ */
+export function toLiveRecords(batch: LiveFeedBatch): LiveRecordBatch {
+  return {
+    sports: batch.sports.map(toLiveSport),
+    headers: batch.matches.map(toLiveHeader),
+    bets: batch.markets.map(toLiveBet),
+    results: batch.scores.map(toLiveResult)
+  };
+}
+
+/**
+ * Build the stored record of a pre-game match, with its odds by tip type and special value
+ */
+export function toPreGameMatch(match: BookmakerPreGameMatch): PreGameMatch {
+  const betMap: PreGameMatch['betMap'] = {};
+
+  match.markets.forEach(market => {
+    market.selections.forEach(selection => {
+      const tipCode = String(selection.tipCode);
+      if (!betMap[tipCode]) {
+        betMap[tipCode] = {};
+      }
+      betMap[tipCode][market.specialValue] = {
+        bpc: selection.pickCode,
+        tt: selection.tipCode,
+        s: selection.status,
+        ov: selection.odds,
+        bc: market.betCode,
+        sv: market.specialValue
+      };
+    });
+  });
+
+  return {
+    id: match.id,
+    matchCode: match.code,
+    home: match.home,
+    away: match.away,
+    kickOffTime: match.kickOffTime,
+    status: match.status,
+    blocked: match.blocked,
+    favourite: match.featured,
+    sport: match.sport,
+    leagueId: match.leagueId,
+    leagueName: match.leagueName,
+    leagueShort: match.leagueShort,
+    live: match.live,
+    brMatchId: match.brMatchId,
+    betMap
+  };
+}
+
+/**
+ * Build the stored snapshot of a pre-game offer
+ */
+export function toPreGameSnapshot(offer: PreGameOffer): PreGameSnapshot {
+  return { fetchedAt: offer.fetchedAt, matches: offer.matches.map(toPreGameMatch) };
+}
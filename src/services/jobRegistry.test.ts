@@ -0,0 +1,114 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Reconnect quickly after the scripted disconnect of the fixture feed
+process.env.LIVE_RECONNECT_BASE_DELAY_MS = '50';
+
+import { JobRegistry } from './jobRegistry';
+import { OddsHistoryStore } from './oddsHistoryStore';
+import { UpstreamClient } from './upstreamClient';
+import { FakeBookmakerAdapter } from '../mock/fakeBookmakerAdapter';
+import { FixtureFeed } from '../mock/fixtureFeed';
+
+const historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-registry-test-'));
+const oddsHistory = new OddsHistoryStore(historyDir);
+const registry = new JobRegistry(oddsHistory, new UpstreamClient(), new FakeBookmakerAdapter(new FixtureFeed(20)));
+
+after(async () => {
+  await registry.stopAll();
+  await oddsHistory.flush();
+  fs.rmSync(historyDir, { recursive: true, force: true });
+});
+
+/**
+ * Poll until a condition holds, failing after the timeout
+ */
+async function waitFor(condition: () => boolean, timeoutMs: number = 10000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+test('resolves sports from the fake catalogue', async () => {
+  const sports = await registry.getSports();
+
+  assert.deepEqual(sports.map(sport => sport.key), ['football', 'basketball', 'tennis', 'hockey']);
+  assert.equal((await registry.resolveSport('S', 'live')).key, 'football');
+});
+
+test('collects the pre-game offer of a sport', async () => {
+  const job = await registry.createJob({ mode: 'pre-game', sport: 'football', interval: '1min' });
+  const dataService = registry.getDataService(job.id)!;
+
+  assert.equal(job.status, 'running');
+  assert.ok(job.matches > 0);
+  assert.ok(dataService.getPreGameData()!.matches.every(match => match.sport === 'S'));
+
+  const matches = dataService.getEnhancedPreGameMatches();
+  assert.equal(matches.length, job.matches);
+  assert.ok(matches.every(match => match.bets.length > 0 && match.fixtureId !== null));
+});
+
+test('collects the live feed through its own wire format', async () => {
+  const job = await registry.createJob({ mode: 'live', sport: 'football' });
+  const dataService = registry.getDataService(job.id)!;
+  const liveStream = dataService.getLiveStreamService();
+  let updates = 0;
+  liveStream.on('liveUpdate', () => updates++);
+
+  assert.equal(job.status, 'running');
+  assert.deepEqual(dataService.getFilteredLiveHeadersBySport().map(header => header.id).sort(), [500001, 500002]);
+  assert.ok(dataService.getLiveMarketsForMatch(500001).length > 0);
+  const token = dataService.getLiveChangesSince(0)!.token;
+
+  // The script changes odds, sends a malformed line and disconnects; the service resumes
+  await waitFor(() => {
+    const stats = dataService.getLiveConnectionStats();
+    return updates > 0 && stats.malformedEvents > 0 && stats.reconnects > 0 && stats.connected;
+  });
+  assert.ok(liveStream.getCurrentTimestamp()! > 0);
+
+  // Updates are served after the token handed out before them
+  const changes = dataService.getLiveChangesSince(token)!;
+  assert.equal(changes.fullResync, false);
+  assert.ok(changes.bets.length > 0);
+});
+
+test('links the pre-game and live records of the same fixture', () => {
+  const view = registry.getFixtureView('br-41000101');
+
+  assert.ok(view);
+  assert.equal(view.fixture.resolvedBy, 'brMatchId');
+  assert.equal(view.preGame?.id, 900004);
+  assert.equal(view.live?.id, 500001);
+});
+
+test('shares one live feed between the live jobs of different sports', async () => {
+  const footballJob = registry.findJob('live', 'football')!;
+  const football = registry.getDataService(footballJob.id)!;
+  const { reconnects } = football.getLiveConnectionStats();
+
+  const tennisJob = await registry.createJob({ mode: 'live', sport: 'tennis' });
+  const tennis = registry.getDataService(tennisJob.id)!;
+
+  // Joining reads the running feed instead of subscribing again
+  assert.equal(tennis.getLiveStreamService(), football.getLiveStreamService());
+  assert.equal(tennis.getLiveConnectionStats().reconnects, reconnects);
+  assert.deepEqual(tennis.getFilteredLiveHeadersBySport().map(header => header.id), [500021]);
+  assert.deepEqual(football.getFilteredLiveHeadersBySport().map(header => header.id).sort(), [500001, 500002]);
+
+  // The feed runs until its last job stops
+  registry.stopJob(footballJob.id);
+  assert.equal(tennis.isLiveStreaming(), true);
+  assert.equal(football.getLiveData(), null);
+
+  registry.stopJob(tennisJob.id);
+  assert.equal(tennis.getLiveStreamService().isCurrentlyStreaming(), false);
+});
@@ -0,0 +1,425 @@
+import { EventEmitter } from 'events';
+import { DataService } from './dataService';
+import { OddsHistoryStore } from './oddsHistoryStore';
+import { OddsHistoryService } from './oddsHistoryService';
+import { SportMappingService } from './sportMappingService';
+import { SportRegistry, SportMapping } from './sportRegistry';
+import { BookmakerAdapter } from './bookmakerAdapter';
+import { SoccerbetAdapter } from './soccerbetAdapter';
+import { MatchRegistry } from './matchRegistry';
+import { ClosingLineService } from './closingLineService';
+import { LiveStreamService, getLiveStreamOptionsFromEnv } from './liveStreamService';
+import { UpstreamClient } from './upstreamClient';
+import { isTimeInterval } from './preGameScheduler';
+import { CollectionJobConfig, CollectionJobInfo, CollectionJobStatus } from '../types/jobTypes';
+import { OddsHistoryQuery, OddsSeries } from '../types/historyTypes';
+import { UpstreamStatus } from '../types/upstreamTypes';
+import { FixtureView } from '../types/matchTypes';
+import { MarginMethod } from '../types/marketTypes';
+import { PreGameSnapshotDiff } from '../types/pregameTypes';
+import { Mode, Sport } from '../types';
+
+const MODES: Mode[] = ['live', 'pre-game'];
+const SPORTS_CACHE_MS = 10 * 60 * 1000;
+
+interface CollectionJob {
+  id: string;
+  config: CollectionJobConfig & { name: string };
+  dataService: DataService;
+  status: CollectionJobStatus;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  stoppedAt: Date | null;
+  starts: number;
+}
+
+/**
+ * A job request that cannot be carried out. `status` is the HTTP status to answer with.
+ */
+export class JobRegistryError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'JobRegistryError';
+    this.status = status;
+  }
+}
+
+/**
+ * Named collection jobs, each with its own DataService so several modes and sports can be
+ * collected at once. All jobs share one bookmaker adapter and one upstream client, so retries
+ * and circuit breakers see every request, one odds history store, one match registry and
+ * one closing line capture. Live jobs read one live feed and store, each filtered by its sport,
+ * which runs while any of them does.
+ *
+ * Emits 'jobStopped' with the job id when a job is stopped or deleted, and 'preGameDiff' with
+ * the job id and the PreGameSnapshotDiff whenever a pre-game refresh changes the offer.
+ */
+export class JobRegistry extends EventEmitter {
+  private readonly oddsHistory: OddsHistoryStore;
+  private readonly upstream: UpstreamClient;
+  private readonly bookmaker: BookmakerAdapter;
+  private readonly matchRegistry: MatchRegistry = new MatchRegistry();
+  private readonly closingLines: ClosingLineService;
+  private readonly liveStream: LiveStreamService;
+  private jobs: Map<string, CollectionJob> = new Map();
+  private sportCatalogue: SportRegistry = new SportRegistry();
+  private sportsFetchedAt: number | null = null;
+
+  constructor(
+    oddsHistory: OddsHistoryStore = new OddsHistoryStore(),
+    upstream: UpstreamClient = new UpstreamClient(),
+    bookmaker: BookmakerAdapter = new SoccerbetAdapter(upstream)
+  ) {
+    super();
+    this.oddsHistory = oddsHistory;
+    this.upstream = upstream;
+    this.bookmaker = bookmaker;
+    this.closingLines = new ClosingLineService(oddsHistory, this.matchRegistry);
+    this.liveStream = new LiveStreamService(getLiveStreamOptionsFromEnv(), bookmaker);
+  }
+
+  getBookmaker(): { id: string; name: string } {
+    return { id: this.bookmaker.id, name: this.bookmaker.name };
+  }
+
+  /**
+   * Get the bookmaker's sport catalogue, fetched at most every 10 minutes unless refreshed
+   */
+  async getSports(refresh: boolean = false): Promise<SportMapping[]> {
+    if (refresh || this.sportsFetchedAt === null || Date.now() - this.sportsFetchedAt > SPORTS_CACHE_MS) {
+      this.sportCatalogue.load(await this.bookmaker.fetchSports());
+      this.sportsFetchedAt = Date.now();
+    }
+    return this.sportCatalogue.getAll();
+  }
+
+  /**
+   * Find a sport of the catalogue by key, code or name that can be collected in a mode
+   */
+  async resolveSport(value: string, mode?: Mode): Promise<SportMapping> {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new JobRegistryError('Missing sport', 400);
+    }
+
+    await this.getSports();
+    const sport = this.sportCatalogue.resolve(value);
+
+    if (!sport) {
+      throw new JobRegistryError(`Unknown sport: ${value}. See /api/sports for the available sports.`, 400);
+    }
+    if (mode === 'live' ? !sport.activeInLive : !sport.active) {
+      throw new JobRegistryError(`Sport ${sport.key} is not active${mode === 'live' ? ' in live' : ''}`, 400);
+    }
+
+    return sport;
+  }
+
+  /**
+   * Register a job and start it. A job that fails to start stays registered as 'failed'.
+   */
+  async createJob(config: CollectionJobConfig): Promise<CollectionJobInfo> {
+    this.validateConfig(config);
+    const sport = await this.resolveSport(config.sport, config.mode);
+    const validated = this.validateConfig({ ...config, sport: sport.key });
+    const id = this.toJobId(validated.name);
+
+    if (this.jobs.has(id)) {
+      throw new JobRegistryError(`Job ${id} already exists`, 409);
+    }
+
+    const dataService = new DataService(this.oddsHistory, this.upstream, this.bookmaker, this.matchRegistry, this.closingLines, this.liveStream);
+    dataService.getPreGameDiffEngine().on('diff', (diff: PreGameSnapshotDiff) => this.emit('preGameDiff', id, diff));
+
+    this.jobs.set(id, {
+      id,
+      config: validated,
+      dataService,
+      status: 'stopped',
+      error: null,
+      createdAt: new Date(),
+      startedAt: null,
+      stoppedAt: null,
+      starts: 0
+    });
+    console.log(`Created job ${id}: ${validated.mode} ${validated.sport}`);
+
+    return this.startJob(id);
+  }
+
+  /**
+   * Start a job, or restart it with fresh data if it is running
+   */
+  async startJob(id: string): Promise<CollectionJobInfo> {
+    const job = this.getExistingJob(id);
+
+    if (job.status === 'starting') {
+      throw new JobRegistryError(`Job ${id} is already starting`, 409);
+    }
+
+    if (job.status === 'running') {
+      job.dataService.reset();
+    }
+
+    job.status = 'starting';
+    job.error = null;
+    job.starts++;
+
+    try {
+      const { mode, sport, interval } = job.config;
+      await job.dataService.initialize(mode, sport, interval);
+
+      // Deleted or stopped while initializing
+      if (this.jobs.get(id) !== job || job.status !== 'starting') {
+        job.dataService.reset();
+        throw new JobRegistryError(`Job ${id} was stopped while starting`, 409);
+      }
+
+      job.status = 'running';
+      job.startedAt = new Date();
+      job.stoppedAt = null;
+      console.log(`Job ${id} running`);
+    } catch (error) {
+      if (job.status === 'starting') {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Unknown error';
+        job.dataService.reset();
+      }
+      console.error(`Failed to start job ${id}:`, error);
+      throw error;
+    }
+
+    return this.toInfo(job);
+  }
+
+  /**
+   * Stop collecting for a job and drop its data, keeping the job so it can be started again
+   */
+  stopJob(id: string): CollectionJobInfo {
+    const job = this.getExistingJob(id);
+
+    job.dataService.reset();
+    job.status = 'stopped';
+    job.stoppedAt = new Date();
+    console.log(`Job ${id} stopped`);
+    this.emit('jobStopped', id);
+
+    return this.toInfo(job);
+  }
+
+  /**
+   * Change a job's name or pre-game interval. A running job is restarted to apply an interval.
+   */
+  async updateJob(id: string, changes: Partial<Pick<CollectionJobConfig, 'name' | 'interval'>>): Promise<CollectionJobInfo> {
+    const job = this.getExistingJob(id);
+
+    if (changes.interval !== undefined) {
+      if (!isTimeInterval(changes.interval)) {
+        throw new JobRegistryError(`Invalid interval: ${changes.interval}. Expected one of 1min, 10min, 30min, 1hour.`, 400);
+      }
+      if (job.config.mode !== 'pre-game') {
+        throw new JobRegistryError('Only pre-game jobs have a refresh interval', 400);
+      }
+    }
+
+    if (changes.name !== undefined) {
+      if (typeof changes.name !== 'string' || !changes.name.trim()) {
+        throw new JobRegistryError('Invalid job name', 400);
+      }
+      job.config.name = changes.name.trim();
+    }
+
+    if (changes.interval !== undefined && changes.interval !== job.config.interval) {
+      job.config.interval = changes.interval;
+      if (job.status === 'running') {
+        return this.startJob(id);
+      }
+    }
+
+    return this.toInfo(job);
+  }
+
+  /**
+   * Stop a job and remove it
+   */
+  deleteJob(id: string): void {
+    const job = this.getExistingJob(id);
+
+    job.dataService.reset();
+    job.status = 'stopped';
+    this.jobs.delete(id);
+    console.log(`Job ${id} deleted`);
+    this.emit('jobStopped', id);
+  }
+
+  /**
+   * Stop every job, e.g. on shutdown, and wait for the live feed recording to be written out
+   */
+  async stopAll(): Promise<void> {
+    this.jobs.forEach(job => {
+      if (job.status !== 'stopped') {
+        this.stopJob(job.id);
+      }
+    });
+
+    await this.liveStream.closeRecording();
+  }
+
+  getJob(id: string): CollectionJobInfo | null {
+    const job = this.jobs.get(id);
+    return job ? this.toInfo(job) : null;
+  }
+
+  listJobs(): CollectionJobInfo[] {
+    return Array.from(this.jobs.values()).map(job => this.toInfo(job));
+  }
+
+  /**
+   * Get the data of a job, or null if there is no such job
+   */
+  getDataService(id: string): DataService | null {
+    return this.jobs.get(id)?.dataService || null;
+  }
+
+  /**
+   * Find the job collecting a sport in a mode, preferring a running one
+   */
+  findJob(mode: Mode, sport?: Sport): CollectionJobInfo | null {
+    // Codes and names are accepted as well once the catalogue is loaded
+    sport = sport !== undefined ? this.sportCatalogue.resolve(sport)?.key || sport : undefined;
+    const matching = Array.from(this.jobs.values())
+      .filter(job => job.config.mode === mode && (sport === undefined || job.config.sport === sport));
+    const job = matching.find(candidate => candidate.status === 'running') || matching[0];
+    return job ? this.toInfo(job) : null;
+  }
+
+  /**
+   * Get the id a job created with this configuration gets
+   */
+  getJobId(config: Pick<CollectionJobConfig, 'name' | 'mode' | 'sport'>): string {
+    return this.toJobId(config.name || `${config.mode}-${config.sport}`);
+  }
+
+  /**
+   * Get the labelled odds history of a match, labelled with the betting options of the
+   * given job or of any running job
+   */
+  async getOddsHistory(matchId: number, query: OddsHistoryQuery = {}, jobId?: string): Promise<OddsSeries[]> {
+    const job = (jobId ? this.jobs.get(jobId) : undefined) ||
+      Array.from(this.jobs.values()).find(candidate => candidate.status === 'running');
+
+    if (job) {
+      return job.dataService.getOddsHistory(matchId, query);
+    }
+
+    // Without betting options the series are returned without labels
+    return new OddsHistoryService(this.oddsHistory, new SportMappingService()).getMatchHistory(matchId, query);
+  }
+
+  /**
+   * Get the pre-game and live view of a registry fixture from the running jobs that hold its
+   * records, or null if the fixture is unknown
+   */
+  getFixtureView(fixtureId: string, marginMethod?: MarginMethod): FixtureView | null {
+    const fixture = this.matchRegistry.get(fixtureId);
+    if (!fixture) {
+      return null;
+    }
+
+    const running = Array.from(this.jobs.values()).filter(job => job.status === 'running');
+    let preGame: FixtureView['preGame'] = null;
+    let live: FixtureView['live'] = null;
+
+    for (const { config, dataService } of running) {
+      if (!preGame && config.mode === 'pre-game' && fixture.preGameId !== null) {
+        preGame = dataService.getEnhancedPreGameMatches(match => match.id === fixture.preGameId, marginMethod)[0] || null;
+      }
+      if (!live && config.mode === 'live' && fixture.liveId !== null) {
+        live = dataService.getLiveMatch(fixture.liveId, marginMethod);
+      }
+    }
+
+    return { fixture, preGame, live };
+  }
+
+  getMatchRegistry(): MatchRegistry {
+    return this.matchRegistry;
+  }
+
+  getClosingLines(): ClosingLineService {
+    return this.closingLines;
+  }
+
+  getUpstreamStatus(): UpstreamStatus {
+    return this.upstream.getStatus();
+  }
+
+  getOddsHistoryStore(): OddsHistoryStore {
+    return this.oddsHistory;
+  }
+
+  private getExistingJob(id: string): CollectionJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new JobRegistryError(`Job ${id} not found`, 404);
+    }
+    return job;
+  }
+
+  private validateConfig(config: CollectionJobConfig): CollectionJobConfig & { name: string } {
+    if (!config || !MODES.includes(config.mode)) {
+      throw new JobRegistryError(`Invalid mode: ${config?.mode}. Expected live or pre-game.`, 400);
+    }
+    if (typeof config.sport !== 'string' || !config.sport.trim()) {
+      throw new JobRegistryError('Missing sport', 400);
+    }
+    if (config.interval !== undefined && !isTimeInterval(config.interval)) {
+      throw new JobRegistryError(`Invalid interval: ${config.interval}. Expected one of 1min, 10min, 30min, 1hour.`, 400);
+    }
+    if (config.name !== undefined && (typeof config.name !== 'string' || !this.toJobId(config.name))) {
+      throw new JobRegistryError('Invalid job name', 400);
+    }
+
+    return {
+      name: config.name?.trim() || `${config.mode}-${config.sport}`,
+      mode: config.mode,
+      sport: config.sport,
+      interval: config.mode === 'pre-game' ? config.interval || '1min' : undefined
+    };
+  }
+
+  /**
+   * Turn a job name into a URL friendly id, e.g. "Live Football" -> "live-football"
+   */
+  private toJobId(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private toInfo(job: CollectionJob): CollectionJobInfo {
+    const { dataService } = job;
+    const isLive = job.config.mode === 'live';
+    const isActive = job.status === 'running';
+
+    return {
+      id: job.id,
+      name: job.config.name,
+      mode: job.config.mode,
+      sport: job.config.sport,
+      interval: job.config.interval || null,
+      status: job.status,
+      error: job.error,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+      stoppedAt: job.stoppedAt ? job.stoppedAt.toISOString() : null,
+      starts: job.starts,
+      matches: !isActive ? 0 : isLive
+        ? dataService.getFilteredLiveHeadersBySport().length
+        : dataService.getPreGameData()?.matches.length || 0,
+      isStreaming: isLive && dataService.isLiveStreaming(),
+      connection: isLive && isActive ? dataService.getLiveConnectionStats() : null,
+      refresh: dataService.getPreGameRefreshStatus()
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LabelRenderer, parseSpecifiers, renderTemplate } from './labelRenderer';
+import { toBetCatalogue } from './soccerbetAdapter';
+import { BettingOptionsResponse } from './soccerbetApi';
+import bettingOptionsFixture from '../mock/fixtures/bettingOptions.json';
+
+const catalogue = toBetCatalogue(bettingOptionsFixture as unknown as BettingOptionsResponse);
+const renderer = new LabelRenderer();
+renderer.load(catalogue);
+
+const total = parseSpecifiers('total=2.5');
+const quarterTotal = parseSpecifiers('quarternr=2,total=40.5');
+
+test('parses the specifiers of a special value', () => {
+  assert.deepEqual(quarterTotal, { quarternr: '2', total: '40.5' });
+  assert.deepEqual(parseSpecifiers('setnr=1|variant=way:3=1'), { setnr: '1', variant: 'way:3=1' });
+  assert.deepEqual(parseSpecifiers(' hcp = -1.5 ,=3,junk'), { hcp: '-1.5' });
+  assert.deepEqual(parseSpecifiers(''), {});
+  assert.deepEqual(parseSpecifiers(null), {});
+});
+
+test('renders each placeholder modifier', () => {
+  assert.equal(renderTemplate('{hcp} {!hcp} {+hcp} {-hcp}', { hcp: '-1.5' }), '-1.5 -1.5 -1.5 +1.5');
+  assert.equal(renderTemplate('{+hcp} {-hcp}', { hcp: '1.5' }), '+1.5 -1.5');
+  assert.equal(renderTemplate('{+hcp}', { hcp: '0' }), '0');
+  assert.equal(renderTemplate('{+hcp}', { hcp: 'draw' }), 'draw');
+  assert.equal(renderTemplate('Više od {!total} golova {!missing}', total), 'Više od 2.5 golova {!missing}');
+});
+
+test('renders market names and appends the display specifiers they do not show', () => {
+  assert.equal(renderer.renderMarketName(1, {}), 'Konačan ishod');
+  assert.equal(renderer.renderMarketName(2, total), 'Ukupno golova 2.5');
+  assert.equal(renderer.renderMarketName(3, parseSpecifiers('hcp=-1.5')), 'Hendikep -1.5');
+  assert.equal(renderer.renderMarketName(12, quarterTotal), 'Ukupno poena u 2. četvrtini 40.5');
+  assert.equal(renderer.renderMarketName(22, parseSpecifiers('setnr=2')), 'Pobednik 2. seta');
+
+  // Bets without specifiers show none, and unknown bet codes have no name
+  assert.equal(renderer.renderMarketName(4, total), 'Dupla šansa');
+  assert.equal(renderer.renderMarketName(99, total), null);
+});
+
+test('renders group headers with their specifiers', () => {
+  assert.deepEqual(renderer.renderGroup(101, {}), { name: 'Konačan ishod', description: 'Konačan ishod' });
+  assert.deepEqual(renderer.renderGroup(102, total), { name: 'Ukupno golova 2.5', description: 'Ukupno golova na meču 2.5' });
+  assert.deepEqual(renderer.renderGroup(302, quarterTotal), { name: '2. četvrtina - ukupno 40.5', description: 'Ukupno poena u 2. četvrtini 40.5' });
+
+  // Unknown groups render the fallback templates as they are
+  assert.deepEqual(renderer.renderGroup(999, total, { name: 'Golovi {!total}', description: null }), { name: 'Golovi 2.5', description: null });
+  assert.deepEqual(renderer.renderGroup(null, total), { name: null, description: null });
+});
+
+test('renders pick labels and captions', () => {
+  const pick = (key: string, specifiers: Record<string, string>, groupId: number | null) =>
+    renderer.renderPick(catalogue.picks[key].label, catalogue.picks[key].caption, groupId, specifiers);
+
+  assert.deepEqual(pick('1_S', {}, 101), { label: 'Domaćin pobeđuje', caption: '1' });
+  assert.deepEqual(pick('4_S', total, 102), { label: 'Manje od 2.5 golova', caption: '-2.5' });
+  assert.deepEqual(pick('7_S', parseSpecifiers('hcp=-1.5'), 103), { label: 'Gost pobeđuje sa hendikepom -1.5', caption: 'H2' });
+  assert.deepEqual(pick('8_T', parseSpecifiers('setnr=2'), 202), { label: 'Prvi igrač osvaja 2. set', caption: '1' });
+
+  // A group showing its specifiers in the header leaves them out of the caption
+  assert.deepEqual(pick('5_B', quarterTotal, 302), { label: 'Više od 40.5 poena u 2. četvrtini', caption: '+' });
+});
+
+test('appends the specifiers to the captions of groups showing them with the picks', () => {
+  const withPicks = new LabelRenderer();
+  withPicks.load({ ...catalogue, groups: { ...catalogue.groups, 302: { ...catalogue.groups[302], specialValuePosition: 'PICK' } } });
+
+  assert.deepEqual(withPicks.renderPick('Više od {!total} poena', '+', 302, quarterTotal), { label: 'Više od 40.5 poena', caption: '+ 2 40.5' });
+  assert.equal(withPicks.renderGroup(302, quarterTotal).name, '2. četvrtina - ukupno 40.5');
+});
@@ -0,0 +1,143 @@
+import { BetCatalogue, BetTypeDefinition, BetGroupDefinition } from '../types/bookmakerTypes';
+import { MarketSpecifiers } from '../types/marketTypes';
+
+// {!key} and {key} insert the value, {+key} the signed value and {-key} the negated signed value
+const PLACEHOLDER_PATTERN = /\{([!+-]?)([A-Za-z_][\w.:]*)\}/g;
+
+// specialValuePosition of groups that show their specifier values in the header
+const HEADER_POSITION = 'HEADER';
+const NO_POSITION = 'NONE';
+
+/**
+ * Parse a bet's `sv` field, e.g. "quarternr=2,total=18.5", into its specifiers.
+ * Pairs are separated by commas or pipes; a value may itself contain '='.
+ */
+export function parseSpecifiers(sv: string | null | undefined): MarketSpecifiers {
+  const specifiers: MarketSpecifiers = {};
+
+  if (!sv) {
+    return specifiers;
+  }
+
+  sv.split(/[,|]/).forEach(param => {
+    const separator = param.indexOf('=');
+    const key = separator > 0 ? param.slice(0, separator).trim() : '';
+    if (key) {
+      specifiers[key] = param.slice(separator + 1).trim();
+    }
+  });
+
+  return specifiers;
+}
+
+/**
+ * Substitute the placeholders of a template. Placeholders without a specifier are kept.
+ */
+export function renderTemplate(template: string, specifiers: MarketSpecifiers): string {
+  return renderWithKeys(template, specifiers).text;
+}
+
+function renderWithKeys(template: string, specifiers: MarketSpecifiers): { text: string; keys: Set<string> } {
+  const keys = new Set<string>();
+
+  const text = template.replace(PLACEHOLDER_PATTERN, (placeholder, modifier: string, key: string) => {
+    const value = specifiers[key];
+    if (value === undefined) {
+      return placeholder;
+    }
+
+    keys.add(key);
+    return modifier === '+' || modifier === '-' ? formatSigned(value, modifier === '-') : value;
+  });
+
+  return { text, keys };
+}
+
+/**
+ * Format a number with its sign, e.g. "1.5" -> "+1.5"; non-numeric values are returned as is
+ */
+function formatSigned(value: string, negate: boolean): string {
+  const number = Number(value);
+  if (value === '' || !Number.isFinite(number)) {
+    return value;
+  }
+
+  const signed = negate ? -number : number;
+  return signed > 0 ? `+${signed}` : `${signed}`;
+}
+
+function splitKeys(displaySpecifiers: string | null | undefined): string[] {
+  return (displaySpecifiers || '').split(',').map(key => key.trim()).filter(Boolean);
+}
+
+/**
+ * Renders market, group and pick labels of the bet catalogue with the specifiers of a bet.
+ *
+ * Besides substituting placeholders, the values of the display specifiers a template does not
+ * show itself are appended where the catalogue says they belong: to the market name when
+ * its bet uses specifiers, to the group name and description of groups showing them in the
+ * header, and to the pick caption of groups showing them with the picks.
+ */
+export class LabelRenderer {
+  private betTypes: Record<string, BetTypeDefinition> = {};
+  private groups: Map<number, BetGroupDefinition> = new Map();
+
+  load(bets: BetCatalogue): void {
+    this.betTypes = bets.betTypes || {};
+    this.groups = new Map(Object.values(bets.groups || {}).map(group => [group.id, group]));
+  }
+
+  /**
+   * Render the caption of a bet code, or null if the bet code is unknown
+   */
+  renderMarketName(betCode: number, specifiers: MarketSpecifiers): string | null {
+    const bet = this.betTypes[betCode];
+    if (!bet) {
+      return null;
+    }
+
+    return this.renderWithDisplaySpecifiers(bet.caption, specifiers, bet.useSpecifiers ? bet.displaySpecifiers : null);
+  }
+
+  /**
+   * Render the name and description of a group, falling back to the given templates for unknown groups
+   */
+  renderGroup(
+    groupId: number | null,
+    specifiers: MarketSpecifiers,
+    fallback: { name: string | null; description: string | null } = { name: null, description: null }
+  ): { name: string | null; description: string | null } {
+    const group = groupId !== null ? this.groups.get(groupId) : undefined;
+    const name = group?.name ?? fallback.name;
+    const description = group?.description ?? fallback.description;
+    const displaySpecifiers = group?.specialValuePosition === HEADER_POSITION ? group.displaySpecifiers : null;
+
+    return {
+      name: name !== null ? this.renderWithDisplaySpecifiers(name, specifiers, displaySpecifiers) : null,
+      description: description !== null ? this.renderWithDisplaySpecifiers(description, specifiers, displaySpecifiers) : null
+    };
+  }
+
+  /**
+   * Render the label and caption of a pick of a group
+   */
+  renderPick(label: string, caption: string, groupId: number | null, specifiers: MarketSpecifiers): { label: string; caption: string } {
+    const group = groupId !== null ? this.groups.get(groupId) : undefined;
+    const position = group?.specialValuePosition || NO_POSITION;
+    const showWithPick = position !== NO_POSITION && position !== HEADER_POSITION;
+
+    return {
+      label: renderTemplate(label, specifiers),
+      caption: this.renderWithDisplaySpecifiers(caption, specifiers, showWithPick ? group!.displaySpecifiers : null)
+    };
+  }
+
+  private renderWithDisplaySpecifiers(template: string, specifiers: MarketSpecifiers, displaySpecifiers: string | null | undefined): string {
+    const { text, keys } = renderWithKeys(template, specifiers);
+    const missing = splitKeys(displaySpecifiers)
+      .filter(key => !keys.has(key) && specifiers[key] !== undefined)
+      .map(key => specifiers[key]);
+
+    return missing.length > 0 ? `${text} ${missing.join(' ')}` : text;
+  }
+}
@@ -1,23 +1,7 @@
-import { LiveHeader, LiveBet, LiveSport } from '../types/liveTypes';
+import { LiveHeader, LiveBet, LiveSport, LiveResult, LiveScore, LiveScoreValue, LivePeriodScore } from '../types/liveTypes';
+import { Sport } from '../types';
 
 export class LiveDataUtils {
-  /**
-   * Filter live headers by sport
-   */
-  static filterHeadersBySport(headers: LiveHeader[], sport: 'football' | 'tennis' | 'basketball'): LiveHeader[] {
-    const sportCodeMap = {
-      'football': ['FB', 'SF'], // Football and Special Football
-      'tennis': ['T'], // Tennis
-      'basketball': ['V'] // Basketball
-    };
-
-    const allowedCodes = sportCodeMap[sport] || [];
-    
-    return headers.filter(header => 
-      allowedCodes.includes(header.s) && header.liv // Only show in live
-    );
-  }
-
   /**
    * Filter live bets by match ID
    */
@@ -112,20 +96,6 @@ export class LiveDataUtils {
     return grouped;
   }
 
-  /**
-   * Get sport name from sport code
-   */
-  static getSportName(sportCode: string): string {
-    const sportMap: Record<string, string> = {
-      'FB': 'Football',
-      'SF': 'Special Football',
-      'T': 'Tennis',
-      'V': 'Basketball'
-    };
-    
-    return sportMap[sportCode] || sportCode;
-  }
-
   /**
    * Check if match is currently live
    */
@@ -168,6 +138,75 @@ export class LiveDataUtils {
     return Array.from(leagues.values());
   }
 
+  /**
+   * Convert a raw live result into a typed score for the given sport
+   */
+  static normalizeLiveResult(result: LiveResult, sport: Sport): LiveScore {
+    const current = LiveDataUtils.parseScoreValue(result.cs);
+    const periods = LiveDataUtils.parsePeriodScores(result.ps);
+    const game = LiveDataUtils.parseScoreValue(result.gs);
+    const minute = result.mt !== undefined ? parseInt(String(result.mt), 10) : NaN;
+    
+    return {
+      matchId: result.mId,
+      home: current ? Number(current.home) : null,
+      away: current ? Number(current.away) : null,
+      periods,
+      currentPeriod: result.cp || null,
+      matchMinute: sport === 'football' && !isNaN(minute) ? minute : null,
+      set: sport === 'tennis' && periods.length > 0 ? periods.length : null,
+      game: sport === 'tennis' && game ? game : null,
+      server: sport === 'tennis' && result.srv ? (result.srv === 1 ? 'home' : 'away') : null,
+      quarter: sport === 'basketball' && periods.length > 0 ? periods.length : null,
+      updatedAt: result.lct || null
+    };
+  }
+
+  /**
+   * Parse a score given as "2:1", "2-1", [2, 1] or { h, a }
+   */
+  private static parseScoreValue(value: LiveScoreValue | undefined): { home: string; away: string } | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    
+    if (typeof value === 'string') {
+      const parts = value.trim().split(/[:\-]/);
+      return parts.length === 2 ? { home: parts[0].trim(), away: parts[1].trim() } : null;
+    }
+    
+    if (Array.isArray(value)) {
+      return value.length === 2 ? { home: String(value[0]), away: String(value[1]) } : null;
+    }
+    
+    const home = value.h ?? value.home;
+    const away = value.a ?? value.away;
+    return home !== undefined && away !== undefined ? { home: String(home), away: String(away) } : null;
+  }
+
+  /**
+   * Parse period scores given as a list or as a "1:0, 0:1" string
+   */
+  private static parsePeriodScores(value: LiveResult['ps']): LivePeriodScore[] {
+    if (!value) {
+      return [];
+    }
+    
+    const values = typeof value === 'string'
+      ? value.replace(/[()]/g, '').split(/[,;]/).filter(part => part.trim())
+      : value;
+    
+    const periods: LivePeriodScore[] = [];
+    values.forEach((periodValue, index) => {
+      const score = LiveDataUtils.parseScoreValue(periodValue);
+      if (score && !isNaN(Number(score.home)) && !isNaN(Number(score.away))) {
+        periods.push({ period: index + 1, home: Number(score.home), away: Number(score.away) });
+      }
+    });
+    
+    return periods;
+  }
+
   /**
    * Get sport statistics from live sports data
    */
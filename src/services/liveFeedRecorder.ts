@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+
+// The two upstream connections of the live feed
+export type LiveFeedStreamName = 'events' | 'subscribe';
+
+// One line of a recording file. Chunks are base64 so split UTF-8 sequences survive unchanged.
+export interface LiveFeedRecordEntry {
+  t: number; // arrival time, ms since epoch
+  stream: LiveFeedStreamName;
+  type: 'open' | 'chunk' | 'end';
+  url?: string; // open only
+  data?: string; // chunk only, base64
+}
+
+/**
+ * Writes the raw live feed connections to a JSON lines file with arrival timestamps
+ */
+export class LiveFeedRecorder {
+  private readonly filePath: string;
+  private output: fs.WriteStream;
+  private closed: boolean = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.output = fs.createWriteStream(filePath, { flags: 'a' });
+    console.log(`Recording live feed to: ${filePath}`);
+  }
+
+  /**
+   * Record everything read from a connection until it ends
+   */
+  attach(stream: LiveFeedStreamName, url: string, source: Readable): void {
+    this.write({ t: Date.now(), stream, type: 'open', url });
+
+    source.on('data', (chunk: Buffer) => {
+      this.write({ t: Date.now(), stream, type: 'chunk', data: Buffer.from(chunk).toString('base64') });
+    });
+
+    source.on('close', () => {
+      this.write({ t: Date.now(), stream, type: 'end' });
+    });
+  }
+
+  /**
+   * Stop recording and close the file, resolving once everything is written
+   */
+  close(): Promise<void> {
+    this.closed = true;
+    return new Promise(resolve => {
+      this.output.end(() => {
+        console.log(`Live feed recording closed: ${this.filePath}`);
+        resolve();
+      });
+    });
+  }
+
+  private write(entry: LiveFeedRecordEntry): void {
+    // Connections aborted by the stop that closed the file report their end too late
+    if (this.closed) return;
+    this.output.write(JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Plays a recording back as readable streams, one recorded connection at a time.
+ *
+ * `speed` scales the recorded gaps between chunks: 1 is real time, 10 is ten times
+ * faster and 0 replays without any delay.
+ */
+export class LiveFeedReplayer {
+  private readonly filePath: string;
+  private readonly speed: number;
+  private connections: Record<LiveFeedStreamName, LiveFeedRecordEntry[][]> = { events: [], subscribe: [] };
+  private cursors: Record<LiveFeedStreamName, number> = { events: 0, subscribe: 0 };
+
+  constructor(filePath: string, speed: number = 1) {
+    this.filePath = filePath;
+    this.speed = speed;
+    this.load();
+  }
+
+  /**
+   * Open the next recorded connection of a stream, or return null when none are left
+   */
+  openStream(stream: LiveFeedStreamName, signal?: AbortSignal): Readable | null {
+    const connection = this.connections[stream][this.cursors[stream]];
+    if (!connection) {
+      return null;
+    }
+    this.cursors[stream]++;
+
+    const output = new PassThrough();
+    const chunks = connection.filter(entry => entry.type === 'chunk');
+    let timer: NodeJS.Timeout | null = null;
+    let index = 0;
+
+    const pushNext = () => {
+      if (index >= chunks.length) {
+        output.end();
+        return;
+      }
+
+      const entry = chunks[index++];
+      output.write(Buffer.from(entry.data || '', 'base64'));
+
+      const next = chunks[index];
+      const delay = next && this.speed > 0 ? (next.t - entry.t) / this.speed : 0;
+      timer = setTimeout(pushNext, delay);
+    };
+
+    signal?.addEventListener('abort', () => {
+      if (timer) clearTimeout(timer);
+      const error = new Error('Replay aborted');
+      error.name = 'AbortError';
+      output.destroy(error);
+    });
+
+    // Start after listeners had a chance to attach
+    const firstDelay = chunks[0] && this.speed > 0 ? (chunks[0].t - connection[0].t) / this.speed : 0;
+    timer = setTimeout(pushNext, firstDelay);
+
+    return output;
+  }
+
+  /**
+   * Get the raw chunks of every recorded connection of a stream, without timing
+   */
+  getRecordedChunks(stream: LiveFeedStreamName): Buffer[][] {
+    return this.connections[stream].map(connection =>
+      connection
+        .filter(entry => entry.type === 'chunk')
+        .map(entry => Buffer.from(entry.data || '', 'base64'))
+    );
+  }
+
+  /**
+   * Check if every recorded connection has been opened
+   */
+  isFinished(): boolean {
+    return this.cursors.events >= this.connections.events.length &&
+      this.cursors.subscribe >= this.connections.subscribe.length;
+  }
+
+  /**
+   * Split the recording into connections per stream
+   */
+  private load(): void {
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    const open: Partial<Record<LiveFeedStreamName, LiveFeedRecordEntry[]>> = {};
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: LiveFeedRecordEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        console.warn(`Skipping malformed recording line in ${this.filePath}`);
+        continue;
+      }
+
+      if (entry.type === 'open') {
+        open[entry.stream] = [entry];
+        this.connections[entry.stream].push(open[entry.stream]!);
+      } else if (open[entry.stream]) {
+        open[entry.stream]!.push(entry);
+        if (entry.type === 'end') {
+          delete open[entry.stream];
+        }
+      }
+    }
+
+    console.log(`Loaded live feed recording ${this.filePath}: ${this.connections.events.length} events and ${this.connections.subscribe.length} subscribe connections (speed ${this.speed}x)`);
+  }
+}
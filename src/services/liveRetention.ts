@@ -0,0 +1,126 @@
+import { LiveStore } from './liveStore';
+import { EvictedLiveMatch, LiveEvictionReason, LiveEvictionStats } from '../types/liveTypes';
+
+export interface LiveRetentionOptions {
+  idleEvictionMs: number; // evict matches the feed has not mentioned for this long, 0 disables
+  terminalGraceMs: number; // keep finished matches this long after their last change
+  terminalStatuses: string[]; // `ls` values of finished matches
+  archiveEvicted: boolean; // write evicted matches to the history directory
+}
+
+const DEFAULT_IDLE_EVICTION_MINUTES = 30;
+const DEFAULT_TERMINAL_GRACE_SECONDS = 60;
+const DEFAULT_TERMINAL_STATUSES = ['FT', 'FINISHED', 'ENDED', 'AET', 'AP', 'CANCELED', 'CANCELLED', 'ABANDONED', 'INTERRUPTED', 'WALKOVER'];
+
+/**
+ * Read the retention policy from LIVE_IDLE_EVICTION_MINUTES, LIVE_TERMINAL_GRACE_SECONDS,
+ * LIVE_TERMINAL_STATUSES (comma separated) and LIVE_ARCHIVE_EVICTED
+ */
+export function getLiveRetentionOptionsFromEnv(): LiveRetentionOptions {
+  const readNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    idleEvictionMs: readNumber('LIVE_IDLE_EVICTION_MINUTES', DEFAULT_IDLE_EVICTION_MINUTES) * 60 * 1000,
+    terminalGraceMs: readNumber('LIVE_TERMINAL_GRACE_SECONDS', DEFAULT_TERMINAL_GRACE_SECONDS) * 1000,
+    terminalStatuses: process.env.LIVE_TERMINAL_STATUSES
+      ? process.env.LIVE_TERMINAL_STATUSES.split(',').map(status => status.trim()).filter(Boolean)
+      : DEFAULT_TERMINAL_STATUSES,
+    archiveEvicted: process.env.LIVE_ARCHIVE_EVICTED === 'true'
+  };
+}
+
+/**
+ * Decides which live matches are finished or abandoned by the feed and removes them from the store
+ */
+export class LiveRetention {
+  private readonly options: LiveRetentionOptions;
+  private readonly terminalStatuses: Set<string>;
+  private stats: Omit<LiveEvictionStats, 'idleEvictionMinutes' | 'terminalGraceSeconds' | 'terminalStatuses' | 'archiveEvicted'>;
+
+  constructor(options: LiveRetentionOptions = getLiveRetentionOptionsFromEnv()) {
+    this.options = options;
+    this.terminalStatuses = new Set(options.terminalStatuses.map(status => status.toUpperCase()));
+    this.stats = this.createStats();
+  }
+
+  /**
+   * Remove every match that is due for eviction and return the removed matches
+   */
+  sweep(store: LiveStore, now: number = Date.now()): EvictedLiveMatch[] {
+    const evicted: EvictedLiveMatch[] = [];
+
+    for (const matchId of store.getMatchIds()) {
+      const lastSeenAt = store.getLastSeenAt(matchId) ?? now;
+      const reason = this.getEvictionReason(store, matchId, now - lastSeenAt);
+      if (!reason) continue;
+
+      const removed = store.removeMatch(matchId);
+      evicted.push({ matchId, reason, evictedAt: now, lastSeenAt, ...removed });
+
+      this.stats.evictedMatches++;
+      this.stats.evictedBets += removed.bets.length;
+      this.stats.evictedByReason[reason]++;
+    }
+
+    this.stats.sweeps++;
+    this.stats.lastSweepAt = new Date(now).toISOString();
+    if (evicted.length > 0) {
+      this.stats.lastEvictionAt = this.stats.lastSweepAt;
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Check if a live status means the match is over
+   */
+  isTerminalStatus(status: string | null | undefined): boolean {
+    return !!status && this.terminalStatuses.has(status.toUpperCase());
+  }
+
+  shouldArchive(): boolean {
+    return this.options.archiveEvicted;
+  }
+
+  getStats(): LiveEvictionStats {
+    return {
+      idleEvictionMinutes: this.options.idleEvictionMs / 60000,
+      terminalGraceSeconds: this.options.terminalGraceMs / 1000,
+      terminalStatuses: Array.from(this.terminalStatuses),
+      archiveEvicted: this.options.archiveEvicted,
+      ...this.stats,
+      evictedByReason: { ...this.stats.evictedByReason }
+    };
+  }
+
+  /**
+   * Forget the counters, e.g. when a new live session starts
+   */
+  resetStats(): void {
+    this.stats = this.createStats();
+  }
+
+  private getEvictionReason(store: LiveStore, matchId: number, idleMs: number): LiveEvictionReason | null {
+    if (this.isTerminalStatus(store.getHeader(matchId)?.ls) && idleMs >= this.options.terminalGraceMs) {
+      return 'terminal';
+    }
+    if (this.options.idleEvictionMs > 0 && idleMs >= this.options.idleEvictionMs) {
+      return 'idle';
+    }
+    return null;
+  }
+
+  private createStats() {
+    return {
+      sweeps: 0,
+      evictedMatches: 0,
+      evictedBets: 0,
+      evictedByReason: { terminal: 0, idle: 0 } as Record<LiveEvictionReason, number>,
+      lastSweepAt: null as string | null,
+      lastEvictionAt: null as string | null
+    };
+  }
+}
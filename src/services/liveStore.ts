@@ -0,0 +1,196 @@
+import { LiveHeader, LiveBet, LiveResult } from '../types/liveTypes';
+
+/**
+ * In-memory live feed state indexed by match id and bet id.
+ *
+ * Merging an update touches only the records it contains and the bets of a match are
+ * found without scanning all bets. Each match remembers when the feed last mentioned it
+ * (local time), so inactive matches can be evicted, and every record keeps the change version
+ * it was merged with, so changes can be served since a token. The arrays returned by `getHeaders`,
+ * `getBets` and `getResults` are shared and rebuilt only after a change, so callers must
+ * not modify them.
+ */
+export class LiveStore {
+  private headers: Map<number, LiveHeader> = new Map();
+  private bets: Map<number, LiveBet> = new Map();
+  private betIdsByMatch: Map<number, Set<number>> = new Map();
+  private results: Map<number, LiveResult> = new Map();
+  private lastSeenAt: Map<number, number> = new Map();
+  private headerVersions: Map<number, number> = new Map();
+  private betVersions: Map<number, number> = new Map();
+  private resultVersions: Map<number, number> = new Map();
+  private headerList: LiveHeader[] | null = null;
+  private betList: LiveBet[] | null = null;
+  private resultList: LiveResult[] | null = null;
+
+  /**
+   * Replace the whole state with a snapshot
+   */
+  load(headers: LiveHeader[], bets: LiveBet[], results: LiveResult[], version: number): void {
+    this.clear();
+    this.upsertHeaders(headers, version);
+    this.upsertBets(bets, version);
+    this.upsertResults(results, version);
+  }
+
+  /**
+   * Merge headers into the existing ones by match id
+   */
+  upsertHeaders(headers: LiveHeader[], version: number): void {
+    for (const header of headers) {
+      const existing = this.headers.get(header.id);
+      this.headers.set(header.id, existing ? { ...existing, ...header } : header);
+      this.headerVersions.set(header.id, version);
+      this.lastSeenAt.set(header.id, Date.now());
+    }
+    if (headers.length > 0) this.headerList = null;
+  }
+
+  /**
+   * Merge bets into the existing ones by bet id
+   */
+  upsertBets(bets: LiveBet[], version: number): void {
+    for (const bet of bets) {
+      const existing = this.bets.get(bet.id);
+      const merged = existing ? { ...existing, ...bet } : bet;
+      this.bets.set(bet.id, merged);
+      this.betVersions.set(bet.id, version);
+
+      if (existing && existing.mId !== merged.mId) {
+        this.betIdsByMatch.get(existing.mId)?.delete(bet.id);
+      }
+      if (!this.betIdsByMatch.has(merged.mId)) {
+        this.betIdsByMatch.set(merged.mId, new Set());
+      }
+      this.betIdsByMatch.get(merged.mId)!.add(bet.id);
+      this.lastSeenAt.set(merged.mId, Date.now());
+    }
+    if (bets.length > 0) this.betList = null;
+  }
+
+  /**
+   * Merge results into the existing ones, one result per match
+   */
+  upsertResults(results: LiveResult[], version: number): void {
+    for (const result of results) {
+      const existing = this.results.get(result.mId);
+      this.results.set(result.mId, existing ? { ...existing, ...result } : result);
+      this.resultVersions.set(result.mId, version);
+      this.lastSeenAt.set(result.mId, Date.now());
+    }
+    if (results.length > 0) this.resultList = null;
+  }
+
+  /**
+   * Remove a match with its header, bets and result, and return what was removed
+   */
+  removeMatch(matchId: number): { header: LiveHeader | null; result: LiveResult | null; bets: LiveBet[] } {
+    const removed = {
+      header: this.headers.get(matchId) || null,
+      result: this.results.get(matchId) || null,
+      bets: this.getBetsForMatch(matchId)
+    };
+
+    this.headers.delete(matchId);
+    this.results.delete(matchId);
+    this.headerVersions.delete(matchId);
+    this.resultVersions.delete(matchId);
+    removed.bets.forEach(bet => {
+      this.bets.delete(bet.id);
+      this.betVersions.delete(bet.id);
+    });
+    this.betIdsByMatch.delete(matchId);
+    this.lastSeenAt.delete(matchId);
+
+    if (removed.header) this.headerList = null;
+    if (removed.result) this.resultList = null;
+    if (removed.bets.length > 0) this.betList = null;
+
+    return removed;
+  }
+
+  /**
+   * Get the ids of all matches with a header, bets or a result
+   */
+  getMatchIds(): number[] {
+    return Array.from(this.lastSeenAt.keys());
+  }
+
+  /**
+   * Get when the feed last mentioned a match, in ms since epoch
+   */
+  getLastSeenAt(matchId: number): number | undefined {
+    return this.lastSeenAt.get(matchId);
+  }
+
+  /**
+   * Get the change version a header was last merged with, 0 if unknown
+   */
+  getHeaderVersion(matchId: number): number {
+    return this.headerVersions.get(matchId) || 0;
+  }
+
+  getBetVersion(betId: number): number {
+    return this.betVersions.get(betId) || 0;
+  }
+
+  getResultVersion(matchId: number): number {
+    return this.resultVersions.get(matchId) || 0;
+  }
+
+  getHeader(matchId: number): LiveHeader | undefined {
+    return this.headers.get(matchId);
+  }
+
+  getBet(betId: number): LiveBet | undefined {
+    return this.bets.get(betId);
+  }
+
+  getResult(matchId: number): LiveResult | undefined {
+    return this.results.get(matchId);
+  }
+
+  /**
+   * Get the bets of one match
+   */
+  getBetsForMatch(matchId: number): LiveBet[] {
+    const betIds = this.betIdsByMatch.get(matchId);
+    if (!betIds) {
+      return [];
+    }
+    return Array.from(betIds, betId => this.bets.get(betId)!);
+  }
+
+  getHeaders(): LiveHeader[] {
+    if (!this.headerList) this.headerList = Array.from(this.headers.values());
+    return this.headerList;
+  }
+
+  getBets(): LiveBet[] {
+    if (!this.betList) this.betList = Array.from(this.bets.values());
+    return this.betList;
+  }
+
+  getResults(): LiveResult[] {
+    if (!this.resultList) this.resultList = Array.from(this.results.values());
+    return this.resultList;
+  }
+
+  getCounts(): { headers: number; bets: number; results: number } {
+    return { headers: this.headers.size, bets: this.bets.size, results: this.results.size };
+  }
+
+  clear(): void {
+    this.headers.clear();
+    this.bets.clear();
+    this.betIdsByMatch.clear();
+    this.results.clear();
+    this.lastSeenAt.clear();
+    this.headerVersions.clear();
+    this.betVersions.clear();
+    this.resultVersions.clear();
+    this.headerList = null;
+    this.betList = null;
+    this.resultList = null;
+  }
+}
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough, Readable } from 'stream';
+import { LiveStreamService } from './liveStreamService';
+import { LiveFeedSource, LiveFeedConnection } from './bookmakerAdapter';
+import { FakeBookmakerAdapter } from '../mock/fakeBookmakerAdapter';
+import { FixtureFeed } from '../mock/fixtureFeed';
+
+/**
+ * Poll until a condition holds, failing after the timeout
+ */
+async function waitFor(condition: () => boolean, timeoutMs: number = 10000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+test('retries a reconnect whose subscribe request is never answered', async () => {
+  const adapter = new FakeBookmakerAdapter(new FixtureFeed(20));
+  let subscribes = 0;
+
+  // The first subscription ends at once and the request resuming it hangs until aborted
+  const feed: LiveFeedSource = {
+    decodeLiveFeed: (connection, stream, handlers) => adapter.decodeLiveFeed(connection, stream, handlers),
+    openLiveFeed: (connection, position, signal) => {
+      if (connection === 'subscribe' && ++subscribes <= 2) {
+        return subscribes === 1
+          ? Promise.resolve({ url: 'fixture://ended', stream: Readable.from([]) })
+          : new Promise<LiveFeedConnection>((resolve, reject) => signal.addEventListener('abort', () => {
+            const error = new Error('Aborted');
+            error.name = 'AbortError';
+            reject(error);
+          }));
+      }
+      return adapter.openLiveFeed(connection, position, signal);
+    }
+  };
+
+  const liveStream = new LiveStreamService({ reconnectBaseDelayMs: 50, stallTimeoutMs: 1000 }, feed);
+
+  try {
+    await liveStream.initializeLiveEvents();
+    await liveStream.startLiveSubscription();
+
+    await waitFor(() => subscribes >= 3 && liveStream.getConnectionStats().connected);
+    const stats = liveStream.getConnectionStats();
+    assert.equal(stats.stalls, 1);
+    assert.match(stats.lastError || '', /unanswered/);
+  } finally {
+    liveStream.stopLiveSubscription();
+  }
+});
+
+test('retries a resync whose snapshot stalls partway', async () => {
+  const adapter = new FakeBookmakerAdapter(new FixtureFeed(20));
+  let snapshots = 0;
+  let subscribes = 0;
+
+  // The first subscription ends at once, and the snapshot reloaded after it stops after one line
+  const feed: LiveFeedSource = {
+    decodeLiveFeed: (connection, stream, handlers) => adapter.decodeLiveFeed(connection, stream, handlers),
+    openLiveFeed: async (connection, position, signal) => {
+      if (connection === 'subscribe' && ++subscribes === 1) {
+        return { url: 'fixture://ended', stream: Readable.from([]) };
+      }
+      if (connection === 'events' && ++snapshots === 2) {
+        const stream = new PassThrough();
+        stream.write(JSON.stringify({ batch: { sports: [], matches: [], markets: [], scores: [] } }) + '\n');
+        signal.addEventListener('abort', () => {
+          const error = new Error('Aborted');
+          error.name = 'AbortError';
+          stream.destroy(error);
+        });
+        return { url: 'fixture://stalled', stream };
+      }
+      return adapter.openLiveFeed(connection, position, signal);
+    }
+  };
+
+  const liveStream = new LiveStreamService({ reconnectBaseDelayMs: 50, stallTimeoutMs: 1000, maxResumeGapMs: 0 }, feed);
+
+  try {
+    await liveStream.initializeLiveEvents();
+    await liveStream.startLiveSubscription();
+
+    await waitFor(() => snapshots >= 3 && liveStream.getConnectionStats().connected);
+    const stats = liveStream.getConnectionStats();
+    assert.equal(stats.stalls, 1);
+    assert.equal(stats.resyncs, 1);
+    assert.match(stats.lastError || '', /snapshot stalled/);
+  } finally {
+    liveStream.stopLiveSubscription();
+  }
+});
+
+test('rejects an initialization aborted by stopping', async () => {
+  const adapter = new FakeBookmakerAdapter(new FixtureFeed(20));
+  const feed: LiveFeedSource = {
+    decodeLiveFeed: (connection, stream, handlers) => adapter.decodeLiveFeed(connection, stream, handlers),
+    openLiveFeed: async (connection, position, signal) => {
+      const stream = new PassThrough();
+      signal.addEventListener('abort', () => {
+        const error = new Error('Aborted');
+        error.name = 'AbortError';
+        stream.destroy(error);
+      });
+      return { url: 'fixture://silent', stream };
+    }
+  };
+
+  const liveStream = new LiveStreamService({}, feed);
+  const initialized = liveStream.initializeLiveEvents();
+  await new Promise(resolve => setTimeout(resolve, 20));
+  liveStream.stopLiveSubscription();
+
+  await assert.rejects(initialized, { name: 'AbortError' });
+});
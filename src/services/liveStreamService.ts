@@ -1,121 +1,256 @@
-import axios, { AxiosResponse } from 'axios';
 import { EventEmitter } from 'events';
-import { LiveStreamResponse, LiveData, LiveSubscriptionData } from '../types/liveTypes';
+import { Readable } from 'stream';
+import { LiveData, LiveSubscriptionData, LiveConnectionStats, EvictedLiveMatch, LiveEvictionStats, LiveRecordBatch } from '../types/liveTypes';
+import { ChangeLog } from './changeLog';
+import { LiveStore } from './liveStore';
+import { LiveRetention } from './liveRetention';
+import { LiveFeedRecorder, LiveFeedReplayer, LiveFeedStreamName } from './liveFeedRecorder';
+import { UpstreamClient, UpstreamRequestError } from './upstreamClient';
+import { LiveFeedSource } from './bookmakerAdapter';
+import { SoccerbetAdapter } from './soccerbetAdapter';
+import { toLiveRecords } from './feedRecords';
+
+export interface LiveStreamOptions {
+  origin?: string; // soccerbet.rs origin when no feed source is passed, defaults to SOCCERBET_BASE_URL
+  recordFile?: string; // write the raw feed to this file
+  replayFile?: string; // read the feed from this recording instead of soccerbet.rs
+  replaySpeed?: number; // 1 = real time, 0 = no delays
+  maxResumeGapMs?: number; // longer disconnects reload the snapshot instead of resuming
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  stallTimeoutMs?: number; // reconnect when nothing arrives for this long, 0 disables the watchdog
+}
+
+const DEFAULT_MAX_RESUME_GAP_MS = 60000;
+const DEFAULT_RECONNECT_BASE_DELAY_MS = 1000;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 30000;
+const DEFAULT_STALL_TIMEOUT_MS = 60000;
+const EVICTION_SWEEP_INTERVAL_MS = 30000;
+
+function createConnectionStats(): LiveConnectionStats {
+  return {
+    connected: false,
+    resyncing: false,
+    resumeFrom: null,
+    reconnects: 0,
+    resyncs: 0,
+    consecutiveFailures: 0,
+    lastConnectedAt: null,
+    lastDisconnectAt: null,
+    lastResyncAt: null,
+    lastResyncReason: null,
+    lastError: null,
+    malformedEvents: 0,
+    stale: false,
+    stalls: 0,
+    staleAfterSeconds: 0,
+    lastUpdateAt: null,
+    lastHeartbeatAt: null,
+    secondsSinceUpdate: null
+  };
+}
+
+/**
+ * Check if an error comes from aborting a request; axios fails aborted response streams with a CanceledError
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError');
+}
+
+/**
+ * Read recording and replay settings from LIVE_FEED_RECORD_FILE, LIVE_FEED_REPLAY_FILE and LIVE_FEED_REPLAY_SPEED,
+ * and reconnect settings from LIVE_MAX_RESUME_GAP_MS, LIVE_RECONNECT_BASE_DELAY_MS, LIVE_RECONNECT_MAX_DELAY_MS
+ * and LIVE_STALL_TIMEOUT_MS
+ */
+export function getLiveStreamOptionsFromEnv(): LiveStreamOptions {
+  const readNumber = (name: string): number | undefined =>
+    process.env[name] !== undefined ? Number(process.env[name]) : undefined;
+
+  return {
+    recordFile: process.env.LIVE_FEED_RECORD_FILE || undefined,
+    replayFile: process.env.LIVE_FEED_REPLAY_FILE || undefined,
+    replaySpeed: process.env.LIVE_FEED_REPLAY_SPEED !== undefined ? Number(process.env.LIVE_FEED_REPLAY_SPEED) : 1,
+    maxResumeGapMs: readNumber('LIVE_MAX_RESUME_GAP_MS'),
+    reconnectBaseDelayMs: readNumber('LIVE_RECONNECT_BASE_DELAY_MS'),
+    reconnectMaxDelayMs: readNumber('LIVE_RECONNECT_MAX_DELAY_MS'),
+    stallTimeoutMs: readNumber('LIVE_STALL_TIMEOUT_MS')
+  };
+}
 
 export class LiveStreamService extends EventEmitter {
-  private readonly baseUrl = 'https://www.soccerbet.rs/live';
+  private readonly feed: LiveFeedSource;
+  private readonly options: LiveStreamOptions;
+  private recorder: LiveFeedRecorder | null = null;
+  private recordingClosed: Promise<void> = Promise.resolve();
+  private replayer: LiveFeedReplayer | null = null;
   private isStreaming: boolean = false;
   private shouldStream: boolean = false;
   private currentTimestamp: number | null = null;
-  private liveData: LiveData | null = null;
+  private liveInfo: Omit<LiveData, 'headers' | 'bets' | 'results'> | null = null;
+  private store: LiveStore = new LiveStore();
   private abortController: AbortController | null = null;
+  private changeLog: ChangeLog = new ChangeLog();
+  private holders: number = 0; // jobs reading the feed, see acquire
+  private starting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private disconnectedAt: number | null = null;
+  private isResyncing: boolean = false;
+  private connectionStats: LiveConnectionStats = createConnectionStats();
+  private connectionGeneration: number = 0;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private lastUpdateAt: number | null = null;
+  private lastHeartbeatAt: number | null = null;
+  private connectingSince: number | null = null; // when the pending subscribe request was sent
+  private snapshotLoad: { lastActivityAt: number } | null = null; // the snapshot being fetched, watched like the subscription
+  private serverRetryMs: number | null = null;
+  private readonly retention: LiveRetention;
+  private evictionTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    options: LiveStreamOptions = getLiveStreamOptionsFromEnv(),
+    feed: LiveFeedSource = new SoccerbetAdapter(new UpstreamClient(options.origin)),
+    retention: LiveRetention = new LiveRetention()
+  ) {
+    super();
+    this.options = options;
+    this.feed = feed;
+    this.retention = retention;
+    
+    if (options.replayFile) {
+      console.log(`Live feed will be replayed from: ${options.replayFile}`);
+    }
+  }
+
+  /**
+   * Join the feed as one more reader, loading the snapshot and subscribing for the first one.
+   * The feed keeps every sport; readers filter the records of their own.
+   */
+  async acquire(): Promise<LiveData> {
+    this.holders++;
+
+    if (!this.starting) {
+      const starting = this.initializeLiveEvents().then(() => this.startLiveSubscription());
+      this.starting = starting;
+      starting.catch(() => {
+        if (this.starting === starting) this.starting = null;
+      });
+    }
+
+    await this.starting;
+    return this.getLiveData()!;
+  }
+
+  /**
+   * Leave the feed, stopping the subscription once its last reader is gone
+   */
+  release(): void {
+    if (this.holders === 0) return;
+
+    this.holders--;
+    if (this.holders === 0) {
+      this.starting = null;
+      this.stopLiveSubscription();
+    }
+  }
 
   /**
    * Initialize live events stream
    */
-  async initializeLiveEvents(sport: 'football' | 'tennis' | 'basketball'): Promise<LiveData> {
+  async initializeLiveEvents(): Promise<LiveData> {
     try {
-      console.log(`Initializing live events for sport: ${sport}`);
-      
-      const url = `${this.baseUrl}/events/sr`;
-      console.log(`Fetching live events from: ${url}`);
+      console.log('Initializing live events');
       
-      this.abortController = new AbortController();
+      // Every initialization replays the recording from the start
+      if (this.options.replayFile) {
+        this.replayer = new LiveFeedReplayer(this.options.replayFile, this.options.replaySpeed);
+      } else if (this.options.recordFile && !this.recorder) {
+        // Recorded until the subscription is stopped; a restart appends to the same file
+        this.recorder = new LiveFeedRecorder(this.options.recordFile);
+      }
       
-      const response: AxiosResponse = await axios.get(url, {
-        timeout: 30000, // 30 second timeout for SSE
-        signal: this.abortController.signal,
-        headers: {
-          'Accept': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept-Language': 'sr-RS,sr;q=0.9,en;q=0.8',
-          'Referer': 'https://www.soccerbet.rs/'
-        },
-        responseType: 'stream'
+      // Watched by checkForStalledSnapshot until the snapshot has ended
+      const load = { lastActivityAt: Date.now() };
+      this.snapshotLoad = load;
+      const finishLoad = () => {
+        if (this.snapshotLoad === load) this.snapshotLoad = null;
+      };
+
+      const stream = await this.openFeedStream('events').catch(error => {
+        finishLoad();
+        throw error;
       });
+      
+      if (!stream) {
+        finishLoad();
+        throw new Error('Live feed recording contains no events connection');
+      }
 
       return new Promise((resolve, reject) => {
-        let dataBuffer = '';
-        let liveSports: any[] = [];
-        let liveHeaders: any[] = [];
-        let liveBets: any[] = [];
+        // Flattened once the snapshot has ended, so each record is copied once
+        const batches: LiveRecordBatch[] = [];
         let endTimestamp: number | null = null;
 
-        response.data.on('data', (chunk: Buffer) => {
-          dataBuffer += chunk.toString();
-          
-          // Process complete lines
-          const lines = dataBuffer.split('\n\n');
-          dataBuffer = lines.pop() || ''; // Keep incomplete line in buffer
-          
-          for (const line of lines) {
-            if (line.trim()) {
-              try {
-                // Handle SSE data format
-                let jsonData = line;
-                if (line.startsWith('data:')) {
-                  jsonData = line.substring(5); // Remove 'data:' prefix
-                }
-                
-                // Skip empty data lines
-                if (!jsonData.trim()) {
-                  continue;
-                }
-                
-                // Check for END message
-                if (jsonData.startsWith('END ')) {
-                  endTimestamp = parseInt(jsonData.replace('END ', '').trim());
-                  console.log(`Received END timestamp: ${endTimestamp}`);
-                  continue;
-                }
-                
-                // Try to parse JSON data
-                const data = JSON.parse(jsonData);
-                this.processLiveStreamData(data, liveSports, liveHeaders, liveBets);
-              } catch (error) {
-                console.log(line)
-                // Skip non-JSON lines (like SSE format lines)
-                if (!line.startsWith('data: ') && !line.startsWith('event: ') && !line.startsWith('id: ')) {
-                  console.log(`Skipping non-JSON line: ${line.substring(0, 100)}...`);
-                }
-              }
-            }
-          }
+        this.feed.decodeLiveFeed('events', stream, {
+          onBatch: feedBatch => {
+            batches.push(toLiveRecords(feedBatch));
+          },
+          onSnapshotEnd: position => {
+            endTimestamp = position;
+          },
+          onPosition: () => {},
+          onMalformed: () => this.connectionStats.malformedEvents++,
+          onRetry: () => {}
         });
 
-        response.data.on('end', () => {
+        stream.on('data', () => {
+          load.lastActivityAt = Date.now();
+        });
+
+        stream.on('end', () => {
+          finishLoad();
           if (endTimestamp) {
             this.currentTimestamp = endTimestamp;
+            const snapshot: LiveRecordBatch = {
+              sports: batches.flatMap(batch => batch.sports),
+              headers: batches.flatMap(batch => batch.headers),
+              bets: batches.flatMap(batch => batch.bets),
+              results: batches.flatMap(batch => batch.results)
+            };
             
-            const liveData: LiveData = {
-              sports: liveSports,
-              headers: liveHeaders,
-              bets: liveBets,
+            this.liveInfo = {
+              sports: snapshot.sports,
               lastTimestamp: endTimestamp,
-              initializedAt: new Date(),
-              sport
+              initializedAt: new Date()
             };
+            this.lastUpdateAt = Date.now();
             
-            this.liveData = liveData;
-            console.log(`Live events initialized with ${liveHeaders.length} headers and ${liveBets.length} bets`);
-            resolve(liveData);
+            // Start change tracking from the snapshot. After a resync the snapshot may not
+            // explain what changed during the gap, so older tokens are dropped.
+            if (this.isResyncing) {
+              this.changeLog.invalidate();
+            } else {
+              this.changeLog.clear();
+            }
+            this.store.load(snapshot.headers, snapshot.bets, snapshot.results, this.changeLog.nextVersion());
+            console.log(`Live events initialized with ${snapshot.headers.length} headers, ${snapshot.bets.length} bets and ${snapshot.results.length} results`);
+            resolve(this.getLiveData()!);
           } else {
             reject(new Error('No END timestamp received from live events stream'));
           }
         });
 
-        response.data.on('error', (error: Error) => {
-          if (error.name === 'AbortError') {
+        stream.on('error', (error: Error) => {
+          finishLoad();
+          if (isAbortError(error)) {
             console.log('Live events stream aborted');
-            return;
+          } else {
+            console.error('Error in live events stream:', error);
           }
-          console.error('Error in live events stream:', error);
           reject(error);
         });
       });
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (isAbortError(error)) {
         console.log('Live events initialization aborted');
         throw error;
       }
@@ -124,31 +259,6 @@ export class LiveStreamService extends EventEmitter {
     }
   }
 
-  /**
-   * Process live stream data
-   */
-  private processLiveStreamData(data: any, liveSports: any[], liveHeaders: any[], liveBets: any[]): void {
-    if (data.liveSports) {
-      liveSports.push(...data.liveSports);
-      console.log(`Received ${data.liveSports.length} live sports`);
-    }
-    
-    if (data.liveHeaders) {
-      liveHeaders.push(...data.liveHeaders);
-      console.log(`Received ${data.liveHeaders.length} live headers`);
-    }
-    
-    if (data.liveBets) {
-      liveBets.push(...data.liveBets);
-      console.log(`Received ${data.liveBets.length} live bets`);
-    }
-    
-    // Log if no expected data fields found
-    if (!data.liveSports && !data.liveHeaders && !data.liveBets) {
-      console.log(`Received data without expected fields:`, Object.keys(data));
-    }
-  }
-
   /**
    * Start live subscription for updates
    */
@@ -164,105 +274,89 @@ export class LiveStreamService extends EventEmitter {
 
     this.isStreaming = true;
     this.shouldStream = true;
+    this.disconnectedAt = null;
+    this.connectionStats = createConnectionStats();
+    this.retention.resetStats();
     console.log(`Starting live subscription with timestamp: ${this.currentTimestamp}`);
     
+    this.lastHeartbeatAt = Date.now();
+    this.startWatchdog();
+    this.startEvictionSweeps();
     await this.subscribeToLiveUpdates();
   }
 
   /**
-   * Subscribe to live updates
+   * Subscribe to live updates from the newest position seen so far
    */
   private async subscribeToLiveUpdates(): Promise<void> {
     if (!this.currentTimestamp) return;
 
     try {
-      // Use current timestamp instead of the stored timestamp
-      const currentTimestamp = Date.now();
-      const url = `${this.baseUrl}/subscribe/sr?lastInitId=${currentTimestamp}`;
-      console.log(`Subscribing to live updates from: ${url}`);
-      
-      this.abortController = new AbortController();
+      // Watched by checkForHangingConnect while the request is unanswered
+      const connectingSince = Date.now();
+      this.connectingSince = connectingSince;
+      const stream = await this.openFeedStream('subscribe').finally(() => {
+        if (this.connectingSince === connectingSince) this.connectingSince = null;
+      });
       
-      const response: AxiosResponse = await axios.get(url, {
-        timeout: 0, // No timeout for continuous streaming
-        signal: this.abortController.signal,
-        headers: {
-          'Accept': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept-Language': 'sr-RS,sr;q=0.9,en;q=0.8',
-          'Referer': 'https://www.soccerbet.rs/'
+      if (!stream) {
+        console.log('Live feed replay finished');
+        this.isStreaming = false;
+        this.shouldStream = false;
+        this.emit('replayFinished');
+        return;
+      }
+
+      this.markConnected();
+
+      let disconnected = false;
+      const generation = ++this.connectionGeneration;
+      const isCurrent = () => generation === this.connectionGeneration;
+
+      // A connection can report both an error and its end; only the first one reconnects,
+      // and not at all once the watchdog has replaced it
+      const onDisconnect = (error: Error | null) => {
+        if (disconnected || !isCurrent()) return;
+        disconnected = true;
+        this.handleDisconnect(error);
+      };
+
+      this.feed.decodeLiveFeed('subscribe', stream, {
+        onBatch: batch => {
+          if (isCurrent()) this.processLiveUpdateData(toLiveRecords(batch));
         },
-        responseType: 'stream'
+        onSnapshotEnd: () => {},
+        // Resume from the newest position seen on the next reconnect
+        onPosition: position => {
+          if (isCurrent()) this.advancePosition(position);
+        },
+        onMalformed: () => this.connectionStats.malformedEvents++,
+        onRetry: retryMs => {
+          this.serverRetryMs = retryMs;
+        }
       });
 
-      let dataBuffer = '';
-
-      response.data.on('data', (chunk: Buffer) => {
-        dataBuffer += chunk.toString();
-        
-        // Process complete lines
-        const lines = dataBuffer.split('\n');
-        dataBuffer = lines.pop() || ''; // Keep incomplete line in buffer
-        
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              // Handle SSE data format
-              let jsonData = line;
-              if (line.startsWith('data:')) {
-                jsonData = line.substring(5); // Remove 'data: ' prefix
-              }
-              
-              // Skip empty data lines
-              if (!jsonData.trim()) {
-                continue;
-              }
-              
-              const data = JSON.parse(jsonData);
-              this.processLiveUpdateData(data);
-            } catch (error) {
-              // Skip non-JSON lines
-              // if (!line.startsWith('data:') && !line.startsWith('event:') && !line.startsWith('id:')) {
-              //   console.log(`Skipping non-JSON line in subscription: ${line.substring(0, 50)}...`);
-              // }
-            }
-          }
-        }
+      stream.on('data', () => {
+        // Any bytes, including comments and keep-alives, show the connection is alive
+        if (isCurrent()) this.lastHeartbeatAt = Date.now();
       });
 
-      response.data.on('end', () => {
-        console.log('Live subscription stream ended, checking if should restart...');
-        this.isStreaming = false;
-        // Restart subscription after a short delay if we should still be streaming
-        setTimeout(() => {
-          if (this.shouldStream) {
-            console.log('Restarting live subscription...');
-            this.isStreaming = true;
-            this.subscribeToLiveUpdates();
-          } else {
-            console.log('Not restarting - streaming was manually stopped');
-          }
-        }, 1000);
+      stream.on('end', () => {
+        console.log('Live subscription stream ended');
+        onDisconnect(null);
       });
 
-      response.data.on('error', (error: Error) => {
-        if (error.name === 'AbortError') {
+      stream.on('error', (error: Error) => {
+        if (isAbortError(error)) {
           console.log('Live subscription stream aborted');
           return;
         }
         console.error('Error in live subscription stream:', error);
-        this.isStreaming = false;
-        // Restart subscription after error if we should still be streaming
-        setTimeout(() => {
-          if (this.shouldStream) {
-            this.subscribeToLiveUpdates();
-          }
-        }, 5000);
+        onDisconnect(error);
       });
 
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (isAbortError(error)) {
         console.log('Live subscription aborted');
         this.isStreaming = false;
         return;
@@ -274,70 +368,330 @@ export class LiveStreamService extends EventEmitter {
   }
 
   /**
-   * Process live update data
+   * Record a successful (re)connection of the subscription
    */
-  private processLiveUpdateData(data: any): void {
-    const updateData: LiveSubscriptionData = {
-      headers: data.liveHeaders || [],
-      bets: data.liveBets || [],
-      timestamp: Date.now()
-    };
+  private markConnected(): void {
+    const now = Date.now();
+    
+    if (this.disconnectedAt !== null) {
+      this.connectionStats.reconnects++;
+      console.log(`Live subscription resumed from ${this.currentTimestamp} after ${now - this.disconnectedAt}ms`);
+      this.emit('reconnected', this.getConnectionStats());
+    }
+    
+    this.isStreaming = true;
+    this.disconnectedAt = null;
+    this.lastHeartbeatAt = now;
+    this.connectionStats.connected = true;
+    this.connectionStats.consecutiveFailures = 0;
+    this.connectionStats.lastConnectedAt = new Date(now).toISOString();
+  }
 
-    // Emit update event
-    this.emit('liveUpdate', updateData);
+  /**
+   * Note a lost subscription and schedule the next reconnect if streaming should continue.
+   * `since` is when data stopped arriving, earlier than now for a stalled connection.
+   */
+  private handleDisconnect(error: Error | null, since: number = Date.now()): void {
+    this.isStreaming = false;
+    this.connectionStats.connected = false;
     
-    // Update stored data by merging/updating existing records
-    if (this.liveData) {
-      if (data.liveHeaders) {
-        this.updateLiveHeaders(data.liveHeaders);
+    if (this.disconnectedAt === null) {
+      this.disconnectedAt = since;
+      this.connectionStats.lastDisconnectAt = new Date(this.disconnectedAt).toISOString();
+    }
+    
+    if (error) {
+      this.connectionStats.consecutiveFailures++;
+      this.connectionStats.lastError = error.message;
+    }
+    
+    if (!this.shouldStream) {
+      console.log('Not restarting - streaming was manually stopped');
+      return;
+    }
+    
+    // A clean end reconnects after the base delay, failures back off exponentially
+    const baseDelay = this.options.reconnectBaseDelayMs ?? this.serverRetryMs ?? DEFAULT_RECONNECT_BASE_DELAY_MS;
+    const maxDelay = this.options.reconnectMaxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS;
+    const failures = this.connectionStats.consecutiveFailures;
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(2, Math.max(0, failures - 1)));
+    
+    console.log(`Reconnecting live subscription in ${delay}ms (${failures} consecutive failures)`);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  /**
+   * Resume the subscription, or reload the snapshot when the gap is too long or the position is refused
+   */
+  private async reconnect(): Promise<void> {
+    if (!this.shouldStream) return;
+
+    const maxResumeGap = this.options.maxResumeGapMs ?? DEFAULT_MAX_RESUME_GAP_MS;
+    const gap = this.disconnectedAt !== null ? Date.now() - this.disconnectedAt : 0;
+    
+    if (gap > maxResumeGap) {
+      await this.resync(`disconnected for ${Math.round(gap / 1000)}s, longer than ${Math.round(maxResumeGap / 1000)}s`);
+      return;
+    }
+
+    try {
+      console.log(`Restarting live subscription from ${this.currentTimestamp}...`);
+      await this.subscribeToLiveUpdates();
+    } catch (error) {
+      // soccerbet.rs answers 4xx when it cannot resume from the given lastInitId
+      if (error instanceof UpstreamRequestError && error.status !== null && error.status >= 400 && error.status < 500) {
+        await this.resync(`resume from ${this.currentTimestamp} rejected with HTTP ${error.status}`);
+        return;
       }
-      if (data.liveBets) {
-        this.updateLiveBets(data.liveBets);
+      this.handleDisconnect(error instanceof Error ? error : new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Reload the full snapshot and subscribe from its END timestamp
+   */
+  private async resync(reason: string): Promise<void> {
+    if (!this.liveInfo) return;
+
+    console.log(`Resyncing live data: ${reason}`);
+    this.isResyncing = true;
+    this.connectionStats.resyncing = true;
+
+    try {
+      const liveData = await this.initializeLiveEvents();
+      
+      this.connectionStats.resyncs++;
+      this.connectionStats.lastResyncAt = new Date().toISOString();
+      this.connectionStats.lastResyncReason = reason;
+      this.emit('resync', liveData);
+      
+      // The snapshot is current, so a failure from here on starts a new gap
+      this.disconnectedAt = Date.now();
+      await this.subscribeToLiveUpdates();
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
       }
+      console.error('Live resync failed:', error);
+      this.handleDisconnect(error instanceof Error ? error : new Error('Unknown error'));
+    } finally {
+      this.isResyncing = false;
+      this.connectionStats.resyncing = false;
     }
+  }
 
-    console.log(`Live update received: ${updateData.headers.length} headers, ${updateData.bets.length} bets`);
+  /**
+   * Check the open subscription for silence every few seconds
+   */
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    
+    const stallTimeout = this.getStallTimeoutMs();
+    if (stallTimeout <= 0) {
+      return;
+    }
     
-    // Log if no expected data fields found
-    if (!data.liveHeaders && !data.liveBets) {
-      console.log(`Update data without expected fields:`, Object.keys(data));
+    const checkInterval = Math.max(1000, Math.min(5000, stallTimeout / 4));
+    this.watchdogTimer = setInterval(() => this.checkForStall(), checkInterval);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
     }
   }
 
   /**
-   * Update live headers by merging/updating existing records
+   * Drop a connection that is open but has received neither updates nor heartbeats
+   * within the stall timeout, and reconnect (or resync if the silence was long)
    */
-  private updateLiveHeaders(newHeaders: any[]): void {
-    if (!this.liveData) return;
+  private checkForStall(): void {
+    if (!this.shouldStream) return;
+
+    if (!this.isStreaming) {
+      this.checkForHangingConnect();
+      this.checkForStalledSnapshot();
+      return;
+    }
     
-    for (const newHeader of newHeaders) {
-      const existingIndex = this.liveData.headers.findIndex(h => h.id === newHeader.id);
-      if (existingIndex >= 0) {
-        // Update existing header
-        this.liveData.headers[existingIndex] = { ...this.liveData.headers[existingIndex], ...newHeader };
-      } else {
-        // Add new header
-        this.liveData.headers.push(newHeader);
-      }
+    const lastActivity = this.getLastActivityAt() || 0;
+    const silentMs = Date.now() - lastActivity;
+    
+    if (silentMs < this.getStallTimeoutMs()) return;
+    
+    this.connectionStats.stalls++;
+    console.warn(`Live subscription stalled: nothing received for ${Math.round(silentMs / 1000)}s, forcing reconnect`);
+    
+    // Ignore whatever the stalled connection reports once it is aborted
+    this.connectionGeneration++;
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+    
+    this.handleDisconnect(new Error(`No data received for ${Math.round(silentMs / 1000)}s`), lastActivity);
+    this.emit('stale', this.getConnectionStats());
+  }
+
+  /**
+   * Abort a reconnect whose subscribe request has not been answered within the stall timeout,
+   * since the continuous subscription has no upstream timeout, and try again
+   */
+  private checkForHangingConnect(): void {
+    if (this.connectingSince === null) return;
+
+    const waitingMs = Date.now() - this.connectingSince;
+    if (waitingMs < this.getStallTimeoutMs()) return;
+
+    this.connectionStats.stalls++;
+    console.warn(`Live subscription request unanswered for ${Math.round(waitingMs / 1000)}s, retrying`);
+
+    this.connectingSince = null;
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+
+    this.handleDisconnect(new Error(`Subscription request unanswered for ${Math.round(waitingMs / 1000)}s`));
+    this.emit('stale', this.getConnectionStats());
+  }
+
+  /**
+   * Abort a resync whose snapshot has received nothing within the stall timeout, since a
+   * snapshot body that stops partway would otherwise never end, and try again
+   */
+  private checkForStalledSnapshot(): void {
+    if (this.snapshotLoad === null) return;
+
+    const silentMs = Date.now() - this.snapshotLoad.lastActivityAt;
+    if (silentMs < this.getStallTimeoutMs()) return;
+
+    this.connectionStats.stalls++;
+    console.warn(`Live events snapshot stalled: nothing received for ${Math.round(silentMs / 1000)}s, retrying`);
+
+    this.snapshotLoad = null;
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+
+    this.handleDisconnect(new Error(`Live events snapshot stalled for ${Math.round(silentMs / 1000)}s`));
+    this.emit('stale', this.getConnectionStats());
+  }
+
+  private startEvictionSweeps(): void {
+    this.stopEvictionSweeps();
+    this.evictionTimer = setInterval(() => this.evictInactiveMatches(), EVICTION_SWEEP_INTERVAL_MS);
+  }
+
+  private stopEvictionSweeps(): void {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+  }
+
+  /**
+   * Remove finished and inactive matches with their bets and results, record the removals
+   * for "changes since" queries and emit them as 'liveEviction'
+   */
+  evictInactiveMatches(now: number = Date.now()): EvictedLiveMatch[] {
+    if (!this.liveInfo) {
+      return [];
+    }
+
+    const evicted = this.retention.sweep(this.store, now);
+    if (evicted.length === 0) {
+      return evicted;
+    }
+
+    evicted.forEach(match => {
+      this.changeLog.recordRemoval('header', match.matchId);
+      match.bets.forEach(bet => this.changeLog.recordRemoval('bet', bet.id));
+    });
+
+    const betCount = evicted.reduce((sum, match) => sum + match.bets.length, 0);
+    console.log(`Evicted ${evicted.length} live matches with ${betCount} bets (${evicted.map(match => `${match.matchId}:${match.reason}`).join(', ')})`);
+    this.emit('liveEviction', evicted);
+
+    return evicted;
+  }
+
+  /**
+   * Get when the subscription last showed it is alive: an update, or any bytes such as a keep-alive
+   */
+  private getLastActivityAt(): number | null {
+    if (this.lastUpdateAt === null && this.lastHeartbeatAt === null) {
+      return null;
+    }
+    return Math.max(this.lastUpdateAt || 0, this.lastHeartbeatAt || 0);
+  }
+
+  private getStallTimeoutMs(): number {
+    return this.options.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS;
+  }
+
+  /**
+   * Move the resume position forward to a newer change time or event id
+   */
+  private advancePosition(position: number): void {
+    if (Number.isFinite(position) && position > (this.currentTimestamp || 0)) {
+      this.currentTimestamp = position;
     }
   }
 
   /**
-   * Update live bets by merging/updating existing records
+   * Open one live feed connection, from a recording in replay mode or from the bookmaker otherwise.
+   * Returns null when a replay has no more recorded connections of this kind.
    */
-  private updateLiveBets(newBets: any[]): void {
-    if (!this.liveData) return;
+  private async openFeedStream(streamName: LiveFeedStreamName): Promise<Readable | null> {
+    this.abortController = new AbortController();
     
-    for (const newBet of newBets) {
-      const existingIndex = this.liveData.bets.findIndex(b => b.id === newBet.id);
-      if (existingIndex >= 0) {
-        // Update existing bet
-        this.liveData.bets[existingIndex] = { ...this.liveData.bets[existingIndex], ...newBet };
-      } else {
-        // Add new bet
-        this.liveData.bets.push(newBet);
-      }
+    if (this.replayer) {
+      return this.replayer.openStream(streamName, this.abortController.signal);
+    }
+    
+    const { url, stream } = await this.feed.openLiveFeed(streamName, this.currentTimestamp, this.abortController.signal);
+    console.log(streamName === 'events' ? `Fetching live events from: ${url}` : `Subscribing to live updates from: ${url}`);
+    
+    if (this.recorder) {
+      this.recorder.attach(streamName, url, stream);
+    }
+    
+    return stream;
+  }
+
+  /**
+   * Process live update data
+   */
+  private processLiveUpdateData(batch: LiveRecordBatch): void {
+    const updateData: LiveSubscriptionData = {
+      headers: batch.headers,
+      bets: batch.bets,
+      results: batch.results,
+      timestamp: Date.now()
+    };
+
+    // Update stored data by merging/updating existing records
+    if (this.liveInfo) {
+      // Stamped locally, since late records can carry an older lct than a token already handed out
+      const version = this.changeLog.nextVersion();
+      this.store.upsertHeaders(updateData.headers, version);
+      this.store.upsertBets(updateData.bets, version);
+      this.store.upsertResults(updateData.results, version);
     }
+
+    this.lastUpdateAt = updateData.timestamp;
+
+    // Emit update event once the stored data includes it, so listeners can read merged records
+    this.emit('liveUpdate', updateData);
+
+    console.log(`Live update received: ${updateData.headers.length} headers, ${updateData.bets.length} bets, ${updateData.results.length} results`);
   }
 
   /**
@@ -346,6 +700,18 @@ export class LiveStreamService extends EventEmitter {
   stopLiveSubscription(): void {
     this.isStreaming = false;
     this.shouldStream = false;
+    this.isResyncing = false;
+    this.disconnectedAt = null;
+    this.connectingSince = null;
+    this.snapshotLoad = null;
+    this.connectionStats.connected = false;
+    this.stopWatchdog();
+    this.stopEvictionSweeps();
+    
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     
     // Abort any ongoing requests
     if (this.abortController) {
@@ -353,14 +719,82 @@ export class LiveStreamService extends EventEmitter {
       this.abortController = null;
     }
     
+    this.closeRecording();
     console.log('Live subscription stopped and requests aborted');
   }
 
+  /**
+   * Close the feed recording, if one is open, and resolve once it is written out
+   */
+  closeRecording(): Promise<void> {
+    if (this.recorder) {
+      this.recordingClosed = this.recorder.close();
+      this.recorder = null;
+    }
+    return this.recordingClosed;
+  }
+
   /**
    * Get current live data
    */
   getLiveData(): LiveData | null {
-    return this.liveData;
+    if (!this.liveInfo) {
+      return null;
+    }
+    
+    return {
+      ...this.liveInfo,
+      headers: this.store.getHeaders(),
+      bets: this.store.getBets(),
+      results: this.store.getResults()
+    };
+  }
+
+  /**
+   * Get the indexed live records for lookups by match or bet id
+   */
+  getLiveStore(): LiveStore {
+    return this.store;
+  }
+
+  /**
+   * Get the change log used to answer "changes since" queries
+   */
+  getChangeLog(): ChangeLog {
+    return this.changeLog;
+  }
+
+  /**
+   * Get reconnect and resync counters of the subscription
+   */
+  getConnectionStats(): LiveConnectionStats {
+    const stallTimeout = this.getStallTimeoutMs();
+    const sinceUpdateMs = this.lastUpdateAt !== null ? Date.now() - this.lastUpdateAt : null;
+    const lastActivity = this.getLastActivityAt();
+    
+    return {
+      ...this.connectionStats,
+      resumeFrom: this.currentTimestamp,
+      stale: stallTimeout > 0 && lastActivity !== null && Date.now() - lastActivity >= stallTimeout,
+      staleAfterSeconds: Math.round(stallTimeout / 1000),
+      lastUpdateAt: this.lastUpdateAt !== null ? new Date(this.lastUpdateAt).toISOString() : null,
+      lastHeartbeatAt: this.lastHeartbeatAt !== null ? new Date(this.lastHeartbeatAt).toISOString() : null,
+      secondsSinceUpdate: sinceUpdateMs !== null ? Math.floor(sinceUpdateMs / 1000) : null
+    };
+  }
+
+  /**
+   * Get the retention settings and eviction counters
+   */
+  getEvictionStats(): LiveEvictionStats {
+    return this.retention.getStats();
+  }
+
+  /**
+   * Check if archiving of evicted matches is enabled
+   */
+  shouldArchiveEvicted(): boolean {
+    return this.retention.shouldArchive();
   }
 
   /**
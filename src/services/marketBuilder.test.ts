@@ -0,0 +1,168 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MarketBuilder } from './marketBuilder';
+import { LabelRenderer } from './labelRenderer';
+import { toLiveRecords, toPreGameSnapshot } from './feedRecords';
+import { toBetCatalogue, toLiveFeedBatch, toPreGameOffer } from './soccerbetAdapter';
+import { BettingOptionsResponse } from './soccerbetApi';
+import { EnhancedBetPick, EnhancedBettingOptions, Market } from '../types/marketTypes';
+import { SoccerbetLiveStreamResponse, SoccerbetPreGameResponse } from '../types/soccerbetTypes';
+import bettingOptionsFixture from '../mock/fixtures/bettingOptions.json';
+import liveFixture from '../mock/fixtures/live.json';
+import preGameFixture from '../mock/fixtures/pregame.json';
+
+const catalogue = toBetCatalogue(bettingOptionsFixture as unknown as BettingOptionsResponse);
+const [preGameMatch] = toPreGameSnapshot(toPreGameOffer(preGameFixture as unknown as SoccerbetPreGameResponse)).matches;
+const liveBets = toLiveRecords(toLiveFeedBatch(liveFixture as unknown as SoccerbetLiveStreamResponse)).bets;
+
+/**
+ * Build the football betting options, each pick in the first group listing its tip type
+ */
+function footballOptions(): EnhancedBettingOptions {
+  const groups = Object.values(catalogue.groups).filter(group => group.sport === 'S');
+  const picks: EnhancedBetPick[] = Object.entries(catalogue.picks)
+    .filter(([, pick]) => pick.sport === 'S')
+    .map(([key, pick]) => {
+      const group = groups.find(candidate => candidate.tipTypes.includes(pick.tipTypeCode));
+      return {
+        key,
+        label: pick.label,
+        caption: pick.caption,
+        tipTypeCode: pick.tipTypeCode,
+        betPickCode: pick.betPickCode,
+        betCode: pick.betCode,
+        position: pick.position,
+        tipTypeTag: pick.tipTypeTag,
+        mainType: pick.mainType,
+        displaySpecifiers: pick.displaySpecifiers,
+        tipTypeName: pick.tipTypeName,
+        groupId: group?.id || null,
+        groupDescription: group?.description || null,
+        groupName: group?.name || null,
+        groupOrderNumber: group?.orderNumber || null
+      };
+    });
+
+  return { groups: [], picks };
+}
+
+/**
+ * Build a market builder labelling with the football betting options
+ */
+function createBuilder(): MarketBuilder {
+  const renderer = new LabelRenderer();
+  renderer.load(catalogue);
+  const builder = new MarketBuilder(renderer);
+  builder.load(footballOptions());
+  return builder;
+}
+
+const byId = (markets: Market[]) => new Map(markets.map(market => [market.id, market]));
+const labels = (market: Market) => market.selections.map(selection => [selection.tipCode, selection.label, selection.caption]);
+
+test('groups pre-game odds into one market per bet code and special value', () => {
+  const markets = byId(createBuilder().fromPreGameMatch(preGameMatch, 'S'));
+
+  assert.deepEqual(Array.from(markets.keys()).sort(), ['900001_1_', '900001_2_total=2.5', '900001_3_hcp=-1.5', '900001_3_hcp=1.5', '900001_4_']);
+
+  const result = markets.get('900001_1_')!;
+  assert.equal(result.source, 'pre-game');
+  assert.equal(result.betId, null);
+  assert.equal(result.name, 'Konačan ishod');
+  assert.deepEqual(result.group, { id: 101, name: 'Konačan ishod', description: 'Konačan ishod', orderNumber: 1 });
+  assert.deepEqual(labels(result), [[1, 'Domaćin pobeđuje', '1'], [2, 'Nerešeno', 'X'], [3, 'Gost pobeđuje', '2']]);
+  assert.deepEqual(result.pricing, { method: 'proportional', overround: 1.0828, margin: 0.0828, parameter: null });
+});
+
+test('renders the specifiers into market, group and selection labels', () => {
+  const markets = byId(createBuilder().fromPreGameMatch(preGameMatch, 'S'));
+
+  const total = markets.get('900001_2_total=2.5')!;
+  assert.equal(total.name, 'Ukupno golova 2.5');
+  assert.deepEqual(total.specifiers, { total: '2.5' });
+  assert.deepEqual(total.group, { id: 102, name: 'Ukupno golova 2.5', description: 'Ukupno golova na meču 2.5', orderNumber: 2 });
+  assert.deepEqual(labels(total), [[4, 'Manje od 2.5 golova', '-2.5'], [5, 'Više od 2.5 golova', '+2.5']]);
+  assert.equal(total.pricing!.margin, 0.0669);
+
+  const handicap = markets.get('900001_3_hcp=-1.5')!;
+  assert.equal(handicap.name, 'Hendikep -1.5');
+  assert.equal(handicap.group!.name, 'Hendikep -1.5');
+  assert.deepEqual(labels(handicap), [[6, 'Domaćin pobeđuje sa hendikepom -1.5', 'H1'], [7, 'Gost pobeđuje sa hendikepom -1.5', 'H2']]);
+  assert.equal(handicap.pricing!.margin, 0.059);
+  assert.equal(markets.get('900001_3_hcp=1.5')!.pricing!.margin, 0.0256);
+});
+
+test('prices every market with the given margin method', () => {
+  const markets = byId(createBuilder().fromPreGameMatch(preGameMatch, 'S', 'shin'));
+
+  assert.deepEqual(markets.get('900001_1_')!.pricing, { method: 'shin', overround: 1.0828, margin: 0.0828, parameter: 0.0415 });
+  assert.deepEqual(markets.get('900001_1_')!.selections.map(selection => selection.fairOdds), [2.241, 3.498, 3.733]);
+});
+
+test('builds one market of a live bet', () => {
+  const builder = createBuilder();
+  const [result, total] = liveBets.filter(bet => bet.mId === 500001).map(bet => builder.fromLiveBet(bet, 'S'));
+
+  assert.equal(result.id, '500001_1_');
+  assert.equal(result.source, 'live');
+  assert.equal(result.betId, 700001);
+  assert.equal(result.active, true);
+  assert.deepEqual(result.selections.map(selection => [selection.tipCode, selection.betPickCode, selection.odds]), [[1, 101, 2.4], [2, 102, 2.9], [3, 103, 3.1]]);
+  assert.equal(result.pricing!.margin, 0.0841);
+
+  assert.equal(total.id, '500001_2_total=2.5');
+  assert.equal(total.name, 'Ukupno golova 2.5');
+  assert.deepEqual(labels(total), [[4, 'Manje od 2.5 golova', '-2.5'], [5, 'Više od 2.5 golova', '+2.5']]);
+});
+
+test('closes suspended and disabled live bets', () => {
+  const builder = createBuilder();
+  const [bet] = liveBets;
+
+  const suspended = builder.fromLiveBet({ ...bet, st: 'SUSPENDED' }, 'S');
+  assert.equal(suspended.status, 'SUSPENDED');
+  assert.equal(suspended.active, false);
+  assert.ok(suspended.selections.every(selection => !selection.active));
+
+  const disabled = builder.fromLiveBet({ ...bet, d: true }, 'S');
+  assert.equal(disabled.status, 'ACTIVE');
+  assert.equal(disabled.active, false);
+
+  // A bet update without odds has no selections to price
+  const withoutOdds = builder.fromLiveBet({ ...bet, om: undefined } as unknown as typeof bet, 'S');
+  assert.deepEqual(withoutOdds.selections, []);
+  assert.equal(withoutOdds.pricing, null);
+});
+
+test('keeps a pre-game market open while any of its selections is', () => {
+  const match = {
+    ...preGameMatch,
+    betMap: {
+      1: { '': { ...preGameMatch.betMap[1][''], s: 'SUSPENDED' } },
+      2: { '': { ...preGameMatch.betMap[2][''], s: 'ACTIVE' } }
+    }
+  };
+  const [market] = createBuilder().fromPreGameMatch(match, 'S');
+  assert.equal(market.status, 'ACTIVE');
+  assert.equal(market.active, true);
+  assert.deepEqual(market.selections.map(selection => selection.active), [false, true]);
+
+  const [closed] = createBuilder().fromPreGameMatch({ ...match, betMap: { 1: match.betMap[1] } }, 'S');
+  assert.equal(closed.status, 'SUSPENDED');
+  assert.equal(closed.active, false);
+});
+
+test('falls back for picks and bets missing from the betting options', () => {
+  const builder = createBuilder();
+  const [bet] = liveBets;
+
+  // Football picks do not label another sport's bets
+  const tennis = builder.fromLiveBet(bet, 'T');
+  assert.equal(tennis.group, null);
+  assert.deepEqual(labels(tennis), [[1, 'Unknown Description', 'N/A'], [2, 'Unknown Description', 'N/A'], [3, 'Unknown Description', 'N/A']]);
+
+  const unknown = builder.fromLiveBet({ ...bet, bc: 99, om: { 98: { ov: 1.9, bpc: 9998 }, 99: { ov: 1.9, bpc: 9999 } } }, 'S');
+  assert.equal(unknown.name, null);
+  assert.equal(unknown.group, null);
+  assert.deepEqual(unknown.pricing, { method: 'proportional', overround: 1.0526, margin: 0.0526, parameter: null });
+});
@@ -0,0 +1,145 @@
+import { LabelRenderer, parseSpecifiers } from './labelRenderer';
+import { priceMarket } from './marketPricing';
+import { LiveBet } from '../types/liveTypes';
+import { PreGameMatch } from '../types/pregameTypes';
+import { EnhancedBetPick, EnhancedBettingOptions, MarginMethod, Market, MarketGroup, MarketSpecifiers, Selection } from '../types/marketTypes';
+import { Mode } from '../types';
+
+const ACTIVE_STATUS = 'ACTIVE';
+
+/**
+ * Turns live bets and pre-game bet maps into the same Market / Selection model, labelled
+ * with the betting options of the selected sport and rendered with the market's specifiers.
+ * A live bet is one market; pre-game odds are grouped into one market per bet code and `sv`.
+ * Every market is priced with the given margin method.
+ */
+export class MarketBuilder {
+  private readonly labelRenderer: LabelRenderer;
+  private picks: Map<string, EnhancedBetPick> = new Map();
+
+  constructor(labelRenderer: LabelRenderer = new LabelRenderer()) {
+    this.labelRenderer = labelRenderer;
+  }
+
+  /**
+   * Use the betting options of a newly selected sport
+   */
+  load(options: EnhancedBettingOptions): void {
+    this.picks = new Map(options.picks.map(pick => [pick.key, pick]));
+  }
+
+  /**
+   * Build the market of one live bet
+   */
+  fromLiveBet(bet: LiveBet, sportCode: string, marginMethod?: MarginMethod): Market {
+    const status = bet.st || '';
+    const betActive = !bet.d && status === ACTIVE_STATUS;
+    const specifiers = parseSpecifiers(bet.sv);
+    const selections = Object.entries(bet.om || {}).map(([tipCode, odd]) =>
+      this.createSelection(tipCode, sportCode, specifiers, odd.ov, odd.bpc, status, betActive)
+    );
+
+    return priceMarket(this.createMarket('live', bet.mId, bet.id, bet.bc, bet.sv, status, selections, sportCode), marginMethod);
+  }
+
+  /**
+   * Build the markets of a pre-game match
+   */
+  fromPreGameMatch(match: PreGameMatch, sportCode: string, marginMethod?: MarginMethod): Market[] {
+    const grouped = new Map<string, { betCode: number; sv: string; selections: Selection[] }>();
+
+    Object.entries(match.betMap || {}).forEach(([tipCode, bets]) => {
+      Object.values(bets).forEach(bet => {
+        const sv = bet.sv || '';
+        const key = `${bet.bc}_${sv}`;
+
+        if (!grouped.has(key)) {
+          grouped.set(key, { betCode: bet.bc, sv, selections: [] });
+        }
+        grouped.get(key)!.selections.push(
+          this.createSelection(tipCode, sportCode, parseSpecifiers(sv), bet.ov, bet.bpc, bet.s, bet.s === ACTIVE_STATUS)
+        );
+      });
+    });
+
+    return Array.from(grouped.values()).map(({ betCode, sv, selections }) => {
+      // A pre-game market is open while any of its selections is
+      const status = selections.some(selection => selection.active) ? ACTIVE_STATUS : selections[0]?.status || '';
+      return priceMarket(this.createMarket('pre-game', match.id, null, betCode, sv, status, selections, sportCode), marginMethod);
+    });
+  }
+
+  private createSelection(
+    tipCode: string,
+    sportCode: string,
+    specifiers: MarketSpecifiers,
+    odds: number,
+    betPickCode: number,
+    status: string,
+    active: boolean
+  ): Selection {
+    const pick = this.picks.get(`${tipCode}_${sportCode}`);
+    const labels = pick ? this.labelRenderer.renderPick(pick.label, pick.caption, pick.groupId, specifiers) : null;
+
+    return {
+      tipCode: Number(tipCode),
+      betPickCode,
+      label: labels?.label || 'Unknown Description',
+      caption: labels?.caption || 'N/A',
+      odds,
+      status,
+      active,
+      impliedProbability: null,
+      fairProbability: null,
+      fairOdds: null
+    };
+  }
+
+  private createMarket(
+    source: Mode,
+    matchId: number,
+    betId: number | null,
+    betCode: number,
+    sv: string,
+    status: string,
+    selections: Selection[],
+    sportCode: string
+  ): Market {
+    const specifiers = parseSpecifiers(sv);
+
+    return {
+      id: `${matchId}_${betCode}_${sv || ''}`,
+      source,
+      matchId,
+      betId,
+      betCode,
+      name: this.labelRenderer.renderMarketName(betCode, specifiers),
+      group: this.findGroup(selections, sportCode, specifiers),
+      sv: sv || '',
+      specifiers,
+      status,
+      active: selections.some(selection => selection.active),
+      pricing: null,
+      selections
+    };
+  }
+
+  /**
+   * Take the group of the first selection that belongs to one
+   */
+  private findGroup(selections: Selection[], sportCode: string, specifiers: MarketSpecifiers): MarketGroup | null {
+    for (const selection of selections) {
+      const pick = this.picks.get(`${selection.tipCode}_${sportCode}`);
+      if (pick && pick.groupId !== null) {
+        const labels = this.labelRenderer.renderGroup(pick.groupId, specifiers, { name: pick.groupName, description: pick.groupDescription });
+        return {
+          id: pick.groupId,
+          name: labels.name,
+          description: labels.description,
+          orderNumber: pick.groupOrderNumber
+        };
+      }
+    }
+    return null;
+  }
+}
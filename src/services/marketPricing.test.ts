@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { priceMarket, summarizeMargins } from './marketPricing';
+import { MarginMethod, Market } from '../types/marketTypes';
+
+/**
+ * Build an unpriced pre-game market with one selection per odds value
+ */
+function market(odds: number[], league: string = 'League'): Market {
+  return {
+    id: `1_1_${league}`,
+    source: 'pre-game',
+    matchId: 1,
+    betId: null,
+    betCode: 1,
+    name: null,
+    group: null,
+    sv: '',
+    specifiers: {},
+    status: 'ACTIVE',
+    active: true,
+    pricing: null,
+    selections: odds.map((value, index) => ({
+      tipCode: index + 1,
+      betPickCode: 0,
+      label: String(index + 1),
+      caption: String(index + 1),
+      odds: value,
+      status: 'ACTIVE',
+      active: true,
+      impliedProbability: null,
+      fairProbability: null,
+      fairOdds: null
+    }))
+  };
+}
+
+const priced = (method: MarginMethod, odds: number[] = [2.1, 3.2, 3.4]) => priceMarket(market(odds), method);
+const fairOdds = (result: Market) => result.selections.map(selection => selection.fairOdds);
+const fairTotal = (result: Market) => result.selections.reduce((sum, selection) => sum + selection.fairProbability!, 0);
+
+// 1/2.1 + 1/3.2 + 1/3.4 = 1.0828, an 8.28% margin
+test('removes the margin in proportion to the implied probabilities', () => {
+  const result = priced('proportional');
+
+  assert.deepEqual(result.pricing, { method: 'proportional', overround: 1.0828, margin: 0.0828, parameter: null });
+  assert.deepEqual(result.selections.map(selection => selection.impliedProbability), [0.4762, 0.3125, 0.2941]);
+  assert.deepEqual(fairOdds(result), [2.274, 3.465, 3.682]);
+});
+
+test('solves the insider share of the Shin model', () => {
+  const result = priced('shin');
+
+  assert.deepEqual(result.pricing, { method: 'shin', overround: 1.0828, margin: 0.0828, parameter: 0.0415 });
+  assert.deepEqual(fairOdds(result), [2.241, 3.498, 3.733]);
+  assert.ok(Math.abs(fairTotal(result) - 1) < 0.001);
+});
+
+test('solves the exponent of the power method', () => {
+  const result = priced('power');
+
+  assert.deepEqual(result.pricing, { method: 'power', overround: 1.0828, margin: 0.0828, parameter: 1.0802 });
+  assert.deepEqual(fairOdds(result), [2.229, 3.513, 3.75]);
+  assert.ok(Math.abs(fairTotal(result) - 1) < 0.001);
+});
+
+test('takes more margin off long shots with Shin and power than proportionally', () => {
+  const [proportional, shin, power] = (['proportional', 'shin', 'power'] as MarginMethod[]).map(method => fairOdds(priced(method)));
+
+  for (const other of [shin, power]) {
+    assert.ok(other[0]! < proportional[0]!, 'the favourite keeps more of its margin');
+    assert.ok(other[2]! > proportional[2]!, 'the long shot loses more of its margin');
+  }
+});
+
+test('agrees on a two-way market with equal odds', () => {
+  for (const method of ['proportional', 'shin', 'power'] as MarginMethod[]) {
+    const result = priced(method, [1.9, 1.9]);
+    assert.equal(result.pricing!.margin, 0.0526);
+    assert.deepEqual(fairOdds(result), [2, 2]);
+  }
+});
+
+test('normalises a market without a margin whatever the method', () => {
+  const result = priced('shin', [2.1, 2.1]);
+
+  assert.deepEqual(result.pricing, { method: 'shin', overround: 0.9524, margin: -0.0476, parameter: null });
+  assert.deepEqual(fairOdds(result), [2, 2]);
+});
+
+test('leaves incomplete markets unpriced', () => {
+  for (const odds of [[2.1], [2.1, 1], [2.1, NaN]]) {
+    const result = priced('power', odds);
+    assert.equal(result.pricing, null);
+    assert.ok(result.selections.every(selection => selection.fairOdds === null));
+  }
+  assert.equal(priced('power', [2.1, 1]).selections[0].impliedProbability, 0.4762);
+});
+
+test('summarises the margins per league, highest average first', () => {
+  const summary = summarizeMargins([
+    { league: 'Low', markets: [priceMarket(market([1.95, 1.95], 'Low'))] },
+    { league: 'High', markets: [priceMarket(market([2.1, 3.2, 3.4], 'High')), priceMarket(market([1.9, 1.9], 'High'))] },
+    { league: 'High', markets: [priceMarket(market([2.1], 'High'))] }
+  ]);
+
+  // The unpriced market counts towards the matches only
+  assert.deepEqual(summary, [
+    { league: 'High', matches: 2, markets: 2, averageMargin: 0.0677, minMargin: 0.0526, maxMargin: 0.0828 },
+    { league: 'Low', matches: 1, markets: 1, averageMargin: 0.0256, minMargin: 0.0256, maxMargin: 0.0256 }
+  ]);
+});
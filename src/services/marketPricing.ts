@@ -0,0 +1,158 @@
+import { MarginMethod, MarginSummary, Market, MarketPricing } from '../types/marketTypes';
+
+export const MARGIN_METHODS: MarginMethod[] = ['proportional', 'shin', 'power'];
+
+const DEFAULT_MARGIN_METHOD: MarginMethod = 'proportional';
+const SOLVER_ITERATIONS = 100;
+const SOLVER_TOLERANCE = 1e-10;
+
+export function isMarginMethod(value: unknown): value is MarginMethod {
+  return typeof value === 'string' && (MARGIN_METHODS as string[]).includes(value);
+}
+
+/**
+ * Read the default margin method from MARGIN_METHOD
+ */
+export function getMarginMethodFromEnv(): MarginMethod {
+  const method = process.env.MARGIN_METHOD;
+  return isMarginMethod(method) ? method : DEFAULT_MARGIN_METHOD;
+}
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Find the root of a decreasing function between two bounds by bisection
+ */
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  let middle = (low + high) / 2;
+
+  for (let i = 0; i < SOLVER_ITERATIONS && high - low > SOLVER_TOLERANCE; i++) {
+    middle = (low + high) / 2;
+    if (f(middle) > 0) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return middle;
+}
+
+/**
+ * Shin's model: a share z of the money comes from insiders, and the bookmaker's prices
+ * protect against them. z is chosen so the fair probabilities add up to 1.
+ */
+function removeMarginShin(implied: number[], overround: number): { probabilities: number[]; parameter: number } {
+  const probabilitiesFor = (z: number) => implied.map(probability =>
+    (Math.sqrt(z * z + 4 * (1 - z) * probability * probability / overround) - z) / (2 * (1 - z))
+  );
+  const sumFor = (z: number) => probabilitiesFor(z).reduce((sum, probability) => sum + probability, 0);
+
+  const z = bisect(candidate => sumFor(candidate) - 1, 0, 1 - SOLVER_TOLERANCE);
+  return { probabilities: probabilitiesFor(z), parameter: z };
+}
+
+/**
+ * The power method: raise every implied probability to the same exponent k so they add up
+ * to 1, which takes more margin off long shots than off favourites.
+ */
+function removeMarginPower(implied: number[]): { probabilities: number[]; parameter: number } {
+  const sumFor = (k: number) => implied.reduce((sum, probability) => sum + Math.pow(probability, k), 0);
+
+  // The sum falls as k grows; widen the upper bound until it is below 1
+  let high = 2;
+  while (sumFor(high) > 1 && high < 1000) {
+    high *= 2;
+  }
+
+  const k = bisect(candidate => sumFor(candidate) - 1, 0, high);
+  return { probabilities: implied.map(probability => Math.pow(probability, k)), parameter: k };
+}
+
+/**
+ * Add implied probabilities, the margin and fair odds to a market. A market is priced only
+ * when it has at least two selections and all of them have odds above 1, since the
+ * probabilities of an incomplete market do not add up to the overround. Without a margin
+ * (an overround of 1 or less) every method falls back to normalising the implied probabilities.
+ */
+export function priceMarket(market: Market, method: MarginMethod = DEFAULT_MARGIN_METHOD): Market {
+  const { selections } = market;
+  const priceable = selections.length >= 2 && selections.every(selection => Number.isFinite(selection.odds) && selection.odds > 1);
+
+  if (!priceable) {
+    return {
+      ...market,
+      pricing: null,
+      selections: selections.map(selection => ({
+        ...selection,
+        impliedProbability: Number.isFinite(selection.odds) && selection.odds > 1 ? round(1 / selection.odds, 4) : null,
+        fairProbability: null,
+        fairOdds: null
+      }))
+    };
+  }
+
+  const implied = selections.map(selection => 1 / selection.odds);
+  const overround = implied.reduce((sum, probability) => sum + probability, 0);
+
+  let fair: { probabilities: number[]; parameter: number | null };
+  if (overround <= 1 || method === 'proportional') {
+    fair = { probabilities: implied.map(probability => probability / overround), parameter: null };
+  } else if (method === 'shin') {
+    fair = removeMarginShin(implied, overround);
+  } else {
+    fair = removeMarginPower(implied);
+  }
+
+  const pricing: MarketPricing = {
+    method,
+    overround: round(overround, 4),
+    margin: round(overround - 1, 4),
+    parameter: fair.parameter !== null ? round(fair.parameter, 4) : null
+  };
+
+  return {
+    ...market,
+    pricing,
+    selections: selections.map((selection, index) => ({
+      ...selection,
+      impliedProbability: round(implied[index], 4),
+      fairProbability: round(fair.probabilities[index], 4),
+      fairOdds: fair.probabilities[index] > 0 ? round(1 / fair.probabilities[index], 3) : null
+    }))
+  };
+}
+
+/**
+ * Summarise the margins of priced markets per league, highest average margin first
+ */
+export function summarizeMargins(matches: Array<{ league: string; markets: Market[] }>): MarginSummary[] {
+  const leagues = new Map<string, { matches: number; margins: number[] }>();
+
+  matches.forEach(match => {
+    const margins = match.markets
+      .filter(market => market.pricing !== null)
+      .map(market => market.pricing!.margin);
+
+    if (!leagues.has(match.league)) {
+      leagues.set(match.league, { matches: 0, margins: [] });
+    }
+    const league = leagues.get(match.league)!;
+    league.matches++;
+    margins.forEach(margin => league.margins.push(margin));
+  });
+
+  return Array.from(leagues.entries())
+    .map(([league, { matches: matchCount, margins }]) => ({
+      league,
+      matches: matchCount,
+      markets: margins.length,
+      averageMargin: margins.length > 0 ? round(margins.reduce((sum, margin) => sum + margin, 0) / margins.length, 4) : null,
+      minMargin: margins.length > 0 ? margins.reduce((min, margin) => Math.min(min, margin), Infinity) : null,
+      maxMargin: margins.length > 0 ? margins.reduce((max, margin) => Math.max(max, margin), -Infinity) : null
+    }))
+    .sort((a, b) => (b.averageMargin ?? -Infinity) - (a.averageMargin ?? -Infinity));
+}
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MatchRegistry, normalizeTeamName } from './matchRegistry';
+import { PreGameMatch } from '../types/pregameTypes';
+import { LiveHeader } from '../types/liveTypes';
+
+const MINUTE = 60 * 1000;
+const KICKOFF = Date.parse('2024-01-01T18:00:00Z');
+const options = { kickoffToleranceMs: 30 * MINUTE, retentionMs: 48 * 60 * MINUTE };
+
+type Teams = { home: string; away: string };
+
+/**
+ * Build a football pre-game match without markets
+ */
+function preGameMatch(id: number, matchCode: number, { home, away }: Teams, brMatchId: number | null = null, kickOffTime: number = KICKOFF): PreGameMatch {
+  return {
+    id,
+    matchCode,
+    home,
+    away,
+    kickOffTime,
+    status: 0,
+    blocked: false,
+    favourite: false,
+    sport: 'S',
+    leagueId: 1,
+    leagueName: 'Srbija 1',
+    leagueShort: 'SRB',
+    live: false,
+    brMatchId,
+    betMap: {}
+  };
+}
+
+/**
+ * Build a football live header
+ */
+function liveHeader(id: number, mc: number, { home, away }: Teams, bri: number | null = null, kot: number = KICKOFF): LiveHeader {
+  return {
+    id,
+    mc,
+    h: home,
+    a: away,
+    lg: 'Srbija 1',
+    lsh: 'SRB',
+    lid: 1,
+    s: 'S',
+    kot,
+    ls: '1',
+    ba: true,
+    tm: false,
+    inf: '',
+    eid: '',
+    bri,
+    lct: 0
+  };
+}
+
+const derby = { home: 'Crvena zvezda', away: 'Partizan' };
+
+test('links by brMatchId whatever the code, names and kickoff', () => {
+  const registry = new MatchRegistry(options);
+  registry.observePreGameMatches([preGameMatch(1, 1001, derby, 41)]);
+  registry.observeLiveHeaders([liveHeader(501, 9001, { home: 'FK Crvena zvezda', away: 'FK Partizan' }, 41, KICKOFF + 120 * MINUTE)]);
+
+  const fixture = registry.findByMatchId('live', 501)!;
+  assert.equal(fixture.id, 'br-41');
+  assert.equal(fixture.resolvedBy, 'brMatchId');
+  assert.equal(fixture.preGameId, 1);
+  assert.equal(registry.findByMatchId('pre-game', 1), fixture);
+});
+
+test('prefers the match code to the team names', () => {
+  const registry = new MatchRegistry(options);
+  registry.observePreGameMatches([preGameMatch(1, 2000, derby), preGameMatch(2, 1001, { home: 'Vojvodina', away: 'Čukarički' })]);
+  registry.observeLiveHeaders([liveHeader(501, 1001, { home: 'Crvena Zvezda', away: 'Partizan' }, null, KICKOFF + 10 * MINUTE)]);
+
+  const fixture = registry.findByMatchId('live', 501)!;
+  assert.equal(fixture.resolvedBy, 'matchCode');
+  assert.equal(fixture.preGameId, 2);
+  assert.equal(registry.findByMatchId('pre-game', 1)!.liveId, null);
+});
+
+test('links normalised team names within the kickoff tolerance only', () => {
+  const registry = new MatchRegistry(options);
+  const djokovic = { home: 'Đoković N.', away: 'Alcaraz C.' };
+  registry.observePreGameMatches([
+    preGameMatch(1, 3001, djokovic),
+    preGameMatch(2, 3002, derby, null, KICKOFF + 24 * 60 * MINUTE)
+  ]);
+  registry.observeLiveHeaders([
+    liveHeader(501, 7001, { home: 'Djokovic N', away: 'ALCARAZ C.' }, null, KICKOFF + 25 * MINUTE),
+    liveHeader(502, 7002, derby, null, KICKOFF + 24 * 60 * MINUTE + 31 * MINUTE)
+  ]);
+
+  assert.equal(normalizeTeamName(djokovic.home), 'djokovic n');
+  assert.equal(registry.findByMatchId('live', 501)!.resolvedBy, 'teams');
+  assert.equal(registry.findByMatchId('live', 501)!.preGameId, 1);
+
+  // Half an hour and a minute apart is another fixture
+  assert.equal(registry.findByMatchId('live', 502)!.id, 'lv-502');
+  assert.equal(registry.findByMatchId('live', 502)!.resolvedBy, null);
+  assert.deepEqual(registry.getStats().resolvedBy, { brMatchId: 0, matchCode: 0, teams: 1 });
+});
+
+test('keeps records with different brMatchIds apart', () => {
+  const registry = new MatchRegistry(options);
+  registry.observePreGameMatches([preGameMatch(1, 1001, derby, 41)]);
+  registry.observeLiveHeaders([liveHeader(501, 1001, derby, 42)]);
+
+  assert.equal(registry.findByMatchId('live', 501)!.id, 'br-42');
+  assert.equal(registry.getStats().linked, 0);
+});
@@ -0,0 +1,301 @@
+import { PreGameMatch } from '../types/pregameTypes';
+import { LiveHeader } from '../types/liveTypes';
+import { Fixture, FixtureResolution, MatchRegistryStats } from '../types/matchTypes';
+import { Mode } from '../types';
+
+export interface MatchRegistryOptions {
+  kickoffToleranceMs: number; // kickoff times of a match code or team name match may differ by this much
+  retentionMs: number; // fixtures not seen for this long are forgotten
+}
+
+const DEFAULT_KICKOFF_TOLERANCE_MINUTES = 30;
+const DEFAULT_RETENTION_HOURS = 48;
+
+/**
+ * Read the registry settings from MATCH_KICKOFF_TOLERANCE_MINUTES and MATCH_RETENTION_HOURS
+ */
+export function getMatchRegistryOptionsFromEnv(): MatchRegistryOptions {
+  const readNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    kickoffToleranceMs: readNumber('MATCH_KICKOFF_TOLERANCE_MINUTES', DEFAULT_KICKOFF_TOLERANCE_MINUTES) * 60 * 1000,
+    retentionMs: readNumber('MATCH_RETENTION_HOURS', DEFAULT_RETENTION_HOURS) * 60 * 60 * 1000
+  };
+}
+
+/**
+ * Normalise a team name for comparison: no diacritics, case or punctuation, and đ spelled dj,
+ * e.g. "Đoković N." -> "djokovic n"
+ */
+export function normalizeTeamName(name: string): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[đĐ]/g, 'dj')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// One side of a fixture, as seen in either feed
+interface MatchRecord {
+  source: Mode;
+  id: number;
+  sport: string;
+  home: string;
+  away: string;
+  league: string;
+  kickOffTime: number;
+  brMatchId: number | null;
+  matchCode: number | null;
+}
+
+/**
+ * Links the pre-game and live records of the same fixture and gives it a stable id.
+ *
+ * A new record is linked to a fixture seen only in the other feed when their brMatchId is the
+ * same; failing that, when sport and match code agree, or sport and normalised team names do,
+ * with kickoff times within the tolerance. Shared by all jobs, so a pre-game job and a live job
+ * of the same sport build one registry.
+ */
+export class MatchRegistry {
+  private readonly options: MatchRegistryOptions;
+  private fixtures: Map<string, Fixture> = new Map();
+  private lastSeen: Map<string, number> = new Map();
+  private byPreGameId: Map<number, string> = new Map();
+  private byLiveId: Map<number, string> = new Map();
+  private byBrMatchId: Map<number, string> = new Map();
+
+  constructor(options: MatchRegistryOptions = getMatchRegistryOptionsFromEnv()) {
+    this.options = options;
+  }
+
+  /**
+   * Register the matches of a pre-game snapshot
+   */
+  observePreGameMatches(matches: PreGameMatch[], now: number = Date.now()): void {
+    this.logLinks('pre-game', matches.map(match => this.observe({
+      source: 'pre-game',
+      id: match.id,
+      sport: match.sport,
+      home: match.home,
+      away: match.away,
+      league: match.leagueName,
+      kickOffTime: match.kickOffTime,
+      brMatchId: match.brMatchId || null,
+      matchCode: match.matchCode || null
+    }, now)));
+    this.prune(now);
+  }
+
+  /**
+   * Register new or changed live headers
+   */
+  observeLiveHeaders(headers: LiveHeader[], now: number = Date.now()): void {
+    this.logLinks('live', headers.map(header => this.observe({
+      source: 'live',
+      id: header.id,
+      sport: header.s,
+      home: header.h,
+      away: header.a,
+      league: header.lg,
+      kickOffTime: header.kot,
+      brMatchId: header.bri || null,
+      matchCode: header.mc || null
+    }, now)));
+    this.prune(now);
+  }
+
+  get(fixtureId: string): Fixture | null {
+    return this.fixtures.get(fixtureId) || null;
+  }
+
+  /**
+   * Find the fixture of a pre-game match or live header id
+   */
+  findByMatchId(source: Mode, matchId: number): Fixture | null {
+    const fixtureId = (source === 'live' ? this.byLiveId : this.byPreGameId).get(matchId);
+    return fixtureId ? this.fixtures.get(fixtureId) || null : null;
+  }
+
+  /**
+   * Get the fixtures, soonest kickoff first
+   */
+  getFixtures(filter: { sport?: string; linked?: boolean } = {}): Fixture[] {
+    return Array.from(this.fixtures.values())
+      .filter(fixture =>
+        (filter.sport === undefined || fixture.sport === filter.sport) &&
+        (filter.linked === undefined || (fixture.resolvedBy !== null) === filter.linked)
+      )
+      .sort((a, b) => a.kickOffTime - b.kickOffTime);
+  }
+
+  getStats(): MatchRegistryStats {
+    const fixtures = Array.from(this.fixtures.values());
+    const resolvedBy: Record<FixtureResolution, number> = { brMatchId: 0, matchCode: 0, teams: 0 };
+    fixtures.forEach(fixture => {
+      if (fixture.resolvedBy) resolvedBy[fixture.resolvedBy]++;
+    });
+
+    return {
+      fixtures: fixtures.length,
+      linked: fixtures.filter(fixture => fixture.resolvedBy !== null).length,
+      preGameOnly: fixtures.filter(fixture => fixture.liveId === null).length,
+      liveOnly: fixtures.filter(fixture => fixture.preGameId === null).length,
+      resolvedBy
+    };
+  }
+
+  clear(): void {
+    this.fixtures.clear();
+    this.lastSeen.clear();
+    this.byPreGameId.clear();
+    this.byLiveId.clear();
+    this.byBrMatchId.clear();
+  }
+
+  /**
+   * Add or refresh the fixture of a record and return how it was linked, if this linked it
+   */
+  private observe(record: MatchRecord, now: number): FixtureResolution | null {
+    const ownIndex = record.source === 'live' ? this.byLiveId : this.byPreGameId;
+    const known = ownIndex.get(record.id);
+    const timestamp = new Date(now).toISOString();
+
+    if (known) {
+      const fixture = this.fixtures.get(known)!;
+      // Live kickoff and names are the most recent, pre-game ones only fill in
+      if (record.source === 'live' || fixture.liveId === null) {
+        Object.assign(fixture, { home: record.home, away: record.away, league: record.league, kickOffTime: record.kickOffTime });
+      }
+      fixture.lastSeenAt = timestamp;
+      this.lastSeen.set(fixture.id, now);
+      return null;
+    }
+
+    const match = this.resolve(record);
+
+    if (match) {
+      const { fixture, resolvedBy } = match;
+      if (record.source === 'live') {
+        fixture.liveId = record.id;
+        Object.assign(fixture, { home: record.home, away: record.away, league: record.league, kickOffTime: record.kickOffTime });
+      } else {
+        fixture.preGameId = record.id;
+        fixture.matchCode = record.matchCode;
+      }
+      fixture.brMatchId = fixture.brMatchId || record.brMatchId;
+      fixture.resolvedBy = resolvedBy;
+      fixture.linkedAt = timestamp;
+      fixture.lastSeenAt = timestamp;
+      this.index(fixture, record);
+      return resolvedBy;
+    }
+
+    const prefix = record.brMatchId ? 'br' : record.source === 'live' ? 'lv' : 'pg';
+    const fixture: Fixture = {
+      id: `${prefix}-${record.brMatchId || record.id}`,
+      sport: record.sport,
+      home: record.home,
+      away: record.away,
+      league: record.league,
+      kickOffTime: record.kickOffTime,
+      brMatchId: record.brMatchId,
+      matchCode: record.matchCode,
+      preGameId: record.source === 'pre-game' ? record.id : null,
+      liveId: record.source === 'live' ? record.id : null,
+      resolvedBy: null,
+      firstSeenAt: timestamp,
+      lastSeenAt: timestamp,
+      linkedAt: null
+    };
+
+    // Two records claiming the same brMatchId in one feed keep separate fixtures
+    if (this.fixtures.has(fixture.id)) {
+      fixture.id = `${record.source === 'live' ? 'lv' : 'pg'}-${record.id}`;
+    }
+
+    this.fixtures.set(fixture.id, fixture);
+    this.index(fixture, record);
+    return null;
+  }
+
+  /**
+   * Log one line for the records of an observe call that were linked to a fixture
+   */
+  private logLinks(source: Mode, links: (FixtureResolution | null)[]): void {
+    const resolvedBy: Partial<Record<FixtureResolution, number>> = {};
+    links.forEach(link => {
+      if (link) resolvedBy[link] = (resolvedBy[link] || 0) + 1;
+    });
+
+    const linked = Object.values(resolvedBy).reduce((sum, count) => sum + count, 0);
+    if (linked > 0) {
+      const detail = Object.entries(resolvedBy).map(([by, count]) => `${count} by ${by}`).join(', ');
+      console.log(`Linked ${linked} ${source} matches to fixtures (${detail})`);
+    }
+  }
+
+  /**
+   * Find the fixture seen only in the other feed that a new record belongs to
+   */
+  private resolve(record: MatchRecord): { fixture: Fixture; resolvedBy: FixtureResolution } | null {
+    const isOpen = (fixture: Fixture) => (record.source === 'live' ? fixture.liveId : fixture.preGameId) === null;
+
+    if (record.brMatchId) {
+      const fixture = this.fixtures.get(this.byBrMatchId.get(record.brMatchId) || '');
+      if (fixture && isOpen(fixture)) {
+        return { fixture, resolvedBy: 'brMatchId' };
+      }
+    }
+
+    const candidates = Array.from(this.fixtures.values()).filter(fixture =>
+      isOpen(fixture) &&
+      fixture.sport === record.sport &&
+      Math.abs(fixture.kickOffTime - record.kickOffTime) <= this.options.kickoffToleranceMs &&
+      // Different brMatchIds on both sides are different fixtures
+      !(fixture.brMatchId && record.brMatchId && fixture.brMatchId !== record.brMatchId)
+    );
+
+    const byCode = record.matchCode !== null ? candidates.find(fixture => fixture.matchCode === record.matchCode) : undefined;
+    if (byCode) {
+      return { fixture: byCode, resolvedBy: 'matchCode' };
+    }
+
+    const home = normalizeTeamName(record.home);
+    const away = normalizeTeamName(record.away);
+    const byTeams = candidates.find(fixture => normalizeTeamName(fixture.home) === home && normalizeTeamName(fixture.away) === away);
+    return byTeams ? { fixture: byTeams, resolvedBy: 'teams' } : null;
+  }
+
+  private index(fixture: Fixture, record: MatchRecord): void {
+    (record.source === 'live' ? this.byLiveId : this.byPreGameId).set(record.id, fixture.id);
+    if (record.brMatchId && !this.byBrMatchId.has(record.brMatchId)) {
+      this.byBrMatchId.set(record.brMatchId, fixture.id);
+    }
+    this.lastSeen.set(fixture.id, Date.parse(fixture.lastSeenAt));
+  }
+
+  /**
+   * Forget fixtures neither feed has mentioned for the retention period
+   */
+  private prune(now: number): void {
+    this.lastSeen.forEach((seenAt, fixtureId) => {
+      if (now - seenAt <= this.options.retentionMs) {
+        return;
+      }
+
+      const fixture = this.fixtures.get(fixtureId)!;
+      if (fixture.preGameId !== null) this.byPreGameId.delete(fixture.preGameId);
+      if (fixture.liveId !== null) this.byLiveId.delete(fixture.liveId);
+      if (fixture.brMatchId !== null && this.byBrMatchId.get(fixture.brMatchId) === fixtureId) {
+        this.byBrMatchId.delete(fixture.brMatchId);
+      }
+      this.fixtures.delete(fixtureId);
+      this.lastSeen.delete(fixtureId);
+    });
+  }
+}
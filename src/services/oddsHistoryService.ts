@@ -0,0 +1,113 @@
+import { OddsHistoryStore } from './oddsHistoryStore';
+import { SportMappingService } from './sportMappingService';
+import { OddsChangeRecord, OddsHistoryQuery, OddsSeries, OddsSource } from '../types/historyTypes';
+
+const ALL_SOURCES: OddsSource[] = ['live', 'pre-game'];
+
+/**
+ * Builds labelled odds time series from the persisted odds history
+ */
+export class OddsHistoryService {
+  private oddsHistory: OddsHistoryStore;
+  private sportMappingService: SportMappingService;
+
+  constructor(oddsHistory: OddsHistoryStore, sportMappingService: SportMappingService) {
+    this.oddsHistory = oddsHistory;
+    this.sportMappingService = sportMappingService;
+  }
+
+  /**
+   * Get one odds series per tip key of a match, optionally narrowed to one bet and special value
+   */
+  async getMatchHistory(matchId: number, query: OddsHistoryQuery = {}): Promise<OddsSeries[]> {
+    const sources = query.source ? [query.source] : ALL_SOURCES;
+    const series: OddsSeries[] = [];
+
+    for (const source of sources) {
+      const records = await this.oddsHistory.readMatchHistory(source, matchId);
+      const filtered = records.filter(record =>
+        (query.betCode === undefined || record.betCode === query.betCode) &&
+        (query.specialValue === undefined || record.specialValue === query.specialValue)
+      );
+
+      series.push(...this.buildSeries(filtered));
+    }
+
+    return series.sort((a, b) =>
+      a.source.localeCompare(b.source) ||
+      a.betCode - b.betCode ||
+      a.specialValue.localeCompare(b.specialValue) ||
+      a.tipType.localeCompare(b.tipType, undefined, { numeric: true })
+    );
+  }
+
+  /**
+   * Group records by tip key and summarise each group
+   */
+  private buildSeries(records: OddsChangeRecord[]): OddsSeries[] {
+    const grouped = new Map<string, OddsChangeRecord[]>();
+
+    records.forEach(record => {
+      const key = `${record.betCode}|${record.specialValue}|${record.tipType}`;
+      if (!grouped.has(key)) {
+        grouped.set(key, []);
+      }
+      grouped.get(key)!.push(record);
+    });
+
+    return Array.from(grouped.values()).map(group => {
+      const first = group[0];
+      const last = group[group.length - 1];
+      const oddsValues = group.map(record => record.odds);
+      const labels = this.getLabels(last);
+
+      return {
+        source: first.source,
+        matchId: first.matchId,
+        betCode: first.betCode,
+        specialValue: first.specialValue,
+        tipType: first.tipType,
+        betPickCode: last.betPickCode,
+        sportCode: last.sportCode,
+        description: labels.description,
+        caption: labels.caption,
+        groupId: labels.groupId,
+        groupName: labels.groupName,
+        openingOdds: first.odds,
+        currentOdds: last.odds,
+        // reduce rather than spreading into Math.min/max, which overflows the stack on long histories
+        minOdds: oddsValues.reduce((min, odds) => Math.min(min, odds), Infinity),
+        maxOdds: oddsValues.reduce((max, odds) => Math.max(max, odds), -Infinity),
+        changes: group.length - 1,
+        openedAt: first.timestamp,
+        updatedAt: last.timestamp,
+        points: group.map(record => ({ timestamp: record.timestamp, odds: record.odds }))
+      };
+    });
+  }
+
+  /**
+   * Label a tip key using the same enrichment as the live bet endpoints
+   */
+  private getLabels(record: OddsChangeRecord): { description: string; caption: string; groupId: number | null; groupName: string | null } {
+    if (!record.sportCode) {
+      return { description: 'Unknown bet', caption: record.tipType, groupId: null, groupName: null };
+    }
+
+    const enhanced = this.sportMappingService.enhanceBetData({
+      id: record.betCode,
+      bc: record.betCode,
+      mId: record.matchId,
+      sv: record.specialValue,
+      om: { [record.tipType]: { ov: record.odds, bpc: record.betPickCode } }
+    }, record.sportCode);
+
+    const odd = enhanced.odds[0];
+    return {
+      description: odd?.description || 'Unknown bet',
+      caption: odd?.caption || record.tipType,
+      groupId: odd?.groupId || null,
+      groupName: odd?.groupName || null
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OddsHistoryStore } from './oddsHistoryStore';
+import { PreGameMatch } from '../types/pregameTypes';
+
+const historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'odds-history-test-'));
+
+after(() => {
+  fs.rmSync(historyDir, { recursive: true, force: true });
+});
+
+/**
+ * Build a pre-game match with one market of two tips
+ */
+function preGameMatch(id: number, sport: string, home: number, away: number): PreGameMatch {
+  return {
+    id,
+    matchCode: id,
+    home: 'Home',
+    away: 'Away',
+    kickOffTime: 0,
+    status: 0,
+    blocked: false,
+    favourite: false,
+    sport,
+    leagueId: 1,
+    leagueName: 'League',
+    leagueShort: 'L',
+    live: false,
+    brMatchId: null,
+    betMap: {
+      '1': { '': { bpc: 1, tt: 1, s: 'ACTIVE', ov: home, bc: 1, sv: '' } },
+      '2': { '': { bpc: 2, tt: 2, s: 'ACTIVE', ov: away, bc: 1, sv: '' } }
+    }
+  };
+}
+
+test('reads the last odds of a match back from its file after a restart', async () => {
+  const first = new OddsHistoryStore(historyDir);
+  assert.equal(first.recordPreGameMatches([preGameMatch(1, 'S', 2.1, 1.8)], 1), 2);
+  assert.equal(first.recordPreGameMatches([preGameMatch(1, 'S', 2.2, 1.8)], 2), 1);
+  await first.flush();
+
+  const restarted = new OddsHistoryStore(historyDir);
+  assert.equal(restarted.recordPreGameMatches([preGameMatch(1, 'S', 2.2, 1.8)], 3), 0);
+  assert.equal(restarted.recordPreGameMatches([preGameMatch(1, 'S', 2.2, 1.7)], 4), 1);
+
+  const history = await restarted.readMatchHistory('pre-game', 1);
+  assert.deepEqual(history.map(record => [record.tipType, record.odds]), [['1', 2.1], ['2', 1.8], ['1', 2.2], ['2', 1.7]]);
+});
+
+test('reads the odds of a forgotten sport back from the history', async () => {
+  const store = new OddsHistoryStore(historyDir);
+  const matches = [preGameMatch(2, 'S', 1.5, 2.5), preGameMatch(3, 'T', 1.4, 2.8)];
+  store.recordPreGameMatches(matches, 1);
+  await store.flush();
+
+  // Another writer moved the home odds of both matches
+  for (const matchId of [2, 3]) {
+    const record = { source: 'pre-game', matchId, betCode: 1, specialValue: '', tipType: '1', odds: 9.9, betPickCode: 1, sportCode: null, timestamp: 5 };
+    fs.appendFileSync(path.join(historyDir, 'pre-game', `${matchId}.jsonl`), JSON.stringify(record) + '\n');
+  }
+
+  // Only the forgotten sport sees the file again
+  store.forgetSport('pre-game', 'S');
+  assert.equal(store.recordPreGameMatches(matches, 9), 1);
+  assert.deepEqual((await store.readMatchHistory('pre-game', 2)).map(record => record.odds), [1.5, 2.5, 9.9, 1.5]);
+  assert.equal((await store.readMatchHistory('pre-game', 3)).length, 3);
+});
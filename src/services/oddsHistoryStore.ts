@@ -0,0 +1,336 @@
+import fs from 'fs';
+import path from 'path';
+import { LiveBet, EvictedLiveMatch } from '../types/liveTypes';
+import { PreGameMatch } from '../types/pregameTypes';
+import { OddsChangeRecord, OddsSource } from '../types/historyTypes';
+import { ClosingLine } from '../types/closingLineTypes';
+
+const DEFAULT_HISTORY_DIR = path.join(process.cwd(), 'data', 'odds-history');
+const FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * Check if a value is a known odds history source
+ */
+export function isOddsSource(value: unknown): value is OddsSource {
+  return value === 'live' || value === 'pre-game';
+}
+
+/**
+ * Append-only odds change log on the local disk.
+ *
+ * Every (match, bet code, special value, tip type) odds value is written once and then
+ * again only when it changes. Records are stored as JSON lines in one file per match:
+ * `<baseDir>/<source>/<matchId>.jsonl`. Evicted live matches can be archived with their
+ * last header, result and bets to `<baseDir>/archive/live/<matchId>.jsonl`. Closing lines
+ * are appended to `<baseDir>/closing-lines.jsonl`. The last odds of a match are read back from
+ * its file when the match is first recorded, so a restart does not write unchanged odds again.
+ */
+export class OddsHistoryStore {
+  private readonly baseDir: string;
+  private lastOdds: Map<string, number> = new Map();
+  private matchSports: Map<string, string | null> = new Map(); // sport code of every match with last odds in memory
+  private pending: Map<string, string[]> = new Map();
+  private writing: Map<string, string[]> = new Map(); // lines being appended by the running flush
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private recordedCount: number = 0;
+
+  constructor(baseDir: string = process.env.ODDS_HISTORY_DIR || DEFAULT_HISTORY_DIR) {
+    this.baseDir = baseDir;
+    console.log(`Odds history will be stored in: ${this.baseDir}`);
+  }
+
+  /**
+   * Record odds of live bets that changed since they were last seen
+   */
+  recordLiveBets(bets: LiveBet[], getSportCode: (matchId: number) => string | null, timestamp: number = Date.now()): number {
+    const records: OddsChangeRecord[] = [];
+
+    for (const bet of bets) {
+      // Partial updates may not carry the odds map
+      if (!bet.om) continue;
+
+      const sportCode = getSportCode(bet.mId);
+      Object.entries(bet.om).forEach(([tipType, odd]) => {
+        records.push({
+          source: 'live',
+          matchId: bet.mId,
+          betCode: bet.bc,
+          specialValue: bet.sv || '',
+          tipType,
+          odds: odd.ov,
+          betPickCode: odd.bpc,
+          sportCode,
+          timestamp
+        });
+      });
+    }
+
+    return this.recordChanges(records);
+  }
+
+  /**
+   * Record odds of pre-game matches that changed since the previous refresh
+   */
+  recordPreGameMatches(matches: PreGameMatch[], timestamp: number = Date.now()): number {
+    const records: OddsChangeRecord[] = [];
+
+    for (const match of matches) {
+      Object.entries(match.betMap || {}).forEach(([tipType, betData]) => {
+        Object.values(betData).forEach(bet => {
+          records.push({
+            source: 'pre-game',
+            matchId: match.id,
+            betCode: bet.bc,
+            specialValue: bet.sv || '',
+            tipType,
+            odds: bet.ov,
+            betPickCode: bet.bpc,
+            sportCode: match.sport,
+            timestamp
+          });
+        });
+      });
+    }
+
+    return this.recordChanges(records);
+  }
+
+  /**
+   * Archive the last state of an evicted live match
+   */
+  archiveLiveMatch(match: EvictedLiveMatch): void {
+    const filePath = path.join(this.baseDir, 'archive', 'live', `${match.matchId}.jsonl`);
+    const record = {
+      ...match,
+      evictedAt: new Date(match.evictedAt).toISOString(),
+      lastSeenAt: new Date(match.lastSeenAt).toISOString()
+    };
+
+    if (!this.pending.has(filePath)) {
+      this.pending.set(filePath, []);
+    }
+    this.pending.get(filePath)!.push(JSON.stringify(record));
+    this.scheduleFlush();
+  }
+
+  /**
+   * Persist a captured closing line
+   */
+  recordClosingLine(line: ClosingLine): void {
+    const filePath = this.getClosingLinesPath();
+
+    if (!this.pending.has(filePath)) {
+      this.pending.set(filePath, []);
+    }
+    this.pending.get(filePath)!.push(JSON.stringify(line));
+    this.scheduleFlush();
+  }
+
+  /**
+   * Read every persisted closing line, oldest first
+   */
+  async readClosingLines(): Promise<ClosingLine[]> {
+    await this.flush();
+    return this.readJsonLines<ClosingLine>(this.getClosingLinesPath());
+  }
+
+  /**
+   * Forget the last odds of a match, so nothing is kept in memory for it after eviction
+   */
+  forgetMatch(source: OddsSource, matchId: number): void {
+    const prefix = `${source}|${matchId}|`;
+    for (const key of Array.from(this.lastOdds.keys())) {
+      if (key.startsWith(prefix)) {
+        this.lastOdds.delete(key);
+      }
+    }
+    this.matchSports.delete(`${source}|${matchId}`);
+  }
+
+  /**
+   * Forget the last odds of every match of a sport, e.g. when its collection stops
+   */
+  forgetSport(source: OddsSource, sportCode: string): void {
+    for (const [match, matchSport] of Array.from(this.matchSports)) {
+      const [matchSource, matchId] = match.split('|');
+      if (matchSource === source && matchSport === sportCode) {
+        this.forgetMatch(source, Number(matchId));
+      }
+    }
+  }
+
+  /**
+   * Write buffered records to disk
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // Chain flushes so appends to the same file never interleave
+    this.flushing = this.flushing.then(() => this.writePending());
+    return this.flushing;
+  }
+
+  /**
+   * Read every recorded odds change of a match, oldest first
+   */
+  async readMatchHistory(source: OddsSource, matchId: number): Promise<OddsChangeRecord[]> {
+    // Make sure buffered changes are part of the result
+    await this.flush();
+
+    const records = await this.readJsonLines<OddsChangeRecord>(this.getMatchFilePath(source, matchId));
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Get the number of records written since startup
+   */
+  getRecordedCount(): number {
+    return this.recordedCount;
+  }
+
+  /**
+   * Get the directory the history is stored in
+   */
+  getBaseDir(): string {
+    return this.baseDir;
+  }
+
+  /**
+   * Keep only records whose odds differ from the last value seen for the same key
+   */
+  private recordChanges(records: OddsChangeRecord[]): number {
+    let changed = 0;
+
+    for (const record of records) {
+      this.seedMatch(record);
+
+      const key = this.getOddsKey(record);
+      if (this.lastOdds.get(key) === record.odds) continue;
+
+      this.lastOdds.set(key, record.odds);
+
+      const filePath = this.getMatchFilePath(record.source, record.matchId);
+      if (!this.pending.has(filePath)) {
+        this.pending.set(filePath, []);
+      }
+      this.pending.get(filePath)!.push(JSON.stringify(record));
+      changed++;
+    }
+
+    if (changed > 0) {
+      this.recordedCount += changed;
+      this.scheduleFlush();
+    }
+
+    return changed;
+  }
+
+  /**
+   * Load the last recorded odds of a match the first time it is recorded, from its file and
+   * from lines not written out yet
+   */
+  private seedMatch(record: OddsChangeRecord): void {
+    const match = `${record.source}|${record.matchId}`;
+    if (this.matchSports.has(match)) return;
+
+    this.matchSports.set(match, record.sportCode);
+
+    const filePath = this.getMatchFilePath(record.source, record.matchId);
+    let content = '';
+    try {
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read odds history from ${filePath}:`, error);
+      }
+    }
+
+    const unwritten = [...(this.writing.get(filePath) || []), ...(this.pending.get(filePath) || [])];
+    const recorded = this.parseJsonLines<OddsChangeRecord>([content, ...unwritten].join('\n'), filePath);
+    recorded.forEach(previous => this.lastOdds.set(this.getOddsKey(previous), previous.odds));
+  }
+
+  /**
+   * Append all buffered lines to their match files
+   */
+  private async writePending(): Promise<void> {
+    const batch = this.pending;
+    this.pending = new Map();
+    this.writing = batch;
+
+    for (const [filePath, lines] of batch) {
+      try {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.appendFile(filePath, lines.join('\n') + '\n', 'utf8');
+      } catch (error) {
+        console.error(`Failed to write odds history to ${filePath}:`, error);
+      }
+    }
+
+    this.writing = new Map();
+  }
+
+  /**
+   * Flush shortly after the first buffered change
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Read a JSON lines file, or nothing if it does not exist yet
+   */
+  private async readJsonLines<T>(filePath: string): Promise<T[]> {
+    let content: string;
+
+    try {
+      content = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return this.parseJsonLines<T>(content, filePath);
+  }
+
+  /**
+   * Parse JSON lines, skipping malformed ones
+   */
+  private parseJsonLines<T>(content: string, filePath: string): T[] {
+    const records: T[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch (error) {
+        // A crash during an append can leave a truncated last line
+        console.warn(`Skipping malformed line in ${filePath}`);
+      }
+    }
+
+    return records;
+  }
+
+  private getOddsKey(record: OddsChangeRecord): string {
+    return `${record.source}|${record.matchId}|${record.betCode}|${record.specialValue}|${record.tipType}`;
+  }
+
+  private getMatchFilePath(source: OddsSource, matchId: number): string {
+    return path.join(this.baseDir, source, `${matchId}.jsonl`);
+  }
+
+  private getClosingLinesPath(): string {
+    return path.join(this.baseDir, 'closing-lines.jsonl');
+  }
+}
@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OpportunityScanner, OpportunityScannerOptions, ScannedMatch } from './opportunityScanner';
+import { parseSpecifiers } from './labelRenderer';
+import { priceMarket } from './marketPricing';
+import { MarketBuilder } from './marketBuilder';
+import { toPreGameSnapshot } from './feedRecords';
+import { SOCCERBET_COMPLEMENTARY_PAIRS, toPreGameOffer } from './soccerbetAdapter';
+import { Market } from '../types/marketTypes';
+import { SoccerbetPreGameResponse } from '../types/soccerbetTypes';
+import preGameFixture from '../mock/fixtures/pregame.json';
+
+const options: OpportunityScannerOptions = {
+  minArbitrageEdge: 0,
+  minValueEdge: 0.05,
+  minHistorySamples: 2,
+  liveHistoryHalfLifeMs: 60000,
+  references: ['imported', 'history']
+};
+
+/**
+ * Build a priced pre-game market from tip codes and odds
+ */
+function market(betCode: number, sv: string, odds: Record<number, number>): Market {
+  return priceMarket({
+    id: `1_${betCode}_${sv}`,
+    source: 'pre-game',
+    matchId: 1,
+    betId: null,
+    betCode,
+    name: null,
+    group: null,
+    sv,
+    specifiers: parseSpecifiers(sv),
+    status: 'ACTIVE',
+    active: true,
+    pricing: null,
+    selections: Object.entries(odds).map(([tipCode, value]) => ({
+      tipCode: Number(tipCode),
+      betPickCode: 0,
+      label: tipCode,
+      caption: tipCode,
+      odds: value,
+      status: 'ACTIVE',
+      active: true,
+      impliedProbability: null,
+      fairProbability: null,
+      fairOdds: null
+    }))
+  });
+}
+
+const scanned = (markets: Market[]): ScannedMatch => ({ source: 'pre-game', matchId: 1, match: 'Home - Away', league: 'League', markets });
+
+test('finds an arbitrage within one market', () => {
+  const scanner = new OpportunityScanner(options);
+  scanner.scanMatches([scanned([market(2, 'total=2.5', { 4: 2.1, 5: 2.05 }), market(1, '', { 1: 2.1, 2: 3.2, 3: 3.4 })])]);
+
+  const [arbitrage, ...rest] = scanner.getOpportunities({ type: 'arbitrage' });
+  assert.equal(rest.length, 0);
+  assert.equal(arbitrage.id, 'arbitrage_1_2_total=2.5');
+  assert.ok(arbitrage.edge > 0);
+  assert.equal(arbitrage.selections.reduce((sum, selection) => sum + selection.stake!, 0).toFixed(2), '1.00');
+});
+
+test('combines complementary selections of different bet codes', () => {
+  const scanner = new OpportunityScanner(options, SOCCERBET_COMPLEMENTARY_PAIRS);
+  scanner.scanMatches([scanned([
+    market(1, '', { 1: 2.3, 2: 3.2, 3: 3.4 }),
+    market(4, '', { 10: 1.28, 11: 1.9, 12: 1.3 })
+  ])]);
+
+  const arbitrages = scanner.getOpportunities({ type: 'arbitrage' });
+  assert.deepEqual(arbitrages.map(arbitrage => arbitrage.id), ['arbitrage_1_1__1_1_4__11']);
+  assert.deepEqual(arbitrages[0].selections.map(selection => [selection.marketId, selection.tipCode]), [['1_1_', 1], ['1_4_', 11]]);
+});
+
+test('pairs lines quoted per side through the negated specifier', () => {
+  const scanner = new OpportunityScanner(options, [{ betCode: 3, tipCode: 6, otherBetCode: 3, otherTipCode: 7, negatedSpecifier: 'hcp' }]);
+  scanner.scanMatches([scanned([
+    market(3, 'hcp=-1.5', { 6: 2.2, 7: 1.5 }),
+    market(3, 'hcp=1.5', { 6: 1.3, 7: 2.1 }),
+    market(3, 'hcp=2.5', { 6: 1.1, 7: 9 })
+  ])]);
+
+  const arbitrages = scanner.getOpportunities({ type: 'arbitrage' });
+  assert.deepEqual(arbitrages.map(arbitrage => arbitrage.id), ['arbitrage_1_3_hcp=-1.5_6_1_3_hcp=1.5_7']);
+});
+
+test('pairs the soccerbet handicap sides of opposite lines', () => {
+  const [match] = toPreGameSnapshot(toPreGameOffer(preGameFixture as unknown as SoccerbetPreGameResponse)).matches;
+  const markets = new MarketBuilder().fromPreGameMatch(match, match.sport);
+
+  // Report every pair, whatever its overround
+  const scanner = new OpportunityScanner({ ...options, minArbitrageEdge: -1 }, SOCCERBET_COMPLEMENTARY_PAIRS);
+  scanner.scanMatches([{ ...scanned(markets), matchId: match.id }]);
+
+  const handicaps = scanner.getOpportunities({ type: 'arbitrage' })
+    .filter(arbitrage => arbitrage.selections.length === 2 && arbitrage.selections[0].marketId !== arbitrage.selections[1].marketId)
+    .filter(arbitrage => arbitrage.selections.every(selection => selection.marketId.startsWith(`${match.id}_3_`)));
+  assert.deepEqual(handicaps.map(arbitrage => arbitrage.selections.map(selection => [selection.marketId, selection.tipCode, selection.odds])), [
+    [[`${match.id}_3_hcp=1.5`, 6, 3.9], [`${match.id}_3_hcp=-1.5`, 7, 1.28]],
+    [[`${match.id}_3_hcp=-1.5`, 6, 3.6], [`${match.id}_3_hcp=1.5`, 7, 1.3]]
+  ]);
+});
+
+test('skips pairs with a suspended selection', () => {
+  const suspended = market(4, '', { 10: 1.28, 11: 1.9, 12: 1.3 });
+  suspended.selections[1].active = false;
+
+  const scanner = new OpportunityScanner(options, SOCCERBET_COMPLEMENTARY_PAIRS);
+  scanner.scanMatches([scanned([market(1, '', { 1: 2.3, 2: 3.2, 3: 3.4 }), suspended])]);
+
+  assert.deepEqual(scanner.getOpportunities({ type: 'arbitrage' }), []);
+});
+
+const live = (markets: Market[], state: string): ScannedMatch => ({ ...scanned(markets), source: 'live', state });
+
+test('weighs live prices by how long they were quoted', () => {
+  const scanner = new OpportunityScanner(options);
+
+  // A burst of updates on the old price, then the new price for ten minutes
+  for (let second = 0; second < 20; second++) {
+    scanner.scanMatches([live([market(1, '', { 1: 2.0, 2: 3.4, 3: 4.0 })], '0:0 1')], second * 1000);
+  }
+  scanner.scanMatches([live([market(1, '', { 1: 3.0, 2: 3.2, 3: 2.4 })], '0:0 1')], 20000);
+  scanner.scanMatches([live([market(1, '', { 1: 3.0, 2: 3.2, 3: 2.4 })], '0:0 1')], 620000);
+
+  assert.deepEqual(scanner.getOpportunities({ type: 'value' }), []);
+});
+
+test('restarts the live consensus when the score changes', () => {
+  const before = market(1, '', { 1: 2.0, 2: 3.4, 3: 4.0 });
+  const after = market(1, '', { 1: 1.5, 2: 3.4, 3: 7.0 });
+
+  const unchanged = new OpportunityScanner(options);
+  [0, 60000, 120000].forEach(now => unchanged.scanMatches([live([before], '0:0 1')], now));
+  unchanged.scanMatches([live([after], '0:0 1')], 121000);
+  assert.deepEqual(unchanged.getOpportunities({ type: 'value' }).map(finding => finding.id), ['value_1_1__3']);
+
+  const scored = new OpportunityScanner(options);
+  [0, 60000, 120000].forEach(now => scored.scanMatches([live([before], '0:0 1')], now));
+  scored.scanMatches([live([after], '1:0 1')], 121000);
+  assert.deepEqual(scored.getOpportunities({ type: 'value' }), []);
+  assert.equal(scored.getStats().trackedSelections, 3);
+});
@@ -0,0 +1,448 @@
+import { ComplementaryPair, Market, MarketSpecifiers } from '../types/marketTypes';
+import { Opportunity, OpportunityReference, OpportunityStats, OpportunityType, ReferencePrice } from '../types/opportunityTypes';
+import { Mode } from '../types';
+
+export interface OpportunityScannerOptions {
+  minArbitrageEdge: number; // report arbitrages returning more than this, e.g. 0.01 = 1%
+  minValueEdge: number; // report selections whose odds beat the fair price by at least this
+  minHistorySamples: number; // snapshots a selection needs before its consensus is used
+  liveHistoryHalfLifeMs: number; // how fast old live prices fade from the consensus, 0 keeps them forever
+  references: OpportunityReference[]; // fair price sources for value bets, first match wins
+}
+
+// A match with its markets, as handed to the scanner after a live merge or pre-game refresh
+export interface ScannedMatch {
+  source: Mode;
+  matchId: number;
+  match: string;
+  league: string;
+  markets: Market[];
+  state?: string | null; // score and period of a live match; the consensus restarts when it changes
+}
+
+// Time-weighted history of a selection's margin-free probability
+interface Consensus {
+  weightedSum: number; // probabilities weighted by how long they were quoted, decayed for live matches
+  weight: number;
+  samples: number;
+  probability: number | null; // quoted since `since`, null while suspended
+  since: number;
+  halfLifeMs: number;
+}
+
+const REFERENCES: OpportunityReference[] = ['imported', 'history'];
+const DEFAULT_MIN_VALUE_EDGE = 0.05;
+const DEFAULT_MIN_HISTORY_SAMPLES = 5;
+const DEFAULT_LIVE_HISTORY_HALF_LIFE_SECONDS = 300;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Add the probability quoted since the last sample to the weighted history, decaying what came
+ * before. Each price weighs as long as it was quoted, however often the feed repeated it.
+ */
+function accrue(consensus: Consensus, now: number): Pick<Consensus, 'weightedSum' | 'weight'> {
+  const elapsed = Math.max(0, now - consensus.since);
+  const decay = consensus.halfLifeMs > 0 ? Math.pow(0.5, elapsed / consensus.halfLifeMs) : 1;
+  const held = consensus.probability === null ? 0 : consensus.halfLifeMs > 0 ? consensus.halfLifeMs / Math.LN2 * (1 - decay) : elapsed;
+
+  return {
+    weightedSum: consensus.weightedSum * decay + (consensus.probability || 0) * held,
+    weight: consensus.weight * decay + held
+  };
+}
+
+/**
+ * Check that two markets are on the same line: equal specifiers, except the negated one
+ */
+function isSameLine(specifiers: MarketSpecifiers, other: MarketSpecifiers, negatedSpecifier?: string): boolean {
+  const names = Object.keys(specifiers);
+
+  return names.length === Object.keys(other).length && names.every(name => name === negatedSpecifier
+    ? other[name] !== undefined && Number(other[name]) === -Number(specifiers[name])
+    : other[name] === specifiers[name]
+  );
+}
+
+/**
+ * Read the scanner settings from OPPORTUNITY_MIN_ARBITRAGE_EDGE, OPPORTUNITY_MIN_VALUE_EDGE,
+ * OPPORTUNITY_MIN_HISTORY_SAMPLES, OPPORTUNITY_LIVE_HISTORY_HALF_LIFE_SECONDS and
+ * OPPORTUNITY_REFERENCES (comma separated, in order of preference)
+ */
+export function getOpportunityScannerOptionsFromEnv(): OpportunityScannerOptions {
+  const readNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  const references = (process.env.OPPORTUNITY_REFERENCES || '')
+    .split(',')
+    .map(reference => reference.trim())
+    .filter((reference): reference is OpportunityReference => (REFERENCES as string[]).includes(reference));
+
+  return {
+    minArbitrageEdge: readNumber('OPPORTUNITY_MIN_ARBITRAGE_EDGE', 0),
+    minValueEdge: readNumber('OPPORTUNITY_MIN_VALUE_EDGE', DEFAULT_MIN_VALUE_EDGE),
+    minHistorySamples: Math.max(1, Math.round(readNumber('OPPORTUNITY_MIN_HISTORY_SAMPLES', DEFAULT_MIN_HISTORY_SAMPLES))),
+    liveHistoryHalfLifeMs: readNumber('OPPORTUNITY_LIVE_HISTORY_HALF_LIFE_SECONDS', DEFAULT_LIVE_HISTORY_HALF_LIFE_SECONDS) * 1000,
+    references: references.length > 0 ? references : REFERENCES
+  };
+}
+
+/**
+ * Check the shape of a reference price sent by a client
+ */
+export function isReferencePrice(value: any): value is ReferencePrice {
+  const isPositive = (number: unknown) => typeof number === 'number' && Number.isFinite(number) && number > 0;
+
+  return !!value &&
+    Number.isInteger(value.matchId) &&
+    Number.isInteger(value.betCode) &&
+    Number.isInteger(value.tipCode) &&
+    (value.sv === undefined || typeof value.sv === 'string') &&
+    ((isPositive(value.fairOdds) && value.fairOdds > 1) || (isPositive(value.probability) && value.probability < 1));
+}
+
+/**
+ * Finds arbitrages and value bets in the markets of each scanned snapshot.
+ *
+ * An arbitrage is a set of selections covering every outcome whose odds add up to an
+ * overround below 1: all selections of one market, or a complementary pair of selections
+ * from two markets of the same match, e.g. "1" of the match result and "X2" of the double
+ * chance. A value bet is a selection whose odds beat a fair price: an imported reference
+ * price, or the consensus of the margin-free probabilities the scanner has seen for the
+ * selection in earlier snapshots. The consensus weighs every price by how long it was quoted;
+ * for live matches old prices fade and a new score or period starts it over.
+ */
+export class OpportunityScanner {
+  private readonly options: OpportunityScannerOptions;
+  private readonly complementaryPairs: ComplementaryPair[];
+  private findings: Map<number, Opportunity[]> = new Map();
+  private scannedMatchIds: Set<number> = new Set();
+  private consensus: Map<string, Consensus> = new Map();
+  private matchStates: Map<number, string> = new Map();
+  private referencePrices: Map<string, number> = new Map();
+  private scans = 0;
+  private lastScanAt: string | null = null;
+  private lastScanDurationMs: number | null = null;
+
+  constructor(options: OpportunityScannerOptions = getOpportunityScannerOptionsFromEnv(), complementaryPairs: ComplementaryPair[] = []) {
+    this.options = options;
+    this.complementaryPairs = complementaryPairs;
+  }
+
+  /**
+   * Scan some matches and replace their findings
+   */
+  scanMatches(matches: ScannedMatch[], now: number = Date.now()): void {
+    const startedAt = Date.now();
+
+    matches.forEach(match => {
+      // Prices before a goal or a new period say nothing about the current ones
+      const state = match.state;
+      if (state !== undefined && state !== null) {
+        if (this.matchStates.has(match.matchId) && this.matchStates.get(match.matchId) !== state) {
+          this.forgetConsensus(match.matchId);
+        }
+        this.matchStates.set(match.matchId, state);
+      }
+
+      const previous = new Map((this.findings.get(match.matchId) || []).map(finding => [finding.id, finding]));
+      const found = [
+        ...this.findArbitrages(match, now),
+        ...this.findValueBets(match, now)
+      ].map(finding => ({ ...finding, detectedAt: previous.get(finding.id)?.detectedAt || finding.detectedAt }));
+
+      if (found.length > 0) {
+        this.findings.set(match.matchId, found);
+      } else {
+        this.findings.delete(match.matchId);
+      }
+
+      this.recordConsensus(match, now);
+      this.scannedMatchIds.add(match.matchId);
+    });
+
+    this.scans++;
+    this.lastScanAt = new Date(now).toISOString();
+    this.lastScanDurationMs = Date.now() - startedAt;
+  }
+
+  /**
+   * Scan a full snapshot, dropping what is known about matches no longer in it
+   */
+  scanSnapshot(matches: ScannedMatch[], now: number = Date.now()): void {
+    const matchIds = new Set<number>(matches.map(match => match.matchId));
+
+    Array.from(this.scannedMatchIds)
+      .filter(matchId => !matchIds.has(matchId))
+      .forEach(matchId => this.removeMatch(matchId));
+
+    this.scanMatches(matches, now);
+  }
+
+  /**
+   * Forget a match, e.g. when it is evicted from the live feed
+   */
+  removeMatch(matchId: number): void {
+    this.findings.delete(matchId);
+    this.scannedMatchIds.delete(matchId);
+    this.matchStates.delete(matchId);
+    this.forgetConsensus(matchId);
+  }
+
+  /**
+   * Get the current findings, best edge first
+   */
+  getOpportunities(filter: { type?: OpportunityType; minEdge?: number; matchId?: number } = {}): Opportunity[] {
+    return Array.from(this.findings.values())
+      .flat()
+      .filter(finding =>
+        (filter.type === undefined || finding.type === filter.type) &&
+        (filter.minEdge === undefined || finding.edge >= filter.minEdge) &&
+        (filter.matchId === undefined || finding.matchId === filter.matchId)
+      )
+      .sort((a, b) => b.edge - a.edge);
+  }
+
+  /**
+   * Replace the imported reference prices and return how many were stored
+   */
+  setReferencePrices(prices: ReferencePrice[]): number {
+    this.referencePrices.clear();
+
+    prices.forEach(price => {
+      const probability = price.probability !== undefined ? price.probability : 1 / price.fairOdds!;
+      this.referencePrices.set(`${price.matchId}_${price.betCode}_${price.sv || ''}_${price.tipCode}`, probability);
+    });
+
+    return this.referencePrices.size;
+  }
+
+  clearReferencePrices(): void {
+    this.referencePrices.clear();
+  }
+
+  getStats(): OpportunityStats {
+    const findings = Array.from(this.findings.values()).flat();
+
+    return {
+      scans: this.scans,
+      lastScanAt: this.lastScanAt,
+      lastScanDurationMs: this.lastScanDurationMs,
+      arbitrages: findings.filter(finding => finding.type === 'arbitrage').length,
+      valueBets: findings.filter(finding => finding.type === 'value').length,
+      referencePrices: this.referencePrices.size,
+      trackedSelections: this.consensus.size,
+      ...this.options
+    };
+  }
+
+  /**
+   * Forget findings and consensus, e.g. when the job is restarted. Imported prices are kept.
+   */
+  clear(): void {
+    this.findings.clear();
+    this.scannedMatchIds.clear();
+    this.consensus.clear();
+    this.matchStates.clear();
+    this.scans = 0;
+    this.lastScanAt = null;
+    this.lastScanDurationMs = null;
+  }
+
+  private findArbitrages(match: ScannedMatch, now: number): Opportunity[] {
+    const found: Opportunity[] = [];
+
+    // The selections of a market cover all of its outcomes
+    match.markets.forEach(market => {
+      const arbitrage = this.priceArbitrage(market.selections.map(selection => ({ market, selection })));
+      if (arbitrage) {
+        found.push(this.createOpportunity('arbitrage', match, market, now, arbitrage));
+      }
+    });
+
+    // So does each complementary pair of selections from two markets on the same line
+    this.complementaryPairs.forEach(pair => match.markets
+      .filter(market => market.betCode === pair.betCode)
+      .forEach(market => {
+        const selection = market.selections.find(candidate => candidate.tipCode === pair.tipCode);
+        const other = match.markets.find(candidate =>
+          candidate !== market &&
+          candidate.betCode === pair.otherBetCode &&
+          isSameLine(market.specifiers, candidate.specifiers, pair.negatedSpecifier)
+        );
+        const otherSelection = other?.selections.find(candidate => candidate.tipCode === pair.otherTipCode);
+        if (!selection || !other || !otherSelection) {
+          return;
+        }
+
+        const arbitrage = this.priceArbitrage([{ market, selection }, { market: other, selection: otherSelection }]);
+        if (arbitrage) {
+          found.push(this.createOpportunity('arbitrage', match, market, now, {
+            ...arbitrage,
+            id: `arbitrage_${market.id}_${selection.tipCode}_${other.id}_${otherSelection.tipCode}`
+          }));
+        }
+      }));
+
+    return found;
+  }
+
+  /**
+   * Price selections that together cover every outcome, or return null unless all of them
+   * can be bet on and their odds lock in more than the minimum edge
+   */
+  private priceArbitrage(legs: { market: Market; selection: Market['selections'][number] }[]): Pick<Opportunity, 'selections' | 'edge' | 'overround' | 'reference'> | null {
+    if (legs.length < 2 || legs.some(({ selection }) => !selection.active || selection.odds <= 1)) {
+      return null;
+    }
+
+    const overround = legs.reduce((sum, { selection }) => sum + 1 / selection.odds, 0);
+    const edge = 1 / overround - 1;
+
+    if (edge <= this.options.minArbitrageEdge) {
+      return null;
+    }
+
+    return {
+      selections: legs.map(({ market, selection }) => ({
+        marketId: market.id,
+        tipCode: selection.tipCode,
+        label: selection.label,
+        caption: selection.caption,
+        odds: selection.odds,
+        referenceOdds: null,
+        stake: round(1 / selection.odds / overround)
+      })),
+      edge: round(edge),
+      overround: round(overround),
+      reference: null
+    };
+  }
+
+  private findValueBets(match: ScannedMatch, now: number): Opportunity[] {
+    const found: Opportunity[] = [];
+
+    match.markets.forEach(market => market.selections.forEach(selection => {
+      if (!selection.active || selection.odds <= 1) {
+        return;
+      }
+
+      const fair = this.getFairProbability(`${market.id}_${selection.tipCode}`, now);
+      if (!fair) {
+        return;
+      }
+
+      const edge = selection.odds * fair.probability - 1;
+      if (edge < this.options.minValueEdge) {
+        return;
+      }
+
+      found.push(this.createOpportunity('value', match, market, now, {
+        id: `value_${market.id}_${selection.tipCode}`,
+        selections: [{
+          marketId: market.id,
+          tipCode: selection.tipCode,
+          label: selection.label,
+          caption: selection.caption,
+          odds: selection.odds,
+          referenceOdds: Math.round(1000 / fair.probability) / 1000,
+          stake: null
+        }],
+        edge: round(edge),
+        overround: null,
+        reference: fair.reference
+      }));
+    }));
+
+    return found;
+  }
+
+  /**
+   * Get the fair probability of a selection from the first configured reference that has one
+   */
+  private getFairProbability(key: string, now: number): { probability: number; reference: OpportunityReference } | null {
+    for (const reference of this.options.references) {
+      if (reference === 'imported' && this.referencePrices.has(key)) {
+        return { probability: this.referencePrices.get(key)!, reference };
+      }
+
+      const consensus = this.consensus.get(key);
+      if (reference === 'history' && consensus && consensus.samples >= this.options.minHistorySamples) {
+        const { weightedSum, weight } = accrue(consensus, now);
+        if (weight > 0) {
+          return { probability: weightedSum / weight, reference };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Add the margin-free probabilities of priced markets to the consensus, after the scan so a
+   * snapshot is never compared with itself
+   */
+  private recordConsensus(match: ScannedMatch, now: number): void {
+    const halfLifeMs = match.source === 'live' ? this.options.liveHistoryHalfLifeMs : 0;
+
+    match.markets.forEach(market => market.selections.forEach(selection => {
+      // Suspended prices are stale, so only fully open markets count
+      const open = market.pricing !== null && selection.fairProbability !== null && market.selections.every(other => other.active);
+      const key = `${market.id}_${selection.tipCode}`;
+      const consensus = this.consensus.get(key);
+
+      if (!consensus && !open) {
+        return;
+      }
+
+      const updated: Consensus = consensus
+        ? { ...consensus, ...accrue(consensus, now) }
+        : { weightedSum: 0, weight: 0, samples: 0, probability: null, since: now, halfLifeMs };
+      updated.probability = open ? selection.fairProbability : null;
+      updated.samples += open ? 1 : 0;
+      updated.since = now;
+      this.consensus.set(key, updated);
+    }));
+  }
+
+  /**
+   * Drop the consensus of every selection of a match
+   */
+  private forgetConsensus(matchId: number): void {
+    const prefix = `${matchId}_`;
+    for (const key of Array.from(this.consensus.keys())) {
+      if (key.startsWith(prefix)) {
+        this.consensus.delete(key);
+      }
+    }
+  }
+
+  private createOpportunity(
+    type: OpportunityType,
+    match: ScannedMatch,
+    market: Market,
+    now: number,
+    details: Pick<Opportunity, 'selections' | 'edge' | 'overround' | 'reference'> & { id?: string }
+  ): Opportunity {
+    const timestamp = new Date(now).toISOString();
+
+    return {
+      id: details.id || `${type}_${market.id}`,
+      type,
+      source: match.source,
+      matchId: match.matchId,
+      match: match.match,
+      league: match.league,
+      marketId: market.id,
+      market: market.name,
+      betCode: market.betCode,
+      sv: market.sv,
+      selections: details.selections,
+      edge: details.edge,
+      overround: details.overround,
+      reference: details.reference,
+      detectedAt: timestamp,
+      updatedAt: timestamp
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PreGameDiffEngine } from './preGameDiffEngine';
+import { PreGameMatch } from '../types/pregameTypes';
+
+/**
+ * Build a pre-game match from its markets: bet code and sv to tip odds, all active unless closed
+ */
+function preGameMatch(id: number, markets: Record<string, Record<number, number>>, closed: string[] = []): PreGameMatch {
+  const betMap: PreGameMatch['betMap'] = {};
+
+  Object.entries(markets).forEach(([key, odds]) => {
+    const [betCode, sv] = key.split('|');
+    Object.entries(odds).forEach(([tipCode, ov]) => {
+      betMap[tipCode] = betMap[tipCode] || {};
+      betMap[tipCode][sv] = { bpc: 0, tt: Number(tipCode), s: closed.includes(key) ? 'SUSPENDED' : 'ACTIVE', ov, bc: Number(betCode), sv };
+    });
+  });
+
+  return {
+    id,
+    matchCode: id,
+    home: `Home ${id}`,
+    away: `Away ${id}`,
+    kickOffTime: 0,
+    status: 0,
+    blocked: false,
+    favourite: false,
+    sport: 'S',
+    leagueId: 1,
+    leagueName: 'League',
+    leagueShort: 'L',
+    live: false,
+    brMatchId: null,
+    betMap
+  };
+}
+
+const options = { historySize: 2 };
+const summarize = (changes: { type: string; matchId: number; betCode: number | null; sv: string | null; tipCode: number | null; previous: unknown; current: unknown }[]) =>
+  changes.map(({ type, matchId, betCode, sv, tipCode, previous, current }) => [type, matchId, betCode, sv, tipCode, previous, current]);
+
+test('takes the first snapshot as the baseline', () => {
+  const engine = new PreGameDiffEngine(options);
+
+  assert.equal(engine.apply([preGameMatch(1, { '1|': { 1: 2.1, 2: 3.2, 3: 3.4 } })]), null);
+  assert.equal(engine.apply([preGameMatch(1, { '1|': { 1: 2.1, 2: 3.2, 3: 3.4 } })]), null);
+  assert.equal(engine.getLatestId(), 0);
+});
+
+test('reports matches added and removed', () => {
+  const engine = new PreGameDiffEngine(options);
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.1 } }), preGameMatch(2, { '1|': { 1: 1.9 } })]);
+
+  const diff = engine.apply([preGameMatch(2, { '1|': { 1: 1.9 } }), preGameMatch(3, { '1|': { 1: 2.5 } })])!;
+  assert.deepEqual(summarize(diff.changes), [
+    ['matchRemoved', 1, null, null, null, null, null],
+    ['matchAdded', 3, null, null, null, null, null]
+  ]);
+  assert.equal(diff.counts.matchAdded, 1);
+  assert.equal(diff.counts.matchRemoved, 1);
+  assert.equal(diff.matches, 2);
+});
+
+test('reports markets opened and closed and odds changes', () => {
+  const engine = new PreGameDiffEngine(options);
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.1, 2: 3.2 }, '2|total=2.5': { 4: 1.85, 5: 1.9 }, '3|hcp=-1.5': { 6: 3.6, 7: 1.28 } }, ['3|hcp=-1.5'])]);
+
+  const diff = engine.apply([preGameMatch(1, { '1|': { 1: 2.2, 2: 3.2 }, '2|total=2.5': { 4: 1.85, 5: 1.9 }, '3|hcp=-1.5': { 6: 3.6, 7: 1.28 } }, ['2|total=2.5'])])!;
+  assert.deepEqual(summarize(diff.changes), [
+    ['oddsChanged', 1, 1, '', 1, 2.1, 2.2],
+    ['marketClosed', 1, 2, 'total=2.5', null, null, null],
+    ['marketOpened', 1, 3, 'hcp=-1.5', null, null, null]
+  ]);
+
+  // A market that disappears from the betMap is closed as well
+  const removed = engine.apply([preGameMatch(1, { '1|': { 1: 2.2, 2: 3.2 } })])!;
+  assert.deepEqual(summarize(removed.changes), [['marketClosed', 1, 3, 'hcp=-1.5', null, null, null]]);
+});
+
+test('filters the kept diffs by token, type and match', () => {
+  const engine = new PreGameDiffEngine(options);
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.1 } }), preGameMatch(2, { '1|': { 1: 1.9 } })]);
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.2 } }), preGameMatch(2, { '1|': { 1: 1.8 } })]);
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.3 } })]);
+
+  assert.deepEqual(engine.getDiffs({ since: 1 }).map(diff => diff.id), [2]);
+  assert.deepEqual(summarize(engine.getDiffs({ type: 'oddsChanged', matchId: 2 }).flatMap(diff => diff.changes)), [['oddsChanged', 2, 1, '', 1, 1.9, 1.8]]);
+
+  // The oldest diff is dropped with a history of two
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.4 } })]);
+  assert.equal(engine.isComplete(0), false);
+  assert.equal(engine.isComplete(1), true);
+});
+
+test('fails tokens handed out before a reset', () => {
+  const engine = new PreGameDiffEngine(options);
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.1 } })]);
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.2 } })]);
+  const before = engine.getLatestId();
+
+  engine.reset();
+  const after = engine.getLatestId();
+  assert.equal(engine.isComplete(before), false);
+  assert.equal(engine.isComplete(after), true);
+
+  engine.apply([preGameMatch(1, { '1|': { 1: 2.5 } })]);
+  const diff = engine.apply([preGameMatch(1, { '1|': { 1: 2.6 } })])!;
+  assert.ok(diff.id > after);
+  assert.equal(engine.isComplete(before), false);
+  assert.equal(engine.isComplete(after), true);
+  assert.deepEqual(engine.getDiffs({ since: after }).map(diff => diff.id), [diff.id]);
+  assert.equal(engine.getStats().diffs, 2);
+});
@@ -0,0 +1,250 @@
+import { EventEmitter } from 'events';
+import { PreGameMatch, PreGameChangeType, PreGameSnapshotChange, PreGameSnapshotDiff } from '../types/pregameTypes';
+
+export interface PreGameDiffOptions {
+  historySize: number; // diffs kept for /api/pregame-changes
+}
+
+const CHANGE_TYPES: PreGameChangeType[] = [
+  'matchAdded',
+  'matchRemoved',
+  'statusChanged',
+  'blockedChanged',
+  'liveChanged',
+  'kickoffChanged',
+  'marketOpened',
+  'marketClosed',
+  'oddsChanged'
+];
+const DEFAULT_HISTORY_SIZE = 100;
+const ACTIVE_STATUS = 'ACTIVE';
+
+export function isPreGameChangeType(value: unknown): value is PreGameChangeType {
+  return typeof value === 'string' && (CHANGE_TYPES as string[]).includes(value);
+}
+
+/**
+ * Read the number of diffs to keep from PREGAME_DIFF_HISTORY_SIZE
+ */
+export function getPreGameDiffOptionsFromEnv(): PreGameDiffOptions {
+  const historySize = Number(process.env.PREGAME_DIFF_HISTORY_SIZE);
+  return {
+    historySize: Number.isInteger(historySize) && historySize > 0 ? historySize : DEFAULT_HISTORY_SIZE
+  };
+}
+
+/**
+ * Compares consecutive pre-game snapshots and reports what changed: matches added and removed,
+ * status, blocked, live and kickoff changes, markets (bet code and `sv`) opened and closed, and
+ * odds changes per betMap entry. The first snapshot after a reset is only the baseline.
+ *
+ * Emits 'diff' with every non-empty PreGameSnapshotDiff, and each change under its own type,
+ * e.g. 'oddsChanged' or 'matchRemoved', with the PreGameSnapshotChange.
+ */
+export class PreGameDiffEngine extends EventEmitter {
+  private readonly options: PreGameDiffOptions;
+  private previous: Map<number, PreGameMatch> | null = null;
+  private previousAt: number | null = null;
+  private history: PreGameSnapshotDiff[] = [];
+  private nextId = 1;
+  private resetId = 0; // tokens below it were handed out before the last reset
+  private snapshots = 0;
+  private diffs = 0;
+
+  constructor(options: PreGameDiffOptions = getPreGameDiffOptionsFromEnv()) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Compare a new snapshot with the previous one. Returns null for the baseline snapshot and
+   * for snapshots without changes.
+   */
+  apply(matches: PreGameMatch[], now: number = Date.now()): PreGameSnapshotDiff | null {
+    const current = new Map<number, PreGameMatch>(matches.map(match => [match.id, match]));
+    const previous = this.previous;
+    const previousAt = this.previousAt;
+
+    this.previous = current;
+    this.previousAt = now;
+    this.snapshots++;
+
+    if (!previous || previousAt === null) {
+      return null;
+    }
+
+    const changes = diffSnapshots(previous, current);
+    if (changes.length === 0) {
+      return null;
+    }
+
+    const counts = Object.fromEntries(CHANGE_TYPES.map(type => [type, 0])) as Record<PreGameChangeType, number>;
+    changes.forEach(change => counts[change.type]++);
+
+    this.diffs++;
+    const diff: PreGameSnapshotDiff = {
+      id: this.nextId++,
+      previousAt: new Date(previousAt).toISOString(),
+      at: new Date(now).toISOString(),
+      matches: current.size,
+      changes,
+      counts
+    };
+
+    this.history.push(diff);
+    if (this.history.length > this.options.historySize) {
+      this.history.shift();
+    }
+
+    console.log(`Pre-game diff #${diff.id}: ${changes.length} changes`, Object.fromEntries(Object.entries(counts).filter(([, count]) => count > 0)));
+    this.emit('diff', diff);
+    changes.forEach(change => this.emit(change.type, change));
+
+    return diff;
+  }
+
+  /**
+   * Get the kept diffs after `since`, oldest first, with only the changes matching the filter
+   */
+  getDiffs(filter: { since?: number; type?: PreGameChangeType; matchId?: number } = {}): PreGameSnapshotDiff[] {
+    return this.history
+      .filter(diff => filter.since === undefined || diff.id > filter.since)
+      .map(diff => filter.type === undefined && filter.matchId === undefined ? diff : {
+        ...diff,
+        changes: diff.changes.filter(change =>
+          (filter.type === undefined || change.type === filter.type) &&
+          (filter.matchId === undefined || change.matchId === filter.matchId)
+        )
+      })
+      .filter(diff => diff.changes.length > 0);
+  }
+
+  /**
+   * Get the id of the newest diff, 0 before the first one
+   */
+  getLatestId(): number {
+    return this.nextId - 1;
+  }
+
+  /**
+   * Check whether diffs after `since` were dropped from the history, or by a reset
+   */
+  isComplete(since: number): boolean {
+    const oldest = this.history[0];
+    return since >= this.resetId && (!oldest || since >= oldest.id - 1);
+  }
+
+  getStats(): { snapshots: number; diffs: number; kept: number; oldestId: number | null; latestId: number } {
+    return {
+      snapshots: this.snapshots,
+      diffs: this.diffs,
+      kept: this.history.length,
+      oldestId: this.history[0]?.id ?? null,
+      latestId: this.getLatestId()
+    };
+  }
+
+  /**
+   * Forget the baseline and the kept diffs, e.g. when the job is restarted. The id is advanced
+   * so tokens handed out from now on can be told from older ones.
+   */
+  reset(): void {
+    this.resetId = this.nextId++;
+    this.previous = null;
+    this.previousAt = null;
+    this.history = [];
+    this.snapshots = 0;
+  }
+}
+
+type MarketState = { active: boolean; odds: Map<string, number> };
+
+/**
+ * Group the betMap of a match into markets by bet code and `sv`, with the odds of every tip
+ */
+function getMarkets(match: PreGameMatch): Map<string, MarketState> {
+  const markets = new Map<string, MarketState>();
+
+  Object.entries(match.betMap || {}).forEach(([tipCode, bets]) => {
+    Object.values(bets).forEach(bet => {
+      const key = `${bet.bc}|${bet.sv || ''}`;
+      if (!markets.has(key)) {
+        markets.set(key, { active: false, odds: new Map() });
+      }
+      const market = markets.get(key)!;
+      market.active = market.active || bet.s === ACTIVE_STATUS;
+      market.odds.set(tipCode, bet.ov);
+    });
+  });
+
+  return markets;
+}
+
+function diffSnapshots(previous: Map<number, PreGameMatch>, current: Map<number, PreGameMatch>): PreGameSnapshotChange[] {
+  const changes: PreGameSnapshotChange[] = [];
+  const change = (
+    type: PreGameChangeType,
+    match: PreGameMatch,
+    previousValue: number | boolean | null,
+    currentValue: number | boolean | null,
+    market: { betCode: number; sv: string; tipCode?: number } | null = null
+  ) => changes.push({
+    type,
+    matchId: match.id,
+    match: `${match.home} - ${match.away}`,
+    league: match.leagueName,
+    betCode: market ? market.betCode : null,
+    sv: market ? market.sv : null,
+    tipCode: market?.tipCode !== undefined ? market.tipCode : null,
+    previous: previousValue,
+    current: currentValue
+  });
+
+  previous.forEach((match, matchId) => {
+    if (!current.has(matchId)) {
+      change('matchRemoved', match, null, null);
+    }
+  });
+
+  current.forEach((match, matchId) => {
+    const before = previous.get(matchId);
+    if (!before) {
+      change('matchAdded', match, null, null);
+      return;
+    }
+
+    if (before.status !== match.status) change('statusChanged', match, before.status, match.status);
+    if (before.blocked !== match.blocked) change('blockedChanged', match, before.blocked, match.blocked);
+    if (before.live !== match.live) change('liveChanged', match, before.live, match.live);
+    if (before.kickOffTime !== match.kickOffTime) change('kickoffChanged', match, before.kickOffTime, match.kickOffTime);
+
+    const beforeMarkets = getMarkets(before);
+    const markets = getMarkets(match);
+
+    markets.forEach((market, key) => {
+      const [betCode, sv] = [Number(key.split('|')[0]), key.slice(key.indexOf('|') + 1)];
+      const beforeMarket = beforeMarkets.get(key);
+
+      if (market.active && !beforeMarket?.active) {
+        change('marketOpened', match, null, null, { betCode, sv });
+      } else if (!market.active && beforeMarket?.active) {
+        change('marketClosed', match, null, null, { betCode, sv });
+      }
+
+      market.odds.forEach((odds, tipCode) => {
+        const beforeOdds = beforeMarket?.odds.get(tipCode);
+        if (beforeOdds !== undefined && beforeOdds !== odds) {
+          change('oddsChanged', match, beforeOdds, odds, { betCode, sv, tipCode: Number(tipCode) });
+        }
+      });
+    });
+
+    beforeMarkets.forEach((beforeMarket, key) => {
+      if (beforeMarket.active && !markets.has(key)) {
+        change('marketClosed', match, null, null, { betCode: Number(key.split('|')[0]), sv: key.slice(key.indexOf('|') + 1) });
+      }
+    });
+  });
+
+  return changes;
+}
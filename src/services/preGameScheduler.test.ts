@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PreGameScheduler, isTimeInterval } from './preGameScheduler';
+import { PreGameSnapshot } from '../types/pregameTypes';
+
+/**
+ * A fetch whose offers are handed out by the test, in call order
+ */
+function controlledFetch() {
+  const pending: ((offer: PreGameSnapshot) => void)[] = [];
+  const fetch = () => new Promise<PreGameSnapshot>(resolve => pending.push(resolve));
+  const resolveNext = (fetchedAt: number) => pending.shift()!({ fetchedAt, matches: [] });
+
+  return { fetch, pending, resolveNext };
+}
+
+test('restarts while a refresh of the previous run is in flight', async () => {
+  const { fetch, pending, resolveNext } = controlledFetch();
+  const scheduler = new PreGameScheduler(fetch);
+  const published: number[] = [];
+  scheduler.on('refresh', (offer: PreGameSnapshot) => published.push(offer.fetchedAt));
+
+  await Promise.all([scheduler.start('1hour'), Promise.resolve().then(() => resolveNext(1))]);
+
+  // A refresh is running when the scheduler is started again
+  const stale = scheduler.refresh();
+  const restarted = scheduler.start('1hour');
+  assert.equal(pending.length, 2);
+
+  resolveNext(2);
+  resolveNext(3);
+
+  assert.equal(await stale, null);
+  assert.equal((await restarted).fetchedAt, 3);
+  assert.equal(scheduler.getSnapshot()?.fetchedAt, 3);
+  assert.deepEqual(published, [1, 3]);
+  assert.equal(scheduler.getStatus().refreshCount, 1);
+
+  scheduler.stop();
+});
+
+test('waits for the refresh already running', async () => {
+  const { fetch, pending, resolveNext } = controlledFetch();
+  const scheduler = new PreGameScheduler(fetch);
+
+  await Promise.all([scheduler.start('1hour'), Promise.resolve().then(() => resolveNext(1))]);
+
+  const first = scheduler.refresh();
+  const second = scheduler.refresh();
+  assert.equal(pending.length, 1);
+  assert.equal(scheduler.getStatus().isRefreshing, true);
+
+  resolveNext(2);
+  assert.equal((await first)?.fetchedAt, 2);
+  assert.equal((await second)?.fetchedAt, 2);
+  assert.equal(scheduler.getStatus().isRefreshing, false);
+
+  scheduler.stop();
+});
+
+test('refreshes once more at the requested time', async () => {
+  const { fetch, pending, resolveNext } = controlledFetch();
+  const scheduler = new PreGameScheduler(fetch);
+
+  await Promise.all([scheduler.start('1hour'), Promise.resolve().then(() => resolveNext(1))]);
+
+  // A refresh after the next scheduled one is not needed
+  scheduler.refreshAt(Date.now() + 2 * 60 * 60 * 1000);
+  assert.equal(scheduler.getStatus().extraRefreshAt, null);
+
+  scheduler.refreshAt(Date.now() + 50);
+  assert.notEqual(scheduler.getStatus().extraRefreshAt, null);
+
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert.equal(pending.length, 1);
+  assert.equal(scheduler.getStatus().extraRefreshAt, null);
+
+  resolveNext(2);
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(scheduler.getSnapshot()?.fetchedAt, 2);
+
+  scheduler.stop();
+});
+
+test('accepts only the supported intervals', () => {
+  assert.ok(['1min', '10min', '30min', '1hour'].every(isTimeInterval));
+  assert.equal(['constructor', 'toString', '__proto__', 'hasOwnProperty', '2min', 60000].some(isTimeInterval), false);
+});
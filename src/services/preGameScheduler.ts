@@ -0,0 +1,246 @@
+import { EventEmitter } from 'events';
+import { TimeInterval } from '../types';
+import { PreGameRefreshStatus, PreGameSnapshot } from '../types/pregameTypes';
+
+// Refresh period in milliseconds for every selectable interval
+export const TIME_INTERVAL_MS: Record<TimeInterval, number> = {
+  '1min': 60 * 1000,
+  '10min': 10 * 60 * 1000,
+  '30min': 30 * 60 * 1000,
+  '1hour': 60 * 60 * 1000
+};
+
+/**
+ * Check if a value is one of the supported refresh intervals
+ */
+export function isTimeInterval(value: unknown): value is TimeInterval {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TIME_INTERVAL_MS, value);
+}
+
+/**
+ * Re-fetches the pre-game offer on a fixed interval and keeps the latest snapshot.
+ *
+ * Emits 'refresh' with the new PreGameSnapshot after every successful fetch and
+ * 'refreshError' with the Error after every failed one. A failed refresh keeps the
+ * previous snapshot in place.
+ */
+export class PreGameScheduler extends EventEmitter {
+  private readonly fetchSnapshot: () => Promise<PreGameSnapshot>;
+  private interval: TimeInterval = '1min';
+  private timer: NodeJS.Timeout | null = null;
+  private extraTimer: NodeJS.Timeout | null = null;
+  private extraRefreshAt: Date | null = null;
+  private isRunning: boolean = false;
+  private generation: number = 0; // bumped by stop(), so a refresh of an earlier run can neither block nor publish
+  private inFlight: { generation: number; promise: Promise<PreGameSnapshot | null> } | null = null;
+  private snapshot: PreGameSnapshot | null = null;
+  private lastRefreshAt: Date | null = null;
+  private nextRefreshAt: Date | null = null;
+  private lastDurationMs: number | null = null;
+  private lastError: string | null = null;
+  private lastErrorAt: Date | null = null;
+  private refreshCount: number = 0;
+  private failureCount: number = 0;
+  private consecutiveFailures: number = 0;
+
+  constructor(fetchSnapshot: () => Promise<PreGameSnapshot>) {
+    super();
+    this.fetchSnapshot = fetchSnapshot;
+  }
+
+  /**
+   * Fetch the first snapshot and schedule the following refreshes.
+   * Throws if the first fetch fails so callers can report the failed start.
+   */
+  async start(interval: TimeInterval): Promise<PreGameSnapshot> {
+    this.stop();
+
+    this.interval = interval;
+    this.isRunning = true;
+    console.log(`Starting pre-game refresh scheduler every ${interval}`);
+
+    try {
+      const snapshot = await this.refresh();
+      if (!snapshot) {
+        throw new Error(this.lastError || 'Initial pre-game fetch failed');
+      }
+      return snapshot;
+    } catch (error) {
+      this.stop();
+      throw error;
+    } finally {
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * Stop scheduling refreshes and forget the current snapshot
+   */
+  stop(): void {
+    this.isRunning = false;
+    this.generation++;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.clearExtraRefresh();
+
+    this.snapshot = null;
+    this.nextRefreshAt = null;
+    this.lastRefreshAt = null;
+    this.lastDurationMs = null;
+    this.lastError = null;
+    this.lastErrorAt = null;
+    this.refreshCount = 0;
+    this.failureCount = 0;
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Fetch a fresh snapshot now, or wait for the refresh already running. Returns null if the
+   * fetch failed.
+   */
+  async refresh(): Promise<PreGameSnapshot | null> {
+    if (this.inFlight && this.inFlight.generation === this.generation) {
+      console.log('Pre-game refresh already in progress, waiting for it');
+      return this.inFlight.promise;
+    }
+
+    const inFlight = { generation: this.generation, promise: this.fetchAndPublish(this.generation) };
+    this.inFlight = inFlight;
+
+    try {
+      return await inFlight.promise;
+    } finally {
+      if (this.inFlight === inFlight) {
+        this.inFlight = null;
+      }
+    }
+  }
+
+  /**
+   * Refresh once more at the given time on top of the interval, e.g. just before a kickoff.
+   * Ignored when a refresh is already due by then; replaces a later extra refresh.
+   */
+  refreshAt(time: number): void {
+    const now = Date.now();
+    const nextRefreshAt = this.nextRefreshAt?.getTime();
+
+    if (!this.isRunning || time <= now ||
+        (nextRefreshAt !== undefined && nextRefreshAt > now && nextRefreshAt <= time) ||
+        (this.extraRefreshAt !== null && this.extraRefreshAt.getTime() <= time)) {
+      return;
+    }
+
+    this.clearExtraRefresh();
+    this.extraRefreshAt = new Date(time);
+    console.log(`Extra pre-game refresh scheduled at ${this.extraRefreshAt.toISOString()}`);
+
+    this.extraTimer = setTimeout(() => {
+      this.extraTimer = null;
+      this.extraRefreshAt = null;
+      this.refresh();
+    }, time - now);
+  }
+
+  /**
+   * Get the latest successfully fetched snapshot
+   */
+  getSnapshot(): PreGameSnapshot | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Get refresh timing and failure information
+   */
+  getStatus(): PreGameRefreshStatus {
+    return {
+      interval: this.interval,
+      intervalMs: TIME_INTERVAL_MS[this.interval],
+      isRunning: this.isRunning,
+      isRefreshing: this.inFlight !== null && this.inFlight.generation === this.generation,
+      lastRefreshAt: this.lastRefreshAt?.toISOString() || null,
+      nextRefreshAt: this.nextRefreshAt?.toISOString() || null,
+      extraRefreshAt: this.extraRefreshAt?.toISOString() || null,
+      lastDurationMs: this.lastDurationMs,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt?.toISOString() || null,
+      refreshCount: this.refreshCount,
+      failureCount: this.failureCount,
+      consecutiveFailures: this.consecutiveFailures
+    };
+  }
+
+  private clearExtraRefresh(): void {
+    if (this.extraTimer) {
+      clearTimeout(this.extraTimer);
+      this.extraTimer = null;
+    }
+    this.extraRefreshAt = null;
+  }
+
+  /**
+   * Fetch a snapshot and publish it, unless stop() was called in the meantime
+   */
+  private async fetchAndPublish(generation: number): Promise<PreGameSnapshot | null> {
+    const startedAt = Date.now();
+
+    try {
+      const snapshot = await this.fetchSnapshot();
+
+      // A stop() during the fetch means the result is no longer wanted
+      if (generation !== this.generation || !this.isRunning) {
+        return null;
+      }
+
+      // Swap the whole snapshot at once so readers never see a partial update
+      this.snapshot = snapshot;
+      this.lastRefreshAt = new Date();
+      this.lastDurationMs = Date.now() - startedAt;
+      this.refreshCount++;
+      this.consecutiveFailures = 0;
+
+      console.log(`Pre-game refresh #${this.refreshCount} completed in ${this.lastDurationMs}ms with ${snapshot.matches.length} matches`);
+      this.emit('refresh', snapshot);
+      return snapshot;
+    } catch (error) {
+      if (generation !== this.generation) {
+        return null;
+      }
+
+      this.lastDurationMs = Date.now() - startedAt;
+      this.lastError = error instanceof Error ? error.message : 'Unknown error';
+      this.lastErrorAt = new Date();
+      this.failureCount++;
+      this.consecutiveFailures++;
+
+      console.error(`Pre-game refresh failed (${this.consecutiveFailures} in a row):`, this.lastError);
+      this.emit('refreshError', error);
+      return null;
+    }
+  }
+
+  /**
+   * Schedule the next refresh one interval after the previous one finished
+   */
+  private scheduleNext(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    const intervalMs = TIME_INTERVAL_MS[this.interval];
+    const generation = this.generation;
+    this.nextRefreshAt = new Date(Date.now() + intervalMs);
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      await this.refresh();
+
+      // A restart during the refresh has scheduled its own
+      if (generation === this.generation) {
+        this.scheduleNext();
+      }
+    }, intervalMs);
+  }
+}
@@ -0,0 +1,371 @@
+import { Readable } from 'stream';
+import { BookmakerAdapter, LiveFeedConnection } from './bookmakerAdapter';
+import { SoccerbetApiService, SportData, BettingOptionsResponse } from './soccerbetApi';
+import { PreGameApiService } from './pregameApiService';
+import { LiveFeedStreamName } from './liveFeedRecorder';
+import { SseParser, SseEvent, parseEndSentinel } from './sseParser';
+import { UpstreamClient } from './upstreamClient';
+import {
+  SoccerbetLiveBet,
+  SoccerbetLiveHeader,
+  SoccerbetLiveResult,
+  SoccerbetLiveSport,
+  SoccerbetLiveStreamResponse,
+  SoccerbetPreGameMatch,
+  SoccerbetPreGameResponse
+} from '../types/soccerbetTypes';
+import {
+  BookmakerCatalogue,
+  BookmakerLiveMatch,
+  BookmakerLiveScore,
+  BookmakerLiveSport,
+  BookmakerMarket,
+  BookmakerPreGameMatch,
+  BookmakerSport,
+  BetCatalogue,
+  PreGameOffer,
+  LiveFeedBatch,
+  LiveFeedHandlers
+} from '../types/bookmakerTypes';
+import { ComplementaryPair } from '../types/marketTypes';
+
+/**
+ * Football selections of soccerbet.rs that cover every outcome together: each match result
+ * tip (bet 1) with the opposite double chance (bet 4), and the home handicap (bet 3) with the
+ * away handicap of the opposite line, as soccerbet.rs quotes hcp for the side it names
+ */
+export const SOCCERBET_COMPLEMENTARY_PAIRS: ComplementaryPair[] = [
+  { betCode: 1, tipCode: 1, otherBetCode: 4, otherTipCode: 11 }, // 1 and X2
+  { betCode: 1, tipCode: 2, otherBetCode: 4, otherTipCode: 12 }, // X and 12
+  { betCode: 1, tipCode: 3, otherBetCode: 4, otherTipCode: 10 }, // 2 and 1X
+  { betCode: 3, tipCode: 6, otherBetCode: 3, otherTipCode: 7, negatedSpecifier: 'hcp' } // H1 and H2 of the opposite line
+];
+
+/**
+ * Map the soccerbet.rs sports catalogue to bookmaker sports
+ */
+export function toBookmakerSports(sports: SportData[]): BookmakerSport[] {
+  return sports.map(sport => ({
+    code: sport.sportTypeCode,
+    name: sport.name,
+    shortName: sport.shortName,
+    orderNumber: sport.orderNumber,
+    active: sport.active,
+    activeInLive: sport.activeInLive
+  }));
+}
+
+/**
+ * Map the soccerbet.rs betting options to market definitions
+ */
+export function toBetCatalogue(bettingOptions: BettingOptionsResponse): BetCatalogue {
+  const betTypes: BetCatalogue['betTypes'] = {};
+  const groups: BetCatalogue['groups'] = {};
+  const picks: BetCatalogue['picks'] = {};
+
+  Object.entries(bettingOptions.betMap || {}).forEach(([key, bet]) => {
+    betTypes[key] = {
+      betCode: bet.code,
+      sport: bet.sport,
+      caption: bet.caption,
+      useSpecifiers: bet.useSpecifiers,
+      displaySpecifiers: bet.displaySpecifiers,
+      orderNumber: bet.orderNumber
+    };
+  });
+
+  Object.entries(bettingOptions.betPickGroupMap || {}).forEach(([key, group]) => {
+    groups[key] = {
+      id: group.id,
+      sport: group.sport,
+      name: group.name,
+      description: group.description,
+      favorite: group.favorite,
+      orderNumber: group.orderNumber,
+      tipTypes: group.tipTypes || [],
+      specialValuePosition: group.specialValuePosition,
+      displaySpecifiers: group.displaySpecifiers,
+      handicapParam: group.handicapParam,
+      specialBetValueTypes: group.specialBetValueTypes,
+      formatCode: group.formatCode,
+      lineCode: group.lineCode,
+      hideHeader: group.hideHeader,
+      picksPerRow: group.picksPerRow
+    };
+  });
+
+  // Pick keys are `<tipTypeCode>_<sportTypeCode>`
+  Object.entries(bettingOptions.betPickMap || {}).forEach(([key, pick]) => {
+    picks[key] = {
+      tipTypeCode: pick.tipTypeCode,
+      sport: key.substring(key.indexOf('_') + 1),
+      betCode: pick.betCode,
+      betPickCode: pick.betPickCode,
+      label: pick.label,
+      caption: pick.caption,
+      tipTypeName: pick.tipTypeName,
+      position: pick.position,
+      tipTypeTag: pick.tipTypeTag,
+      mainType: pick.mainType,
+      displaySpecifiers: pick.displaySpecifiers
+    };
+  });
+
+  return { betTypes, groups, picks };
+}
+
+/**
+ * Map a soccerbet.rs pre-game match, grouping its betMap into one market per bet code and `sv`
+ */
+export function toBookmakerPreGameMatch(match: SoccerbetPreGameMatch): BookmakerPreGameMatch {
+  const markets = new Map<string, BookmakerMarket>();
+
+  Object.entries(match.betMap || {}).forEach(([tipCode, bets]) => {
+    Object.values(bets).forEach(bet => {
+      const specialValue = bet.sv || '';
+      const key = `${bet.bc}_${specialValue}`;
+
+      if (!markets.has(key)) {
+        markets.set(key, { id: null, matchId: match.id, betCode: bet.bc, specialValue, status: '', disabled: false, changedAt: null, selections: [] });
+      }
+      markets.get(key)!.selections.push({ tipCode: Number(tipCode), pickCode: bet.bpc, odds: bet.ov, status: bet.s });
+    });
+  });
+
+  // A pre-game market is open while any of its selections is
+  markets.forEach(market => {
+    market.status = market.selections.some(selection => selection.status === 'ACTIVE') ? 'ACTIVE' : market.selections[0]?.status || '';
+  });
+
+  return {
+    id: match.id,
+    code: match.matchCode,
+    sport: match.sport,
+    home: match.home,
+    away: match.away,
+    leagueId: match.leagueId,
+    leagueName: match.leagueName,
+    leagueShort: match.leagueShort,
+    kickOffTime: match.kickOffTime,
+    brMatchId: match.brMatchId || null,
+    featured: match.favourite,
+    status: match.status,
+    blocked: match.blocked,
+    live: match.live,
+    markets: Array.from(markets.values())
+  };
+}
+
+/**
+ * Map a soccerbet.rs pre-game response to a pre-game offer
+ */
+export function toPreGameOffer(response: SoccerbetPreGameResponse): PreGameOffer {
+  const fetchedAt = Date.parse(response.systemTime);
+
+  return {
+    fetchedAt: Number.isFinite(fetchedAt) ? fetchedAt : Date.now(),
+    matches: (response.esMatches || []).map(toBookmakerPreGameMatch)
+  };
+}
+
+/**
+ * Map a soccerbet.rs live header. Fields an update leaves out stay undefined.
+ */
+export function toBookmakerLiveMatch(header: SoccerbetLiveHeader): BookmakerLiveMatch {
+  return {
+    id: header.id,
+    code: header.mc,
+    sport: header.s,
+    home: header.h,
+    away: header.a,
+    leagueId: header.lid,
+    leagueName: header.lg,
+    leagueShort: header.lsh,
+    kickOffTime: header.kot,
+    brMatchId: header.bri,
+    featured: header.tm,
+    liveStatus: header.ls,
+    bettingAllowed: header.ba,
+    info: header.inf,
+    externalId: header.eid,
+    changedAt: header.lct
+  };
+}
+
+/**
+ * Map a soccerbet.rs live bet; a bet without its odds map keeps the stored selections
+ */
+export function toBookmakerMarket(bet: SoccerbetLiveBet): BookmakerMarket {
+  return {
+    id: bet.id,
+    matchId: bet.mId,
+    betCode: bet.bc,
+    specialValue: bet.sv,
+    status: bet.st,
+    disabled: bet.d,
+    changedAt: bet.lct,
+    selections: bet.om && Object.entries(bet.om).map(([tipCode, odd]) => ({
+      tipCode: Number(tipCode),
+      pickCode: odd.bpc,
+      odds: odd.ov,
+      status: bet.st
+    }))
+  };
+}
+
+/**
+ * Map a soccerbet.rs live result
+ */
+export function toBookmakerLiveScore(result: SoccerbetLiveResult): BookmakerLiveScore {
+  return {
+    matchId: result.mId,
+    changedAt: result.lct,
+    score: result.cs,
+    periodScores: result.ps,
+    period: result.cp,
+    matchTime: result.mt,
+    gameScore: result.gs,
+    server: result.srv
+  };
+}
+
+/**
+ * Map a soccerbet.rs live sport
+ */
+export function toBookmakerLiveSport(sport: SoccerbetLiveSport): BookmakerLiveSport {
+  return { code: sport.sport, matchCount: sport.matchsCount };
+}
+
+/**
+ * Map the records of one soccerbet.rs feed message
+ */
+export function toLiveFeedBatch(data: Partial<SoccerbetLiveStreamResponse>): LiveFeedBatch {
+  return {
+    sports: (data.liveSports || []).map(toBookmakerLiveSport),
+    matches: (data.liveHeaders || []).map(toBookmakerLiveMatch),
+    markets: (data.liveBets || []).map(toBookmakerMarket),
+    scores: (data.liveResults || []).map(toBookmakerLiveScore)
+  };
+}
+
+/**
+ * soccerbet.rs: the REST offer and the live SSE feed, all through the shared upstream client
+ */
+export class SoccerbetAdapter implements BookmakerAdapter {
+  readonly id = 'soccerbet';
+  readonly name = 'soccerbet.rs';
+  readonly complementaryPairs = SOCCERBET_COMPLEMENTARY_PAIRS;
+  private readonly upstream: UpstreamClient;
+  private readonly soccerbetApi: SoccerbetApiService;
+  private readonly preGameApi: PreGameApiService;
+
+  constructor(upstream: UpstreamClient = new UpstreamClient()) {
+    this.upstream = upstream;
+    this.soccerbetApi = new SoccerbetApiService(upstream);
+    this.preGameApi = new PreGameApiService(upstream);
+  }
+
+  async fetchCatalogue(): Promise<BookmakerCatalogue> {
+    const { sports, bettingOptions } = await this.soccerbetApi.initializeData();
+    return { sports: toBookmakerSports(sports), bets: toBetCatalogue(bettingOptions) };
+  }
+
+  async fetchSports(): Promise<BookmakerSport[]> {
+    return toBookmakerSports(await this.soccerbetApi.getSportsData());
+  }
+
+  async fetchPreGameOffer(sportCode: string): Promise<PreGameOffer> {
+    return toPreGameOffer(await this.preGameApi.fetchPreGameData(sportCode));
+  }
+
+  async openLiveFeed(connection: LiveFeedStreamName, position: number | null, signal: AbortSignal): Promise<LiveFeedConnection> {
+    const url = connection === 'events'
+      ? `${this.upstream.getOrigin()}/live/events/sr`
+      : `${this.upstream.getOrigin()}/live/subscribe/sr?lastInitId=${position}`;
+
+    const stream = await this.upstream.getStream(connection === 'events' ? 'liveEvents' : 'liveSubscribe', url, {
+      signal,
+      headers: {
+        'Accept': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    });
+
+    return { url, stream };
+  }
+
+  /**
+   * Read the SSE feed: JSON events with liveSports / liveHeaders / liveBets / liveResults,
+   * closed by `END <position>` on the snapshot connection. On the subscription, event ids
+   * and the newest `lct` of the records are positions usable as `lastInitId`.
+   */
+  decodeLiveFeed(connection: LiveFeedStreamName, stream: Readable, handlers: LiveFeedHandlers): void {
+    const parser = new SseParser({
+      onEvent: event => {
+        if (connection === 'events') {
+          // The END sentinel closes the snapshot and is the position to subscribe from
+          const end = parseEndSentinel(event.data);
+          if (end !== null) {
+            console.log(`Received END timestamp: ${end}`);
+            handlers.onSnapshotEnd(end);
+            return;
+          }
+        } else {
+          if (event.id) {
+            handlers.onPosition(Number(event.id));
+          }
+          if (event.retry !== null) {
+            handlers.onRetry(event.retry);
+          }
+        }
+
+        this.parseFeedEvent(event, connection, handlers).forEach(data => {
+          if (!data.liveSports && !data.liveHeaders && !data.liveBets && !data.liveResults) {
+            console.log(`Received data without expected fields:`, Object.keys(data));
+          }
+          handlers.onBatch(toLiveFeedBatch(data));
+
+          if (connection === 'subscribe') {
+            const records = [...(data.liveHeaders || []), ...(data.liveBets || []), ...(data.liveResults || [])];
+            const position = records.reduce((newest: number, record: { lct?: number }) => Math.max(newest, record.lct || 0), 0);
+            if (position > 0) {
+              handlers.onPosition(position);
+            }
+          }
+        });
+      }
+    });
+
+    stream.on('data', (chunk: Buffer) => parser.push(chunk));
+    stream.on('end', () => parser.end());
+  }
+
+  /**
+   * Parse the JSON payload of a feed event. Data spanning several lines that is not one
+   * document is read as one document per line, since soccerbet.rs may leave out the blank
+   * line between events.
+   */
+  private parseFeedEvent(event: SseEvent, connection: LiveFeedStreamName, handlers: LiveFeedHandlers): any[] {
+    if (!event.data.trim()) {
+      return [];
+    }
+
+    try {
+      return [JSON.parse(event.data)];
+    } catch (error) {
+      const documents = event.data.includes('\n') ? event.data.split('\n').filter(line => line.trim()) : [event.data];
+      const parsed: any[] = [];
+
+      for (const document of documents) {
+        try {
+          parsed.push(JSON.parse(document));
+        } catch (parseError) {
+          console.warn(`Skipping malformed ${connection} event (${document.length} chars): ${document.substring(0, 100)}${document.length > 100 ? '...' : ''}`);
+          handlers.onMalformed(document.substring(0, 100));
+        }
+      }
+
+      return parsed;
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import axios, { AxiosResponse } from 'axios';
+import { UpstreamClient } from './upstreamClient';
 
 // Types for the external API responses
 export interface SportData {
@@ -89,9 +89,15 @@ export interface BettingOptionsResponse {
 }
 
 export class SoccerbetApiService {
-  private readonly baseUrl = 'https://www.soccerbet.rs/restapi';
+  private readonly upstream: UpstreamClient;
+  private readonly baseUrl: string;
   private readonly desktopVersion = '2.40.3.23';
 
+  constructor(upstream: UpstreamClient = new UpstreamClient()) {
+    this.upstream = upstream;
+    this.baseUrl = `${upstream.getOrigin()}/restapi`;
+  }
+
   /**
    * Fetch sports data from soccerbet.rs
    */
@@ -100,18 +106,12 @@ export class SoccerbetApiService {
       const url = `${this.baseUrl}/translate/sr/sports?desktopVersion=${this.desktopVersion}`;
       console.log(`Fetching sports data from: ${url}`);
       
-      const response: AxiosResponse<SportData[]> = await axios.get(url, {
-        timeout: 10000, // 10 second timeout
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept': 'application/json',
-          'Accept-Language': 'sr-RS,sr;q=0.9,en;q=0.8',
-          'Referer': 'https://www.soccerbet.rs/'
-        }
+      const data = await this.upstream.getJson<SportData[]>('sports', url, {
+        headers: { 'Accept': 'application/json' }
       });
 
-      console.log(`Successfully fetched ${response.data.length} sports`);
-      return response.data;
+      console.log(`Successfully fetched ${data.length} sports`);
+      return data;
     } catch (error) {
       console.error('Error fetching sports data:', error);
       throw new Error(`Failed to fetch sports data: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -126,18 +126,12 @@ export class SoccerbetApiService {
       const url = `${this.baseUrl}/offer/sr/ttg_lang?desktopVersion=${this.desktopVersion}`;
       console.log(`Fetching betting options from: ${url}`);
       
-      const response: AxiosResponse<BettingOptionsResponse> = await axios.get(url, {
-        timeout: 10000, // 10 second timeout
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept': 'application/json',
-          'Accept-Language': 'sr-RS,sr;q=0.9,en;q=0.8',
-          'Referer': 'https://www.soccerbet.rs/'
-        }
+      const data = await this.upstream.getJson<BettingOptionsResponse>('bettingOptions', url, {
+        headers: { 'Accept': 'application/json' }
       });
 
-      console.log(`Successfully fetched betting options with ${Object.keys(response.data.betMap).length} bet mappings`);
-      return response.data;
+      console.log(`Successfully fetched betting options with ${Object.keys(data.betMap).length} bet mappings`);
+      return data;
     } catch (error) {
       console.error('Error fetching betting options:', error);
       throw new Error(`Failed to fetch betting options: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1,11 +1,7 @@
-import { SportData } from './soccerbetApi';
-import { BettingOptionsResponse } from './soccerbetApi';
-
-export interface SportMapping {
-  name: string;
-  sportTypeCode: string;
-  englishName: string;
-}
+import { BookmakerSport, BetCatalogue } from '../types/bookmakerTypes';
+import { SportRegistry, SportMapping } from './sportRegistry';
+import { LabelRenderer, parseSpecifiers } from './labelRenderer';
+import { Sport } from '../types';
 
 export interface EnhancedBetData {
   id: number;
@@ -30,77 +26,91 @@ export interface EnhancedBetData {
 }
 
 export class SportMappingService {
-  private sportMappings: Map<string, SportMapping> = new Map();
-  private bettingOptions: BettingOptionsResponse | null = null;
+  private readonly sportRegistry: SportRegistry;
+  private bets: BetCatalogue | null = null;
+  private labelRenderer: LabelRenderer = new LabelRenderer();
+
+  constructor(sportRegistry: SportRegistry = new SportRegistry()) {
+    this.sportRegistry = sportRegistry;
+  }
 
   /**
    * Initialize sport mappings from sports data
    */
-  initializeSportMappings(sportsData: SportData[]): void {
+  initializeSportMappings(sportsData: BookmakerSport[]): void {
     console.log('Initializing sport mappings...');
-    
-    // Clear existing mappings
-    this.sportMappings.clear();
-    
-    // Define sport name mappings
-    const sportNameMap: Record<string, string> = {
-      'FUDBAL': 'football',
-      'KOŠARKA': 'basketball', 
-      'TENIS': 'tennis'
-    };
-    
-    // Extract sport mappings
-    sportsData.forEach(sport => {
-      const englishName = sportNameMap[sport.name];
-      if (englishName) {
-        const mapping: SportMapping = {
-          name: sport.name,
-          sportTypeCode: sport.sportTypeCode,
-          englishName: englishName
-        };
-        
-        this.sportMappings.set(englishName, mapping);
-        console.log(`Mapped ${sport.name} (${sport.sportTypeCode}) -> ${englishName}`);
-      }
-    });
-    
-    console.log(`Initialized ${this.sportMappings.size} sport mappings`);
+    this.sportRegistry.load(sportsData);
+  }
+
+  /**
+   * Get the registry every sport filter uses
+   */
+  getSportRegistry(): SportRegistry {
+    return this.sportRegistry;
   }
 
   /**
-   * Set betting options for bet description lookup
+   * Get the renderer of labels with specifier placeholders, loaded with the betting options
    */
-  setBettingOptions(bettingOptions: BettingOptionsResponse): void {
-    this.bettingOptions = bettingOptions;
-    console.log('Betting options set for description lookup');
+  getLabelRenderer(): LabelRenderer {
+    return this.labelRenderer;
+  }
+
+  /**
+   * Find a sport by its key, its sport type code or its soccerbet.rs name, ignoring case
+   */
+  resolveSport(value: string): SportMapping | null {
+    return this.sportRegistry.resolve(value);
+  }
+
+  /**
+   * Get every mapped sport in catalogue order
+   */
+  getSports(): SportMapping[] {
+    return this.sportRegistry.getAll();
+  }
+
+  /**
+   * Set the bet catalogue for bet description lookup
+   */
+  setBetCatalogue(bets: BetCatalogue): void {
+    this.bets = bets;
+    this.labelRenderer.load(bets);
+    console.log('Bet catalogue set for description lookup');
   }
 
   /**
    * Get sport type code for a given sport name
    */
-  getSportTypeCode(sportName: 'football' | 'tennis' | 'basketball'): string | null {
-    const mapping = this.sportMappings.get(sportName);
-    return mapping ? mapping.sportTypeCode : null;
+  getSportTypeCode(sportName: Sport): string | null {
+    return this.sportRegistry.getCode(sportName);
   }
 
   /**
    * Get sport mapping for a given sport name
    */
-  getSportMapping(sportName: 'football' | 'tennis' | 'basketball'): SportMapping | null {
-    return this.sportMappings.get(sportName) || null;
+  getSportMapping(sportName: Sport): SportMapping | null {
+    return this.sportRegistry.get(sportName);
   }
 
   /**
    * Get all sport mappings
    */
   getAllSportMappings(): Map<string, SportMapping> {
-    return this.sportMappings;
+    return new Map(this.sportRegistry.getAll().map(mapping => [mapping.key, mapping]));
+  }
+
+  /**
+   * Get the display name of a sport type code, e.g. 'Football' for 'S'
+   */
+  getSportName(sportTypeCode: string): string {
+    return this.sportRegistry.getName(sportTypeCode);
   }
 
   /**
    * Filter live headers by sport
    */
-  filterLiveHeadersBySport(headers: any[], sportName: 'football' | 'tennis' | 'basketball'): any[] {
+  filterLiveHeadersBySport(headers: any[], sportName: Sport): any[] {
     const sportTypeCode = this.getSportTypeCode(sportName);
     
     if (!sportTypeCode) {
@@ -108,14 +118,14 @@ export class SportMappingService {
       return [];
     }
     
-    const filtered = headers.filter(header => header.s === sportTypeCode);
+    const filtered = this.sportRegistry.filterLiveHeaders(headers, sportName);
     console.log(`Filtered ${filtered.length} headers for sport ${sportName} (${sportTypeCode})`);
     
     return filtered;
   }
 
   /**
-   * Enhance bet data with descriptions from betting options
+   * Enhance bet data with descriptions from the bet catalogue
    */
   enhanceBetData(bet: any, sportCode: string): EnhancedBetData {
     const enhancedBet: EnhancedBetData = {
@@ -131,24 +141,27 @@ export class SportMappingService {
       odds: []
     };
 
-    // Process odds with descriptions
-    if (bet.om && this.bettingOptions) {
+    // Process odds with descriptions, rendered with the bet's specifiers
+    const specifiers = parseSpecifiers(bet.sv);
+    if (bet.om && this.bets) {
       Object.entries(bet.om).forEach(([key, oddsData]: [string, any]) => {
         const betPickKey = `${key}_${sportCode}`;
-        const betPickInfo = this.bettingOptions!.betPickMap[betPickKey];
+        const betPickInfo = this.bets!.picks[betPickKey];
         
-        // Get group information from betPickGroupMap
-        const groupInfo = this.bettingOptions!.betPickGroupMap[betPickInfo?.betCode?.toString() || ''];
+        // Get group information from the catalogue groups
+        const groupInfo = this.bets!.groups[betPickInfo?.betCode?.toString() || ''];
+        const group = this.labelRenderer.renderGroup(groupInfo?.id || null, specifiers);
+        const pick = betPickInfo ? this.labelRenderer.renderPick(betPickInfo.label, betPickInfo.caption, groupInfo?.id || null, specifiers) : null;
         
         const oddInfo = {
           key: key,
           odds: oddsData.ov,
           betPickCode: oddsData.bpc,
-          description: betPickInfo ? betPickInfo.label : 'Unknown bet',
-          caption: betPickInfo ? betPickInfo.caption : key,
+          description: pick ? pick.label : 'Unknown bet',
+          caption: pick ? pick.caption : key,
           groupId: groupInfo?.id || null,
-          groupDescription: groupInfo?.description || null,
-          groupName: groupInfo?.name || null
+          groupDescription: group.description,
+          groupName: group.name
         };
         
         enhancedBet.odds.push(oddInfo);
@@ -211,7 +224,7 @@ export class SportMappingService {
   }
 
   /**
-   * Group enhanced betting data by betPickGroupMap
+   * Group enhanced betting data by the catalogue groups
    */
   groupEnhancedBetsByGroup(enhancedBets: EnhancedBetData[]): Map<number, { groupInfo: any, bets: EnhancedBetData[] }> {
     const grouped = new Map<number, { groupInfo: any, bets: EnhancedBetData[] }>();
@@ -220,8 +233,8 @@ export class SportMappingService {
       bet.odds.forEach(odd => {
         if (odd.groupId) {
           if (!grouped.has(odd.groupId)) {
-            // Get group info from betPickGroupMap
-            const groupInfo = this.bettingOptions?.betPickGroupMap[odd.groupId.toString()];
+            // Get group info from the catalogue groups
+            const groupInfo = this.bets?.groups[odd.groupId.toString()];
             grouped.set(odd.groupId, {
               groupInfo: groupInfo || { id: odd.groupId, description: odd.groupDescription, name: odd.groupName },
               bets: []
@@ -246,8 +259,8 @@ export class SportMappingService {
   getSportStatistics(): Record<string, { name: string, code: string, count: number }> {
     const stats: Record<string, { name: string, code: string, count: number }> = {};
     
-    this.sportMappings.forEach((mapping, englishName) => {
-      stats[englishName] = {
+    this.sportRegistry.getAll().forEach(mapping => {
+      stats[mapping.key] = {
         name: mapping.name,
         code: mapping.sportTypeCode,
         count: 0 // This would be populated with actual data counts
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SportRegistry } from './sportRegistry';
+import { SportMappingService } from './sportMappingService';
+import { toBookmakerSports, toBetCatalogue, toPreGameOffer, toLiveFeedBatch } from './soccerbetAdapter';
+import { toLiveRecords, toPreGameSnapshot } from './feedRecords';
+import { SportData, BettingOptionsResponse } from './soccerbetApi';
+import { SoccerbetLiveStreamResponse, SoccerbetPreGameResponse } from '../types/soccerbetTypes';
+import sportsFixture from '../mock/fixtures/sports.json';
+import bettingOptionsFixture from '../mock/fixtures/bettingOptions.json';
+import preGameFixture from '../mock/fixtures/pregame.json';
+import liveFixture from '../mock/fixtures/live.json';
+
+const sports = toBookmakerSports(sportsFixture as SportData[]);
+const bets = toBetCatalogue(bettingOptionsFixture as unknown as BettingOptionsResponse);
+const preGameMatches = toPreGameSnapshot(toPreGameOffer(preGameFixture as unknown as SoccerbetPreGameResponse)).matches;
+const liveHeaders = toLiveRecords(toLiveFeedBatch(liveFixture as unknown as SoccerbetLiveStreamResponse)).headers;
+
+const registry = new SportRegistry();
+const sportMappingService = new SportMappingService(registry);
+sportMappingService.initializeSportMappings(sports);
+
+/**
+ * Run every sport filter for the sport a value resolves to and return the sport type codes
+ * each filter kept
+ */
+function filterAll(value: string) {
+  const mapping = registry.resolve(value);
+  assert.ok(mapping, `${value} resolves to a sport`);
+  const options = registry.filterBetCatalogue(bets, mapping.key);
+
+  return {
+    key: mapping.key,
+    code: mapping.sportTypeCode,
+    headers: sportMappingService.filterLiveHeadersBySport(liveHeaders, mapping.key).map(header => header.s),
+    matches: registry.filterPreGameMatches(preGameMatches, mapping.key).map(match => match.sport),
+    pickKeys: Object.keys(options.picks).map(key => key.split('_')[1]),
+    groups: Object.values(options.groups).map(group => group.sport),
+    betTypes: Object.values(options.betTypes).map(bet => bet.sport)
+  };
+}
+
+for (const sport of sports) {
+  test(`filters every data set of ${sport.name} with the same code`, () => {
+    const results = [filterAll(sport.code), filterAll(sport.name)];
+    results.push(filterAll(results[0].key));
+
+    for (const result of results) {
+      assert.equal(result.code, sport.code);
+      for (const codes of [result.headers, result.matches, result.pickKeys, result.groups, result.betTypes]) {
+        assert.ok(codes.every(code => code === sport.code));
+      }
+      // Every record of the sport is kept
+      assert.equal(result.headers.length, liveHeaders.filter(header => header.s === sport.code).length);
+      assert.equal(result.matches.length, preGameMatches.filter(match => match.sport === sport.code).length);
+      assert.equal(result.pickKeys.length, Object.keys(bets.picks).filter(key => key.endsWith(`_${sport.code}`)).length);
+      assert.equal(result.groups.length, Object.values(bets.groups).filter(group => group.sport === sport.code).length);
+    }
+
+    // The key, the code and the name select the same records
+    assert.deepEqual(results[1], results[0]);
+    assert.deepEqual(results[2], results[0]);
+  });
+}
+
+test('resolves keys, codes and names ignoring case', () => {
+  assert.equal(registry.resolve('FOOTBALL')?.sportTypeCode, 'S');
+  assert.equal(registry.resolve('s')?.key, 'football');
+  assert.equal(registry.resolve('Košarka')?.key, 'basketball');
+  assert.equal(registry.resolve('curling'), null);
+});
+
+test('filters nothing for an unknown sport', () => {
+  assert.deepEqual(sportMappingService.filterLiveHeadersBySport(liveHeaders, 'curling'), []);
+  assert.deepEqual(registry.filterPreGameMatches(preGameMatches, 'curling'), []);
+  assert.equal(registry.isPickKeyOf('1_S', 'curling'), false);
+});
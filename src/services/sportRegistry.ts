@@ -0,0 +1,204 @@
+import { BookmakerSport, BetCatalogue } from '../types/bookmakerTypes';
+import { Sport } from '../types';
+
+export interface SportMapping {
+  key: Sport; // stable id used by the API, e.g. 'football' or 'hockey'
+  name: string; // the bookmaker's name, e.g. 'FUDBAL'
+  shortName: string | null;
+  sportTypeCode: string;
+  englishName: string;
+  orderNumber: number;
+  active: boolean;
+  activeInLive: boolean;
+}
+
+// English keys of the soccerbet.rs sport names; other sports get a key from their own name
+const ENGLISH_SPORT_NAMES: Record<string, string> = {
+  'FUDBAL': 'football',
+  'KOŠARKA': 'basketball',
+  'TENIS': 'tennis',
+  'HOKEJ': 'hockey',
+  'HOKEJ NA LEDU': 'hockey',
+  'RUKOMET': 'handball',
+  'ODBOJKA': 'volleyball',
+  'ODBOJKA NA PESKU': 'beach-volleyball',
+  'STONI TENIS': 'table-tennis',
+  'VATERPOLO': 'water-polo',
+  'FUTSAL': 'futsal',
+  'MALI FUDBAL': 'futsal',
+  'AMERIČKI FUDBAL': 'american-football',
+  'BEJZBOL': 'baseball',
+  'RAGBI': 'rugby',
+  'SNUKER': 'snooker',
+  'PIKADO': 'darts',
+  'BOKS': 'boxing',
+  'BADMINTON': 'badminton',
+  'KRIKET': 'cricket',
+  'FORMULA 1': 'formula-1',
+  'E-SPORT': 'esports',
+  'ESPORT': 'esports',
+  'E SPORTOVI': 'esports'
+};
+
+/**
+ * Turn a sport name into a URL friendly key, e.g. 'KOŠARKA 3X3' -> 'kosarka-3x3'
+ */
+function toSportKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/đ/g, 'dj')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * The one place that knows which bookmaker code belongs to a sport.
+ *
+ * Built from the bookmaker's sports catalogue at initialization. Live headers (`s`),
+ * pre-game matches (`sport`), bet pick keys (`<tipType>_<code>`), bet groups and bet
+ * definitions all carry the same `sportTypeCode`, so every sport filter goes through
+ * `getCode` instead of keeping its own table.
+ */
+export class SportRegistry {
+  private sports: Map<Sport, SportMapping> = new Map();
+
+  /**
+   * Replace the registry with a sports catalogue. Every sport is registered; sports
+   * without a known English name are keyed by the bookmaker's name.
+   */
+  load(sportsData: BookmakerSport[]): void {
+    this.sports.clear();
+    
+    [...sportsData].sort((a, b) => a.orderNumber - b.orderNumber).forEach(sport => {
+      const englishName = ENGLISH_SPORT_NAMES[sport.name.trim().toUpperCase()];
+      let key = englishName || toSportKey(sport.name) || sport.code.toLowerCase();
+      
+      // Two sports with the same name keep apart by their code
+      if (this.sports.has(key)) {
+        key = `${key}-${sport.code.toLowerCase()}`;
+      }
+      
+      this.sports.set(key, {
+        key,
+        name: sport.name,
+        shortName: sport.shortName,
+        sportTypeCode: sport.code,
+        englishName: englishName || sport.name,
+        orderNumber: sport.orderNumber,
+        active: sport.active,
+        activeInLive: sport.activeInLive
+      });
+      console.log(`Mapped ${sport.name} (${sport.code}) -> ${key}`);
+    });
+    
+    console.log(`Sport registry loaded with ${this.sports.size} sports`);
+  }
+
+  isLoaded(): boolean {
+    return this.sports.size > 0;
+  }
+
+  /**
+   * Find a sport by its key, its sport type code or the bookmaker's name, ignoring case
+   */
+  resolve(value: string): SportMapping | null {
+    const wanted = value.trim();
+    const byKey = this.sports.get(wanted.toLowerCase());
+    if (byKey) {
+      return byKey;
+    }
+    
+    for (const sport of this.sports.values()) {
+      if (sport.sportTypeCode.toUpperCase() === wanted.toUpperCase() || sport.name.toUpperCase() === wanted.toUpperCase()) {
+        return sport;
+      }
+    }
+    
+    return null;
+  }
+
+  get(sport: Sport): SportMapping | null {
+    return this.sports.get(sport) || null;
+  }
+
+  /**
+   * Get every sport in catalogue order
+   */
+  getAll(): SportMapping[] {
+    return Array.from(this.sports.values());
+  }
+
+  /**
+   * Get the bookmaker code of a sport, e.g. 'S' for football
+   */
+  getCode(sport: Sport): string | null {
+    return this.sports.get(sport)?.sportTypeCode || null;
+  }
+
+  /**
+   * Get the display name of a sport type code, e.g. 'Football' for 'S'
+   */
+  getName(sportTypeCode: string): string {
+    const sport = this.getAll().find(candidate => candidate.sportTypeCode === sportTypeCode);
+    if (!sport) {
+      return sportTypeCode;
+    }
+    
+    const name = sport.englishName.replace(/-/g, ' ').toLowerCase();
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+
+  /**
+   * Build the bet pick key of a tip type, e.g. '1_S'
+   */
+  getPickKey(tipType: string | number, sportTypeCode: string): string {
+    return `${tipType}_${sportTypeCode}`;
+  }
+
+  /**
+   * Check if a bet pick key belongs to a sport
+   */
+  isPickKeyOf(pickKey: string, sport: Sport): boolean {
+    const code = this.getCode(sport);
+    return code !== null && pickKey.endsWith(`_${code}`);
+  }
+
+  /**
+   * Keep the active catalogue entries of a sport
+   */
+  filterSports(sportsData: BookmakerSport[], sport: Sport): BookmakerSport[] {
+    const code = this.getCode(sport);
+    return sportsData.filter(entry => entry.code === code && entry.active);
+  }
+
+  /**
+   * Keep the live headers of a sport
+   */
+  filterLiveHeaders<T extends { s: string }>(headers: T[], sport: Sport): T[] {
+    const code = this.getCode(sport);
+    return code === null ? [] : headers.filter(header => header.s === code);
+  }
+
+  /**
+   * Keep the pre-game matches of a sport
+   */
+  filterPreGameMatches<T extends { sport: string }>(matches: T[], sport: Sport): T[] {
+    const code = this.getCode(sport);
+    return code === null ? [] : matches.filter(match => match.sport === code);
+  }
+
+  /**
+   * Keep the bet types, bet groups and picks of a sport
+   */
+  filterBetCatalogue(bets: BetCatalogue, sport: Sport): BetCatalogue {
+    const code = this.getCode(sport);
+    
+    return {
+      betTypes: Object.fromEntries(Object.entries(bets.betTypes).filter(([_, bet]) => bet.sport === code)),
+      groups: Object.fromEntries(Object.entries(bets.groups).filter(([_, group]) => group.sport === code)),
+      picks: Object.fromEntries(Object.entries(bets.picks).filter(([key]) => this.isPickKeyOf(key, sport)))
+    };
+  }
+}
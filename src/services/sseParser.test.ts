@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SseParser, SseEvent, parseEndSentinel } from './sseParser';
+
+/**
+ * Feed the chunks to a new parser and collect what it dispatched
+ */
+function parse(chunks: (string | Buffer)[], end: boolean = true): { events: SseEvent[]; comments: string[] } {
+  const events: SseEvent[] = [];
+  const comments: string[] = [];
+  const parser = new SseParser({
+    onEvent: event => events.push(event),
+    onComment: comment => comments.push(comment)
+  });
+
+  chunks.forEach(chunk => parser.push(chunk));
+  if (end) {
+    parser.end();
+  }
+
+  return { events, comments };
+}
+
+test('joins multi-line data with newlines', () => {
+  const { events } = parse(['data: first\ndata:second\ndata\n\n']);
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].data, 'first\nsecond\n');
+  assert.equal(events[0].event, 'message');
+});
+
+test('reads the event, id and retry fields', () => {
+  const { events } = parse(['event: liveBets\nid: 42\nretry: 3000\ndata: {}\n\n', 'data: next\n\n']);
+
+  assert.deepEqual(events[0], { event: 'liveBets', data: '{}', id: '42', retry: 3000 });
+  // The id and retry carry over, the event type does not
+  assert.deepEqual(events[1], { event: 'message', data: 'next', id: '42', retry: 3000 });
+});
+
+test('ignores an invalid retry and an id containing NUL', () => {
+  const { events } = parse(['id: 1\nretry: 100\ndata: a\n\nid: 2\0\nretry: soon\ndata: b\n\n']);
+
+  assert.equal(events[1].id, '1');
+  assert.equal(events[1].retry, 100);
+});
+
+test('reports comment lines without dispatching them', () => {
+  const { events, comments } = parse([': heartbeat\n:keep-alive\n\n']);
+
+  assert.deepEqual(comments, ['heartbeat', 'keep-alive']);
+  assert.equal(events.length, 0);
+});
+
+test('reads bare JSON lines as data', () => {
+  const { events } = parse(['{"liveBets":[]}\n\n']);
+
+  assert.equal(events[0].data, '{"liveBets":[]}');
+});
+
+test('dispatches an event left without its blank line at the end', () => {
+  assert.equal(parse(['data: last'], false).events.length, 0);
+  assert.equal(parse(['data: last']).events[0].data, 'last');
+});
+
+test('reads the END sentinel of the initial snapshot', () => {
+  const { events } = parse(['data:END 1700000000000\n\n']);
+
+  assert.equal(parseEndSentinel(events[0].data), 1700000000000);
+  assert.equal(parseEndSentinel(' END   12 '), 12);
+  assert.equal(parseEndSentinel('END'), null);
+  assert.equal(parseEndSentinel('ENDING 12'), null);
+  assert.equal(parseEndSentinel('{"liveBets":[]}'), null);
+});
+
+test('handles a chunk split inside a CRLF pair', () => {
+  const { events } = parse(['data: one\r', '\n\r', '\ndata: two\r\n\r\n'], false);
+
+  assert.deepEqual(events.map(event => event.data), ['one', 'two']);
+});
+
+test('accepts lone CR line endings', () => {
+  const { events } = parse(['data: one\r\rdata: two\r\r'], false);
+
+  assert.deepEqual(events.map(event => event.data), ['one', 'two']);
+});
+
+test('handles a chunk split inside a multi-byte UTF-8 character', () => {
+  const bytes = Buffer.from('data: Čukarički – Đoković\n\n', 'utf8');
+  // 'Č' is two bytes, at offsets 6 and 7
+  const { events } = parse([bytes.subarray(0, 7), bytes.subarray(7, 20), bytes.subarray(20)], false);
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].data, 'Čukarički – Đoković');
+});
+
+test('strips a leading byte order mark', () => {
+  const { events } = parse(['\uFEFFdata: x\n\n']);
+
+  assert.equal(events[0].data, 'x');
+});
@@ -0,0 +1,187 @@
+import { StringDecoder } from 'string_decoder';
+
+// One dispatched Server-Sent Event
+export interface SseEvent {
+  event: string; // `event:` field, 'message' when absent
+  data: string; // `data:` lines joined with \n
+  id: string | null; // last event id seen on the stream so far
+  retry: number | null; // reconnection time requested by the server, ms
+}
+
+export interface SseParserHandlers {
+  onEvent: (event: SseEvent) => void;
+  onComment?: (comment: string) => void;
+}
+
+/**
+ * Incremental Server-Sent Events parser following the WHATWG event stream format.
+ *
+ * Accepts raw chunks in any size: lines may end in LF, CRLF or CR, and chunks may split
+ * lines, CRLF pairs and multi-byte UTF-8 characters. soccerbet.rs deviations are tolerated:
+ * a line that starts with `{` or `[` is read as a `data:` line, and `end()` dispatches an
+ * event left without its closing blank line.
+ */
+export class SseParser {
+  private readonly handlers: SseParserHandlers;
+  private decoder: StringDecoder = new StringDecoder('utf8');
+  private buffer: string = '';
+  private pendingCarriageReturn: boolean = false;
+  private isFirstLine: boolean = true;
+  private eventType: string = '';
+  private dataLines: string[] = [];
+  private hasData: boolean = false;
+  private lastEventId: string | null = null;
+  private retry: number | null = null;
+
+  constructor(handlers: SseParserHandlers) {
+    this.handlers = handlers;
+  }
+
+  /**
+   * Feed the next chunk of the stream
+   */
+  push(chunk: Buffer | string): void {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+    this.processBuffer();
+  }
+
+  /**
+   * Finish the stream: process a trailing line without newline and dispatch the last event
+   */
+  end(): void {
+    this.buffer += this.decoder.end();
+    this.processBuffer();
+
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = '';
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Get the id of the last `id:` field, to resume the stream from
+   */
+  getLastEventId(): string | null {
+    return this.lastEventId;
+  }
+
+  /**
+   * Get the reconnection time from the last valid `retry:` field
+   */
+  getRetry(): number | null {
+    return this.retry;
+  }
+
+  /**
+   * Split complete lines off the buffer
+   */
+  private processBuffer(): void {
+    let start = 0;
+
+    // A CR at the end of the previous chunk already ended its line; skip the LF of a split CRLF
+    if (this.pendingCarriageReturn && this.buffer.startsWith('\n')) {
+      start = 1;
+    }
+    this.pendingCarriageReturn = false;
+
+    for (let i = start; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      this.processLine(this.buffer.substring(start, i));
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCarriageReturn = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.substring(start);
+  }
+
+  private processLine(line: string): void {
+    if (this.isFirstLine) {
+      this.isFirstLine = false;
+      line = line.replace(/^\uFEFF/, '');
+    }
+
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      this.handlers.onComment?.(line.substring(1).replace(/^ /, ''));
+      return;
+    }
+
+    // Bare JSON without a field name
+    if (line.startsWith('{') || line.startsWith('[')) {
+      this.processField('data', line);
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      this.processField(line, '');
+    } else {
+      this.processField(line.substring(0, colon), line.substring(colon + 1).replace(/^ /, ''));
+    }
+  }
+
+  private processField(field: string, value: string): void {
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        this.hasData = true;
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  /**
+   * Emit the collected event, if it has data, and start a new one
+   */
+  private dispatch(): void {
+    if (this.hasData) {
+      this.handlers.onEvent({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.lastEventId,
+        retry: this.retry
+      });
+    }
+
+    this.eventType = '';
+    this.dataLines = [];
+    this.hasData = false;
+  }
+}
+
+/**
+ * Read the timestamp of the `END <ts>` sentinel that closes the initial live snapshot
+ */
+export function parseEndSentinel(data: string): number | null {
+  const match = /^END\s+(\d+)\s*$/.exec(data.trim());
+  return match ? parseInt(match[1], 10) : null;
+}
@@ -0,0 +1,313 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { getSoccerbetBaseUrl, getUpstreamClientOptions } from '../config';
+import {
+  CircuitState,
+  UpstreamClientOptions,
+  UpstreamEndpoint,
+  UpstreamEndpointStatus,
+  UpstreamRequestOptions,
+  UpstreamStatus
+} from '../types/upstreamTypes';
+
+const ENDPOINTS: UpstreamEndpoint[] = ['sports', 'bettingOptions', 'preGame', 'liveEvents', 'liveSubscribe'];
+
+interface EndpointState {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  totalRetries: number;
+  rejectedWhileOpen: number;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  openedAt: Date | null;
+  trialInFlight: boolean;
+}
+
+/**
+ * A request that failed after all attempts. `status` is the last HTTP status, or null
+ * when no response arrived.
+ */
+export class UpstreamRequestError extends Error {
+  readonly endpoint: UpstreamEndpoint;
+  readonly status: number | null;
+
+  constructor(endpoint: UpstreamEndpoint, message: string, status: number | null) {
+    super(message);
+    this.name = 'UpstreamRequestError';
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+/**
+ * Shared HTTP client for soccerbet.rs with retries, per-endpoint timeouts and circuit breakers.
+ *
+ * Failed attempts are retried with exponential backoff and jitter when the failure is a
+ * network error, a timeout, a 429 or a 5xx. A request that still fails counts once towards
+ * its endpoint's breaker; after `breakerThreshold` failed requests in a row the circuit
+ * opens and requests fail fast until the cooldown has passed. The next request is then let
+ * through as a single trial that closes the circuit again or reopens it.
+ */
+export class UpstreamClient {
+  private readonly origin: string;
+  private readonly options: UpstreamClientOptions;
+  private readonly defaultHeaders: Record<string, string>;
+  private states: Record<UpstreamEndpoint, EndpointState>;
+
+  constructor(origin: string = getSoccerbetBaseUrl(), options: UpstreamClientOptions = getUpstreamClientOptions()) {
+    this.origin = origin;
+    this.options = options;
+    this.defaultHeaders = {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+      'Accept': 'application/json, text/plain, */*',
+      'Accept-Language': 'sr-RS,sr;q=0.9,en;q=0.8',
+      'Referer': `${origin}/`,
+      'Origin': origin
+    };
+    this.states = {} as Record<UpstreamEndpoint, EndpointState>;
+    ENDPOINTS.forEach(endpoint => this.states[endpoint] = this.createState());
+  }
+
+  /**
+   * Get the soccerbet.rs origin requests are sent to
+   */
+  getOrigin(): string {
+    return this.origin;
+  }
+
+  /**
+   * GET a JSON document
+   */
+  async getJson<T>(endpoint: UpstreamEndpoint, url: string, options: UpstreamRequestOptions = {}): Promise<T> {
+    const response = await this.request<T>(endpoint, url, options, {});
+    return response.data;
+  }
+
+  /**
+   * Open a streaming GET. Only opening the connection is retried; errors after the
+   * response headers arrived are left to the caller.
+   */
+  async getStream(endpoint: UpstreamEndpoint, url: string, options: UpstreamRequestOptions = {}): Promise<Readable> {
+    const response = await this.request<Readable>(endpoint, url, options, { responseType: 'stream' });
+    return response.data;
+  }
+
+  /**
+   * Get the circuit and failure counters of every endpoint
+   */
+  getStatus(): UpstreamStatus {
+    const endpoints = ENDPOINTS.map(endpoint => this.getEndpointStatus(endpoint));
+
+    return {
+      origin: this.origin,
+      healthy: endpoints.every(status => status.circuit === 'closed'),
+      retries: this.options.retries,
+      breakerThreshold: this.options.breakerThreshold,
+      breakerCooldownMs: this.options.breakerCooldownMs,
+      endpoints
+    };
+  }
+
+  /**
+   * Close every circuit and clear the counters
+   */
+  reset(): void {
+    ENDPOINTS.forEach(endpoint => this.states[endpoint] = this.createState());
+  }
+
+  /**
+   * Run a request through the endpoint's circuit breaker, retrying retryable failures
+   */
+  private async request<T>(endpoint: UpstreamEndpoint, url: string, options: UpstreamRequestOptions, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const state = this.states[endpoint];
+    const isTrial = this.admit(endpoint);
+    const maxAttempts = isTrial ? 1 : this.options.retries + 1;
+
+    state.totalRequests++;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response: AxiosResponse<T> = await axios.get(url, {
+          ...config,
+          timeout: this.options.timeouts[endpoint],
+          signal: options.signal,
+          headers: { ...this.defaultHeaders, ...options.headers }
+        });
+
+        this.recordSuccess(endpoint, isTrial);
+        return response;
+      } catch (error) {
+        if (this.isAbort(error)) {
+          if (isTrial) state.trialInFlight = false;
+          throw error;
+        }
+
+        const message = this.describeError(error);
+
+        if (attempt >= maxAttempts || !this.isRetryable(error)) {
+          this.recordFailure(endpoint, message, isTrial);
+          const status = axios.isAxiosError(error) ? error.response?.status ?? null : null;
+          throw new UpstreamRequestError(endpoint, `${endpoint} request failed after ${attempt} attempt${attempt === 1 ? '' : 's'}: ${message}`, status);
+        }
+
+        const delay = this.getBackoffDelay(attempt);
+        state.totalRetries++;
+        console.warn(`Upstream ${endpoint} attempt ${attempt}/${maxAttempts} failed (${message}), retrying in ${delay}ms`);
+        await this.sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Check the circuit before a request. Returns true when the request is the half-open trial.
+   */
+  private admit(endpoint: UpstreamEndpoint): boolean {
+    const state = this.states[endpoint];
+
+    if (state.circuit === 'closed') {
+      return false;
+    }
+
+    const retryAt = this.getRetryAt(state);
+    if (state.circuit === 'open' && retryAt && Date.now() >= retryAt.getTime()) {
+      state.circuit = 'half-open';
+    }
+
+    if (state.circuit === 'half-open' && !state.trialInFlight) {
+      state.trialInFlight = true;
+      console.log(`Upstream ${endpoint} circuit half-open, sending trial request`);
+      return true;
+    }
+
+    state.rejectedWhileOpen++;
+    const error = new Error(`Upstream ${endpoint} is unavailable after ${state.consecutiveFailures} consecutive failures (circuit ${state.circuit}${retryAt ? ` until ${retryAt.toISOString()}` : ''}): ${state.lastError || 'Unknown error'}`);
+    error.name = 'UpstreamUnavailableError';
+    throw error;
+  }
+
+  private recordSuccess(endpoint: UpstreamEndpoint, isTrial: boolean): void {
+    const state = this.states[endpoint];
+
+    if (state.circuit !== 'closed') {
+      console.log(`Upstream ${endpoint} circuit closed after successful trial request`);
+    }
+
+    state.circuit = 'closed';
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+    state.lastSuccessAt = new Date();
+    if (isTrial) state.trialInFlight = false;
+  }
+
+  private recordFailure(endpoint: UpstreamEndpoint, message: string, isTrial: boolean): void {
+    const state = this.states[endpoint];
+
+    state.consecutiveFailures++;
+    state.totalFailures++;
+    state.lastFailureAt = new Date();
+    state.lastError = message;
+    if (isTrial) state.trialInFlight = false;
+
+    if (isTrial || (state.circuit === 'closed' && state.consecutiveFailures >= this.options.breakerThreshold)) {
+      state.circuit = 'open';
+      state.openedAt = new Date();
+      console.error(`Upstream ${endpoint} circuit opened after ${state.consecutiveFailures} consecutive failures, pausing for ${this.options.breakerCooldownMs}ms`);
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter: between half and all of base * 2^(attempt - 1), capped
+   */
+  private getBackoffDelay(attempt: number): number {
+    const delay = Math.min(this.options.backoffMaxMs, this.options.backoffBaseMs * Math.pow(2, attempt - 1));
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Network errors, timeouts, rate limiting and server errors are worth another attempt
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  private isAbort(error: unknown): boolean {
+    return axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+  }
+
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error) && error.response) {
+      return `HTTP ${error.response.status}`;
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  /**
+   * Wait between attempts, giving up early when the request is aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        const error = new Error('Request aborted');
+        error.name = 'AbortError';
+        reject(error);
+        return;
+      }
+
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        const error = new Error('Request aborted');
+        error.name = 'AbortError';
+        reject(error);
+      }, { once: true });
+    });
+  }
+
+  private getRetryAt(state: EndpointState): Date | null {
+    return state.openedAt ? new Date(state.openedAt.getTime() + this.options.breakerCooldownMs) : null;
+  }
+
+  private getEndpointStatus(endpoint: UpstreamEndpoint): UpstreamEndpointStatus {
+    const state = this.states[endpoint];
+    const retryAt = state.circuit === 'open' ? this.getRetryAt(state) : null;
+
+    return {
+      endpoint,
+      circuit: state.circuit,
+      timeoutMs: this.options.timeouts[endpoint],
+      consecutiveFailures: state.consecutiveFailures,
+      totalRequests: state.totalRequests,
+      totalFailures: state.totalFailures,
+      totalRetries: state.totalRetries,
+      rejectedWhileOpen: state.rejectedWhileOpen,
+      lastSuccessAt: state.lastSuccessAt ? state.lastSuccessAt.toISOString() : null,
+      lastFailureAt: state.lastFailureAt ? state.lastFailureAt.toISOString() : null,
+      lastError: state.lastError,
+      openedAt: state.openedAt ? state.openedAt.toISOString() : null,
+      retryAt: retryAt ? retryAt.toISOString() : null
+    };
+  }
+
+  private createState(): EndpointState {
+    return {
+      circuit: 'closed',
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      totalRetries: 0,
+      rejectedWhileOpen: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      openedAt: null,
+      trialInFlight: false
+    };
+  }
+}
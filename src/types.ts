@@ -4,6 +4,7 @@ import { Request, Response, NextFunction } from 'express';
 declare module 'express-session' {
   interface SessionData {
     authenticated?: boolean;
+    jobId?: string; // job started from this session with /api/start
   }
 }
 
@@ -11,6 +12,7 @@ declare module 'express-session' {
 export interface AuthenticatedRequest extends Request {
   session: Request['session'] & {
     authenticated?: boolean;
+    jobId?: string;
   };
 }
 
@@ -31,12 +33,13 @@ export interface LoginResponse extends ApiResponse {}
 // Start/Stop request types
 export interface StartRequest {
   mode: 'live' | 'pre-game';
-  sport: 'football' | 'tennis' | 'basketball';
-  interval?: string; // Only for pre-game mode
+  sport: Sport; // sport key, sport type code or soccerbet.rs name, see /api/sports
+  interval?: TimeInterval; // Only for pre-game mode
 }
 
 export interface StartResponse extends ApiResponse {
   data: {
+    jobId?: string;
     mode: string;
     sport: string;
     interval?: string;
@@ -49,7 +52,8 @@ export interface StartResponse extends ApiResponse {
 export interface StopResponse extends ApiResponse {}
 
 // Sports and intervals
-export type Sport = 'football' | 'tennis' | 'basketball';
+// Sport key from the soccerbet.rs catalogue, e.g. 'football', 'hockey' or 'handball'
+export type Sport = string;
 export type Mode = 'live' | 'pre-game';
 export type TimeInterval = '1min' | '10min' | '30min' | '1hour';
 
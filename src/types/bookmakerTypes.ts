@@ -0,0 +1,164 @@
+// Bookmaker-neutral types every BookmakerAdapter returns. Adapters translate their own
+// API into these; the soccerbet.rs wire types stay inside the soccerbet adapter.
+
+export interface BookmakerSport {
+  code: string; // sport type code the bookmaker's records carry, e.g. 'S'
+  name: string; // the bookmaker's name of the sport, e.g. 'FUDBAL'
+  shortName: string | null;
+  orderNumber: number;
+  active: boolean; // offered pre-game
+  activeInLive: boolean;
+}
+
+// A market type, e.g. final result or total goals
+export interface BetTypeDefinition {
+  betCode: number;
+  sport: string; // sport type code
+  caption: string; // may contain specifier placeholders
+  useSpecifiers: boolean; // the market name shows its specifier values
+  displaySpecifiers: string | null; // comma separated specifier keys
+  orderNumber: number;
+}
+
+// Picks shown together, e.g. the three outcomes of the final result
+export interface BetGroupDefinition {
+  id: number;
+  sport: string;
+  name: string;
+  description: string;
+  favorite: boolean;
+  orderNumber: number;
+  tipTypes: number[]; // tip type codes of the group's picks
+  specialValuePosition: string; // where specifier values are shown: HEADER, NONE or with the picks
+  displaySpecifiers: string;
+  handicapParam: string | null;
+  specialBetValueTypes: string | null;
+  formatCode: number;
+  lineCode: number;
+  hideHeader: boolean;
+  picksPerRow: number | null;
+}
+
+// One outcome of a market type
+export interface PickDefinition {
+  tipTypeCode: number;
+  sport: string;
+  betCode: number;
+  betPickCode: number;
+  label: string;
+  caption: string;
+  tipTypeName: string;
+  position: string | null;
+  tipTypeTag: string | null;
+  mainType: string | null;
+  displaySpecifiers: string | null;
+}
+
+export interface BetCatalogue {
+  betTypes: Record<string, BetTypeDefinition>; // by bet code
+  groups: Record<string, BetGroupDefinition>; // by group id
+  picks: Record<string, PickDefinition>; // by pick key, `<tipTypeCode>_<sport>`
+}
+
+// Sports and market definitions a bookmaker's offer is labelled with
+export interface BookmakerCatalogue {
+  sports: BookmakerSport[];
+  bets: BetCatalogue;
+}
+
+// A match of the offer, pre-game or live
+export interface BookmakerMatch {
+  id: number; // the bookmaker's id; the pre-game and live records of a fixture may differ
+  code: number; // match code printed on tickets
+  sport: string; // sport type code
+  home: string;
+  away: string;
+  leagueId: number;
+  leagueName: string;
+  leagueShort: string;
+  kickOffTime: number; // ms since epoch
+  brMatchId: number | null; // Betradar match id, shared by the pre-game and live records of a fixture
+  featured: boolean; // top match of the offer
+}
+
+// One outcome of a market with its odds
+export interface BookmakerSelection {
+  tipCode: number; // tip type code of the catalogue pick
+  pickCode: number; // bet pick code of the catalogue pick
+  odds: number;
+  status: string; // e.g. ACTIVE
+}
+
+// The selections of one bet code and specifier values
+export interface BookmakerMarket {
+  id: number | null; // live markets only
+  matchId: number;
+  betCode: number;
+  specialValue: string; // specifiers, e.g. 'total=2.5'; empty when the market has none
+  status: string; // e.g. ACTIVE
+  disabled: boolean;
+  changedAt: number | null; // the bookmaker's change time, ms since epoch
+  selections: BookmakerSelection[];
+}
+
+// A match of the pre-game offer with its markets
+export interface BookmakerPreGameMatch extends BookmakerMatch {
+  status: number; // the bookmaker's status code of the match
+  blocked: boolean;
+  live: boolean; // the match has gone live
+  markets: BookmakerMarket[];
+}
+
+// A match of the live feed
+export interface BookmakerLiveMatch extends BookmakerMatch {
+  liveStatus: string; // e.g. RUNNING, HT or FT
+  bettingAllowed: boolean;
+  info: string;
+  externalId: string;
+  changedAt: number | null;
+}
+
+// A score given as "2:1", [2, 1] or an object with the home and away values
+export type ScoreValue = string | number[] | { h?: number | string; a?: number | string; home?: number | string; away?: number | string };
+
+// The score and clock of a live match
+export interface BookmakerLiveScore {
+  matchId: number;
+  changedAt?: number;
+  score?: ScoreValue;
+  periodScores?: ScoreValue[] | string; // oldest first
+  period?: string; // current period
+  matchTime?: string | number; // e.g. "67" or "45+2"
+  gameScore?: ScoreValue; // tennis points in the current game
+  server?: number; // tennis, 1 = home, 2 = away
+}
+
+// A sport of the live feed with its number of matches
+export interface BookmakerLiveSport {
+  code: string;
+  matchCount: number;
+}
+
+// The pre-game offer of one sport
+export interface PreGameOffer {
+  fetchedAt: number; // ms since epoch
+  matches: BookmakerPreGameMatch[];
+}
+
+// Live records decoded from one message of the live feed. Updates may carry only the fields
+// that changed; fields they leave out are undefined and keep their stored values.
+export interface LiveFeedBatch {
+  sports: BookmakerLiveSport[];
+  matches: BookmakerLiveMatch[];
+  markets: BookmakerMarket[];
+  scores: BookmakerLiveScore[];
+}
+
+// Callbacks of a decoded live feed connection
+export interface LiveFeedHandlers {
+  onBatch: (batch: LiveFeedBatch) => void;
+  onSnapshotEnd: (position: number) => void; // the snapshot is complete; subscribe from this position
+  onPosition: (position: number) => void; // updates up to this position were received
+  onMalformed: (sample: string) => void; // a message that could not be decoded was skipped
+  onRetry: (retryMs: number) => void; // reconnection delay requested by the bookmaker
+}
@@ -0,0 +1,86 @@
+// Types for closing line capture and closing line value (CLV) reports
+import { MarginMethod } from './marketTypes';
+
+// What marked the end of the pre-game market
+export type ClosingTrigger = 'live-flag' | 'live-header' | 'kickoff';
+
+export interface ClosingSelection {
+  marketId: string;
+  market: string | null; // rendered market name
+  betCode: number;
+  sv: string;
+  tipCode: number;
+  label: string;
+  caption: string;
+  odds: number;
+  fairOdds: number | null; // margin-free closing odds, null when the market could not be priced
+}
+
+export interface ClosingLine {
+  matchId: number; // PreGameMatch.id
+  fixtureId: string | null;
+  sport: string; // sport type code
+  home: string;
+  away: string;
+  league: string;
+  kickOffTime: number;
+  trigger: ClosingTrigger;
+  oddsAt: number; // when the closing odds were last seen in the pre-game offer
+  capturedAt: number;
+  stale: boolean; // oddsAt is too long before kickoff for the odds to count as the close
+  marginMethod: MarginMethod;
+  selections: ClosingSelection[];
+}
+
+// A bet of ours to compare with the close
+export interface ClvPick {
+  matchId: number; // PreGameMatch.id
+  betCode: number;
+  sv?: string;
+  tipCode: number;
+  odds: number;
+  placedAt?: number; // ms since epoch
+}
+
+export interface ClvEntry {
+  matchId: number;
+  fixtureId: string | null;
+  match: string | null; // "Home - Away", null without a closing line
+  market: string | null;
+  betCode: number;
+  sv: string;
+  tipCode: number;
+  label: string | null;
+  odds: number; // odds taken, or offered at the report time
+  oddsAt: number | null; // when those odds were taken or offered
+  closingOdds: number | null; // null when the match or selection has no closing line
+  closingFairOdds: number | null;
+  closingStale: boolean | null; // the closing line is stale, so the entry is left out of the averages
+  clv: number | null; // odds / closingOdds - 1
+  fairClv: number | null; // odds / closingFairOdds - 1, the expected return against the margin-free close
+}
+
+export interface ClvSummary {
+  entries: number;
+  matched: number; // entries with a closing line that is not stale
+  stale: number; // entries whose closing line is stale
+  averageClv: number | null;
+  averageFairClv: number | null;
+  beatCloseShare: number | null; // share of matched entries with odds above the close
+}
+
+export interface ClvReport {
+  basis: 'picks' | 'time';
+  at: number | null; // fixed report time, when not relative to kickoff
+  minutesBefore: number | null; // report time relative to each kickoff
+  entries: ClvEntry[];
+  summary: ClvSummary;
+}
+
+export interface ClosingLineStats {
+  captured: number;
+  tracked: number; // matches whose pre-game odds are kept until they close
+  stale: number; // closing lines seen too long before kickoff
+  byTrigger: Record<ClosingTrigger, number>;
+  lastCapturedAt: string | null;
+}
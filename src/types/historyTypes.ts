@@ -0,0 +1,48 @@
+// Odds history types for the persisted odds change log
+
+export type OddsSource = 'live' | 'pre-game';
+
+export interface OddsChangeRecord {
+  source: OddsSource;
+  matchId: number; // LiveHeader.id or PreGameMatch.id
+  betCode: number;
+  specialValue: string; // sv, empty string when the bet has no special value
+  tipType: string; // odds map key (tip type code)
+  odds: number;
+  betPickCode: number;
+  sportCode: string | null;
+  timestamp: number; // ms since epoch when the change was observed
+}
+
+export interface OddsPoint {
+  timestamp: number;
+  odds: number;
+}
+
+export interface OddsSeries {
+  source: OddsSource;
+  matchId: number;
+  betCode: number;
+  specialValue: string;
+  tipType: string;
+  betPickCode: number;
+  sportCode: string | null;
+  description: string;
+  caption: string;
+  groupId: number | null;
+  groupName: string | null;
+  openingOdds: number;
+  currentOdds: number;
+  minOdds: number;
+  maxOdds: number;
+  changes: number; // number of odds changes after the opening value
+  openedAt: number;
+  updatedAt: number;
+  points: OddsPoint[];
+}
+
+export interface OddsHistoryQuery {
+  source?: OddsSource;
+  betCode?: number;
+  specialValue?: string;
+}
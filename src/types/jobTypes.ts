@@ -0,0 +1,31 @@
+// Types for named collection jobs running side by side
+import { Mode, Sport, TimeInterval } from '../types';
+import { LiveConnectionStats } from './liveTypes';
+import { PreGameRefreshStatus } from './pregameTypes';
+
+export type CollectionJobStatus = 'starting' | 'running' | 'stopped' | 'failed';
+
+export interface CollectionJobConfig {
+  name?: string; // defaults to `<mode>-<sport>`; the job id is derived from it
+  mode: Mode;
+  sport: Sport;
+  interval?: TimeInterval; // pre-game refresh interval, defaults to 1min
+}
+
+export interface CollectionJobInfo {
+  id: string;
+  name: string;
+  mode: Mode;
+  sport: Sport;
+  interval: TimeInterval | null;
+  status: CollectionJobStatus;
+  error: string | null; // why the last start failed
+  createdAt: string;
+  startedAt: string | null;
+  stoppedAt: string | null;
+  starts: number;
+  matches: number; // matches of the job's sport currently held
+  isStreaming: boolean;
+  connection: LiveConnectionStats | null; // live jobs only
+  refresh: PreGameRefreshStatus | null; // pre-game jobs only
+}
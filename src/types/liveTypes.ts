@@ -1,84 +1,158 @@
-// Live data types for soccerbet.rs streaming API
+// Live data types: the records the live collector stores and serves
+import { Market } from './marketTypes';
+import { ScoreValue } from './bookmakerTypes';
 
 export interface LiveSport {
-  sport: string;
-  sportSortValue: string;
+  sport: string; // sport type code
   matchsCount: number;
 }
 
+// A live match. Names follow the soccerbet.rs feed the API was first written against;
+// the records are built from the adapters' BookmakerLiveMatch
 export interface LiveHeader {
-  id: number; // K.id
-  r: number; // K.r - round
-  mc: number; // K.mc - matchCode
-  h: string; // K.h - home team
-  a: string; // K.a - away team
-  lg: string; // K.lg - leagueName
-  lsv: string; // K.lsv - leagueSortValue
-  s: string; // K.s - sport
-  sn: string; // K.sn - sportName
-  ssv: string; // K.ssv - sportSortValue
-  kot: number; // K.kot - kickOffTime
-  ls: string; // K.ls - liveStatus
-  ss: string; // K.ss - streamSource
-  tv: string; // K.tv - tvChannelInfo
-  liv: boolean; // K.liv - showInLive
-  ann: string; // K.ann - announcement
-  ltms: number; // K.ltms - ltmstmp
-  lct: number; // K.lct - lastChangeTime
-  bri: number; // K.bri - brMatchId
-  sti: string; // K.sti - imgStreamId
-  lmt: boolean; // K.lmt - hasLmt
-  eid: string; // K.eid - externalId
-  inf: string; // K.inf - matchInfo
-  ba: boolean; // K.ba - bettingAllowed
-  mte: boolean; // K.mte
-  lgi: string; // K.lgi - leagueInfo
-  fd: string; // K.fd - feed
-  lid: number; // K.lid - leagueId
-  gr: string; // K.gr - leagueGroupToken
-  grl: string; // K.grl - leagueGroupTokenList
-  lsh: string; // K.lsh - leagueShort
-  bd: boolean; // K.bd - bonusDisabled
-  tvd: string; // K.tvd - tvDurationToken
-  hbm: boolean; // K.hbm - hideBetMed
-  fci: string; // K.fci - feedConstructId
-  spi: string; // K.spi - statsPerformId
-  ifs: string; // K.ifs - inFrontStreamId
-  sis: string; // K.sis - sisCompetitionId
-  flag: string; // K.flag - flagId
-  tm: boolean; // K.tm - topMatch
+  id: number;
+  mc: number; // matchCode
+  h: string; // home team
+  a: string; // away team
+  lg: string; // leagueName
+  lsh: string; // leagueShort
+  lid: number; // leagueId
+  s: string; // sport
+  kot: number; // kickOffTime
+  ls: string; // liveStatus
+  ba: boolean; // bettingAllowed
+  tm: boolean; // topMatch
+  inf: string; // matchInfo
+  eid: string; // externalId
+  bri: number | null; // brMatchId
+  lct: number; // lastChangeTime
 }
 
+// A live market, built from a BookmakerMarket
 export interface LiveBet {
-  id: number; // K.id
-  bc: number; // K.bc - liveBetCode
-  mId: number; // K.mId - matchLiveId
-  mc: number; // K.mc - matchCode
-  sv: string; // K.sv - specialValue
-  st: string; // K.st - liveBetStatus
-  d: boolean; // K.d - disabled
-  lct: number; // K.lct - lastChangeTime
-  om: { [key: string]: { ov: number; bpc: number } }; // K.om - odds map, key is tipTypeCode
+  id: number;
+  bc: number; // betCode
+  mId: number; // matchLiveId
+  sv: string; // specialValue
+  st: string; // status
+  d: boolean; // disabled
+  lct: number; // lastChangeTime
+  om: { [key: string]: { ov: number; bpc: number } }; // odds map, key is tipTypeCode
 }
 
-export interface LiveStreamResponse {
-  liveSports?: LiveSport[];
-  liveHeaders: LiveHeader[];
-  liveResults: any[]; // Ignored as per requirements
-  liveBets: LiveBet[];
+// Scores are kept in the shape the adapter reported them in
+export type LiveScoreValue = ScoreValue;
+
+// The score of a live match, built from a BookmakerLiveScore
+export interface LiveResult {
+  mId: number; // matchLiveId
+  lct?: number; // lastChangeTime
+  cs?: LiveScoreValue; // current score
+  ps?: LiveScoreValue[] | string; // period scores, oldest first
+  cp?: string; // current period
+  mt?: string | number; // match time, e.g. "67" or "45+2"
+  gs?: LiveScoreValue; // game score (tennis points in the current game)
+  srv?: number; // serving side (tennis), 1 = home, 2 = away
+}
+
+// The live records of one decoded feed batch
+export interface LiveRecordBatch {
+  sports: LiveSport[];
+  headers: LiveHeader[];
+  bets: LiveBet[];
+  results: LiveResult[];
+}
+
+export interface LivePeriodScore {
+  period: number;
+  home: number;
+  away: number;
+}
+
+export interface LiveScore {
+  matchId: number;
+  home: number | null;
+  away: number | null;
+  periods: LivePeriodScore[];
+  currentPeriod: string | null;
+  matchMinute: number | null; // football
+  set: number | null; // tennis
+  game: { home: string; away: string } | null; // tennis
+  server: 'home' | 'away' | null; // tennis
+  quarter: number | null; // basketball
+  updatedAt: number | null;
 }
 
 export interface LiveData {
   sports: LiveSport[];
   headers: LiveHeader[];
   bets: LiveBet[];
+  results: LiveResult[];
   lastTimestamp: number;
   initializedAt: Date;
-  sport: 'football' | 'tennis' | 'basketball';
 }
 
 export interface LiveSubscriptionData {
   headers: LiveHeader[];
   bets: LiveBet[];
+  results: LiveResult[];
   timestamp: number;
 }
+
+export interface LiveChanges {
+  since: number;
+  token: number; // pass as `since` on the next request
+  fullResync: boolean; // true when the token could not be served and everything is returned
+  headers: any[]; // changed headers of the selected sport, with score
+  bets: any[]; // changed bets with descriptions and group information
+  markets: Market[]; // the changed bets in the model shared with pre-game
+  removedMatchIds: number[];
+  removedBetIds: number[];
+}
+
+export interface LiveConnectionStats {
+  connected: boolean;
+  resyncing: boolean;
+  resumeFrom: number | null; // lastInitId used for the next reconnect
+  reconnects: number; // subscription reopened after a disconnect
+  resyncs: number; // full snapshot reloaded because a gap could not be bridged
+  consecutiveFailures: number;
+  lastConnectedAt: string | null;
+  lastDisconnectAt: string | null;
+  lastResyncAt: string | null;
+  lastResyncReason: string | null;
+  lastError: string | null;
+  malformedEvents: number; // feed events skipped because their data was not JSON
+  stale: boolean; // neither an update nor a heartbeat within the stall threshold, as the watchdog sees it
+  stalls: number; // connections dropped by the watchdog because nothing arrived
+  staleAfterSeconds: number;
+  lastUpdateAt: string | null; // last parsed update, or the snapshot load
+  lastHeartbeatAt: string | null; // last bytes of any kind on the subscription
+  secondsSinceUpdate: number | null;
+}
+
+export type LiveEvictionReason = 'terminal' | 'idle';
+
+// A match removed from the live store, with everything that was known about it
+export interface EvictedLiveMatch {
+  matchId: number;
+  reason: LiveEvictionReason;
+  evictedAt: number;
+  lastSeenAt: number; // when the feed last mentioned the match
+  header: LiveHeader | null;
+  result: LiveResult | null;
+  bets: LiveBet[];
+}
+
+export interface LiveEvictionStats {
+  idleEvictionMinutes: number; // 0 = matches are never evicted for inactivity
+  terminalGraceSeconds: number;
+  terminalStatuses: string[];
+  archiveEvicted: boolean;
+  sweeps: number;
+  evictedMatches: number;
+  evictedBets: number;
+  evictedByReason: Record<LiveEvictionReason, number>;
+  lastSweepAt: string | null;
+  lastEvictionAt: string | null;
+}
@@ -0,0 +1,112 @@
+// Canonical market model shared by the live and pre-game pipelines
+import { Mode } from '../types';
+
+// Specifiers parsed from a bet's `sv` field, e.g. "quarternr=2,total=18.5" -> { quarternr: '2', total: '18.5' }
+export type MarketSpecifiers = Record<string, string>;
+
+// How the margin is removed from the implied probabilities to get fair odds
+export type MarginMethod = 'proportional' | 'shin' | 'power';
+
+export interface MarketPricing {
+  method: MarginMethod;
+  overround: number; // sum of the implied probabilities, e.g. 1.05
+  margin: number; // overround - 1, the bookmaker's margin
+  parameter: number | null; // Shin's insider share z or the power method's exponent k
+}
+
+export interface MarketGroup {
+  id: number;
+  name: string | null;
+  description: string | null;
+  orderNumber: number | null;
+}
+
+export interface Selection {
+  tipCode: number; // tip type code, the key of the odds map
+  betPickCode: number;
+  label: string;
+  caption: string;
+  odds: number;
+  status: string; // upstream status, e.g. ACTIVE
+  active: boolean;
+  impliedProbability: number | null; // 1 / odds
+  fairProbability: number | null; // implied probability without the margin
+  fairOdds: number | null; // 1 / fairProbability
+}
+
+export interface Market {
+  id: string; // stable across updates: `<matchId>_<betCode>_<sv>`
+  source: Mode;
+  matchId: number;
+  betId: number | null; // live bet id, matches removedBetIds; null for pre-game
+  betCode: number; // market type (BetMapItem.code)
+  name: string | null; // market type caption (BetMapItem.caption)
+  group: MarketGroup | null;
+  sv: string;
+  specifiers: MarketSpecifiers;
+  status: string;
+  active: boolean; // true when at least one selection can be bet on
+  pricing: MarketPricing | null; // null unless the market has at least two selections, all with odds above 1
+  selections: Selection[];
+}
+
+export interface MarginSummary {
+  league: string;
+  matches: number;
+  markets: number; // priced markets
+  averageMargin: number | null;
+  minMargin: number | null;
+  maxMargin: number | null;
+}
+
+// Two selections of different markets that together cover every outcome of a match, e.g. "1" of
+// the match result and "X2" of the double chance
+export interface ComplementaryPair {
+  betCode: number;
+  tipCode: number;
+  otherBetCode: number;
+  otherTipCode: number;
+  negatedSpecifier?: string; // specifier whose value the other market quotes negated, e.g. hcp when every side has its own line; other specifiers are equal
+}
+
+// Catalogue groups and picks of the selected sport, used to label markets
+export interface EnhancedBetGroup {
+  id: number;
+  description: string;
+  name: string;
+  favorite: boolean;
+  handicapParam: string | null;
+  specialBetValueTypes: string | null;
+  orderNumber: number;
+  tipTypes: number[];
+  formatCode: number;
+  lineCode: number;
+  hideHeader: boolean;
+  specialValuePosition: string;
+  sport: string;
+  picksPerRow: number | null;
+  picks: EnhancedBetPick[];
+}
+
+export interface EnhancedBetPick {
+  key: string;
+  label: string;
+  caption: string;
+  tipTypeCode: number;
+  betPickCode: number;
+  betCode: number;
+  position: string | null;
+  tipTypeTag: string | null;
+  mainType: string | null;
+  displaySpecifiers: string | null;
+  tipTypeName: string;
+  groupId: number | null;
+  groupDescription: string | null;
+  groupName: string | null;
+  groupOrderNumber: number | null;
+}
+
+export interface EnhancedBettingOptions {
+  groups: EnhancedBetGroup[];
+  picks: EnhancedBetPick[];
+}
@@ -0,0 +1,44 @@
+// Types for linking the pre-game and live records of the same fixture
+import { LiveHeader, LiveScore } from './liveTypes';
+import { EnhancedPreGameMatch } from './pregameTypes';
+import { Market } from './marketTypes';
+
+// How the pre-game match and the live header of a fixture were found to be the same
+export type FixtureResolution = 'brMatchId' | 'matchCode' | 'teams';
+
+export interface Fixture {
+  id: string; // stable internal id: `br-<brMatchId>`, or `pg-<id>` / `lv-<id>` of the first record seen
+  sport: string; // sport type code, e.g. S
+  home: string;
+  away: string;
+  league: string;
+  kickOffTime: number;
+  brMatchId: number | null;
+  matchCode: number | null;
+  preGameId: number | null; // PreGameMatch.id
+  liveId: number | null; // LiveHeader.id
+  resolvedBy: FixtureResolution | null; // null until both records are linked
+  firstSeenAt: string;
+  lastSeenAt: string;
+  linkedAt: string | null;
+}
+
+export interface LiveMatchView extends LiveHeader {
+  score: LiveScore | null;
+  markets: Market[];
+}
+
+// Combined pre-game and live view of one fixture, from whichever jobs hold its records
+export interface FixtureView {
+  fixture: Fixture;
+  preGame: EnhancedPreGameMatch | null;
+  live: LiveMatchView | null;
+}
+
+export interface MatchRegistryStats {
+  fixtures: number;
+  linked: number;
+  preGameOnly: number;
+  liveOnly: number;
+  resolvedBy: Record<FixtureResolution, number>;
+}
@@ -0,0 +1,61 @@
+// Types for the arbitrage and value bet scanner
+import { Mode } from '../types';
+
+export type OpportunityType = 'arbitrage' | 'value';
+
+// Where the fair price of a value bet comes from
+export type OpportunityReference = 'imported' | 'history';
+
+export interface OpportunitySelection {
+  marketId: string; // differs from the opportunity's for the second selection of a complementary pair
+  tipCode: number;
+  label: string;
+  caption: string;
+  odds: number;
+  referenceOdds: number | null; // fair odds of the reference, value bets only
+  stake: number | null; // share of the total stake that locks in the profit, arbitrages only
+}
+
+export interface Opportunity {
+  id: string; // `<type>_<marketId>`, plus `_<tipCode>` for value bets and `_<tipCode>_<otherMarketId>_<otherTipCode>` for complementary pairs
+  type: OpportunityType;
+  source: Mode;
+  matchId: number;
+  match: string; // "Home - Away"
+  league: string;
+  marketId: string; // the first market of a complementary pair
+  market: string | null; // rendered market name
+  betCode: number;
+  sv: string;
+  selections: OpportunitySelection[];
+  edge: number; // expected return per unit staked, e.g. 0.03 = 3%
+  overround: number | null; // of the combined best odds, arbitrages only
+  reference: OpportunityReference | null; // value bets only
+  detectedAt: string; // first scan that found it
+  updatedAt: string; // last scan that found it
+}
+
+// A fair price from an external feed, given as fair odds or as a probability
+export interface ReferencePrice {
+  matchId: number;
+  betCode: number;
+  sv?: string;
+  tipCode: number;
+  fairOdds?: number;
+  probability?: number;
+}
+
+export interface OpportunityStats {
+  scans: number;
+  lastScanAt: string | null;
+  lastScanDurationMs: number | null;
+  arbitrages: number;
+  valueBets: number;
+  referencePrices: number;
+  trackedSelections: number; // selections with a history consensus
+  minArbitrageEdge: number;
+  minValueEdge: number;
+  minHistorySamples: number;
+  liveHistoryHalfLifeMs: number;
+  references: OpportunityReference[];
+}
@@ -1,5 +1,7 @@
-// Pre-game data types for soccerbet.rs API
+// Pre-game data types: the records the pre-game collector stores and serves
+import { Market } from './marketTypes';
 
+// A pre-game match, built from the adapters' BookmakerPreGameMatch
 export interface PreGameMatch {
   id: number;
   matchCode: number;
@@ -12,25 +14,10 @@ export interface PreGameMatch {
   sport: string;
   leagueId: number;
   leagueName: string;
-  leagueToken: string;
-  round: number;
-  oddsCount: number;
-  conditions: string;
-  matchInfo: string;
-  ticketPrintType: number;
-  leagueGroupToken: string;
-  leagueGroupId: number;
-  tmstmp: number;
-  betMap: Record<string, Record<string, PreGameBet>>;
   leagueShort: string;
   live: boolean;
-  superMatch: boolean;
-  bonusDisabled: boolean;
-  brMatchId: number;
-  homeId: number;
-  awayId: number;
-  sourceId: string;
-  hasBonusTip: boolean;
+  brMatchId: number | null;
+  betMap: Record<string, Record<string, PreGameBet>>; // by tip type code, then special value
 }
 
 export interface PreGameBet {
@@ -42,47 +29,16 @@ export interface PreGameBet {
   sv: string;  // special value
 }
 
-export interface PreGameResponse {
-  systemTime: string;
-  elasticTook: number;
-  id: string;
-  name: string | null;
-  description: string | null;
-  type: string;
-  esMatches: PreGameMatch[];
+// The pre-game offer of one sport as the scheduler keeps it
+export interface PreGameSnapshot {
+  fetchedAt: number; // ms since epoch
+  matches: PreGameMatch[];
 }
 
-export interface EnhancedPreGameMatch {
-  id: number;
-  matchCode: number;
-  home: string;
-  away: string;
-  kickOffTime: number;
-  status: number;
-  blocked: boolean;
-  favourite: boolean;
-  sport: string;
-  leagueId: number;
-  leagueName: string;
-  leagueToken: string;
-  round: number;
-  oddsCount: number;
-  conditions: string;
-  matchInfo: string;
-  ticketPrintType: number;
-  leagueGroupToken: string;
-  leagueGroupId: number;
-  tmstmp: number;
-  leagueShort: string;
-  live: boolean;
-  superMatch: boolean;
-  bonusDisabled: boolean;
-  brMatchId: number;
-  homeId: number;
-  awayId: number;
-  sourceId: string;
-  hasBonusTip: boolean;
+export interface EnhancedPreGameMatch extends Omit<PreGameMatch, 'betMap'> {
   bets: EnhancedPreGameBet[];
+  markets: Market[]; // the same odds in the model shared with live
+  fixtureId: string | null; // MatchRegistry id linking this match to its live header
 }
 
 export interface EnhancedPreGameBet {
@@ -108,3 +64,60 @@ export interface EnhancedPreGameBet {
     caption: string;
   }>;
 }
+
+export interface PreGameRefreshStatus {
+  interval: string;
+  intervalMs: number;
+  isRunning: boolean;
+  isRefreshing: boolean;
+  lastRefreshAt: string | null;
+  nextRefreshAt: string | null;
+  extraRefreshAt: string | null; // one-off refresh before the next kickoff, for its closing line
+  lastDurationMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  refreshCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+}
+
+export interface PreGameChanges {
+  since: number;
+  token: number; // pass as `since` on the next request
+  fullResync: boolean; // true when the token could not be served and everything is returned
+  matches: EnhancedPreGameMatch[];
+  removedMatchIds: number[];
+}
+
+// What changed between two consecutive pre-game snapshots
+export type PreGameChangeType =
+  | 'matchAdded'
+  | 'matchRemoved'
+  | 'statusChanged'
+  | 'blockedChanged'
+  | 'liveChanged'
+  | 'kickoffChanged'
+  | 'marketOpened'
+  | 'marketClosed'
+  | 'oddsChanged';
+
+export interface PreGameSnapshotChange {
+  type: PreGameChangeType;
+  matchId: number;
+  match: string; // "Home - Away"
+  league: string;
+  betCode: number | null; // market and odds changes only
+  sv: string | null; // market and odds changes only
+  tipCode: number | null; // odds changes only
+  previous: number | boolean | null; // status, blocked, live, kickoff or odds before the change
+  current: number | boolean | null;
+}
+
+export interface PreGameSnapshotDiff {
+  id: number; // increases with every diff, pass as `since` to get later ones
+  previousAt: string;
+  at: string;
+  matches: number; // matches in the newer snapshot
+  changes: PreGameSnapshotChange[];
+  counts: Record<PreGameChangeType, number>;
+}
@@ -0,0 +1,137 @@
+// soccerbet.rs wire types of the live feed and the pre-game offer. Only the soccerbet adapter
+// and the mock upstream read them; everything else sees the records of bookmakerTypes.
+
+export interface SoccerbetLiveSport {
+  sport: string;
+  sportSortValue: string;
+  matchsCount: number;
+}
+
+export interface SoccerbetLiveHeader {
+  id: number; // K.id
+  r: number; // K.r - round
+  mc: number; // K.mc - matchCode
+  h: string; // K.h - home team
+  a: string; // K.a - away team
+  lg: string; // K.lg - leagueName
+  lsv: string; // K.lsv - leagueSortValue
+  s: string; // K.s - sport
+  sn: string; // K.sn - sportName
+  ssv: string; // K.ssv - sportSortValue
+  kot: number; // K.kot - kickOffTime
+  ls: string; // K.ls - liveStatus
+  ss: string; // K.ss - streamSource
+  tv: string; // K.tv - tvChannelInfo
+  liv: boolean; // K.liv - showInLive
+  ann: string; // K.ann - announcement
+  ltms: number; // K.ltms - ltmstmp
+  lct: number; // K.lct - lastChangeTime
+  bri: number; // K.bri - brMatchId
+  sti: string; // K.sti - imgStreamId
+  lmt: boolean; // K.lmt - hasLmt
+  eid: string; // K.eid - externalId
+  inf: string; // K.inf - matchInfo
+  ba: boolean; // K.ba - bettingAllowed
+  mte: boolean; // K.mte
+  lgi: string; // K.lgi - leagueInfo
+  fd: string; // K.fd - feed
+  lid: number; // K.lid - leagueId
+  gr: string; // K.gr - leagueGroupToken
+  grl: string; // K.grl - leagueGroupTokenList
+  lsh: string; // K.lsh - leagueShort
+  bd: boolean; // K.bd - bonusDisabled
+  tvd: string; // K.tvd - tvDurationToken
+  hbm: boolean; // K.hbm - hideBetMed
+  fci: string; // K.fci - feedConstructId
+  spi: string; // K.spi - statsPerformId
+  ifs: string; // K.ifs - inFrontStreamId
+  sis: string; // K.sis - sisCompetitionId
+  flag: string; // K.flag - flagId
+  tm: boolean; // K.tm - topMatch
+}
+
+export interface SoccerbetLiveBet {
+  id: number; // K.id
+  bc: number; // K.bc - liveBetCode
+  mId: number; // K.mId - matchLiveId
+  mc: number; // K.mc - matchCode
+  sv: string; // K.sv - specialValue
+  st: string; // K.st - liveBetStatus
+  d: boolean; // K.d - disabled
+  lct: number; // K.lct - lastChangeTime
+  om: { [key: string]: { ov: number; bpc: number } }; // K.om - odds map, key is tipTypeCode
+}
+
+// Raw score values arrive either as "2:1" strings, [2, 1] pairs or { h, a } objects
+export type SoccerbetScoreValue = string | number[] | { h?: number | string; a?: number | string; home?: number | string; away?: number | string };
+
+export interface SoccerbetLiveResult {
+  mId: number; // K.mId - matchLiveId
+  mc?: number; // K.mc - matchCode
+  lct?: number; // K.lct - lastChangeTime
+  cs?: SoccerbetScoreValue; // current score
+  ps?: SoccerbetScoreValue[] | string; // period scores, oldest first
+  cp?: string; // current period
+  mt?: string | number; // match time, e.g. "67" or "45+2"
+  gs?: SoccerbetScoreValue; // game score (tennis points in the current game)
+  srv?: number; // serving side (tennis), 1 = home, 2 = away
+}
+
+export interface SoccerbetLiveStreamResponse {
+  liveSports?: SoccerbetLiveSport[];
+  liveHeaders: SoccerbetLiveHeader[];
+  liveResults: SoccerbetLiveResult[];
+  liveBets: SoccerbetLiveBet[];
+}
+
+export interface SoccerbetPreGameMatch {
+  id: number;
+  matchCode: number;
+  home: string;
+  away: string;
+  kickOffTime: number;
+  status: number;
+  blocked: boolean;
+  favourite: boolean;
+  sport: string;
+  leagueId: number;
+  leagueName: string;
+  leagueToken: string;
+  round: number;
+  oddsCount: number;
+  conditions: string;
+  matchInfo: string;
+  ticketPrintType: number;
+  leagueGroupToken: string;
+  leagueGroupId: number;
+  tmstmp: number;
+  betMap: Record<string, Record<string, SoccerbetPreGameBet>>;
+  leagueShort: string;
+  live: boolean;
+  superMatch: boolean;
+  bonusDisabled: boolean;
+  brMatchId: number;
+  homeId: number;
+  awayId: number;
+  sourceId: string;
+  hasBonusTip: boolean;
+}
+
+export interface SoccerbetPreGameBet {
+  bpc: number; // bet pick code
+  tt: number;  // tip type
+  s: string;   // status
+  ov: number;  // odds value
+  bc: number;  // bet code
+  sv: string;  // special value
+}
+
+export interface SoccerbetPreGameResponse {
+  systemTime: string;
+  elasticTook: number;
+  id: string;
+  name: string | null;
+  description: string | null;
+  type: string;
+  esMatches: SoccerbetPreGameMatch[];
+}
@@ -0,0 +1,45 @@
+// Types for the shared soccerbet.rs HTTP client
+
+// Upstream endpoints with their own timeout and circuit breaker
+export type UpstreamEndpoint = 'sports' | 'bettingOptions' | 'preGame' | 'liveEvents' | 'liveSubscribe';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface UpstreamClientOptions {
+  retries: number; // extra attempts after the first one
+  backoffBaseMs: number; // delay before the first retry, doubled for each further retry
+  backoffMaxMs: number;
+  breakerThreshold: number; // consecutive failed requests that open the circuit
+  breakerCooldownMs: number; // how long an open circuit rejects requests before a trial request
+  timeouts: Record<UpstreamEndpoint, number>; // ms, 0 = no timeout
+}
+
+export interface UpstreamRequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface UpstreamEndpointStatus {
+  endpoint: UpstreamEndpoint;
+  circuit: CircuitState;
+  timeoutMs: number;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  totalRetries: number;
+  rejectedWhileOpen: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  openedAt: string | null;
+  retryAt: string | null; // when an open circuit lets the next trial request through
+}
+
+export interface UpstreamStatus {
+  origin: string;
+  healthy: boolean; // every circuit is closed
+  retries: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  endpoints: UpstreamEndpointStatus[];
+}